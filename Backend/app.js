@@ -14,6 +14,9 @@ app.use(express.urlencoded({ extended: false }));
 app.use(express.static(__dirname + '/public'));
 
 const jwt = require("jsonwebtoken");
+const crypto = require("crypto");
+const { buildCalendar, eventInstants, isTimeZone } = require("./calendar");
+const formationRegistry = require("../shared/formations.json");
 var nodemailer = require("nodemailer");
 
 const JWT_SECRET =
@@ -42,6 +45,7 @@ require("./imageDetails");
 require("./userFriends");
 require("./eventDetails");
 require("./userEvents");
+require("./teamLineups");
 
 const User = mongoose.model("UserInfo");
 const Team = mongoose.model("TeamInfo");
@@ -51,6 +55,7 @@ const Images = mongoose.model("ImageDetails");
 const UserFriends = mongoose.model("UserFriends");
 const Event = mongoose.model("EventDetails");
 const UserEvents = mongoose.model("UserEvents");
+const TeamLineups = mongoose.model("TeamLineups");
 
 app.post("/register", async (req, res) => {                               // done
   let { fname, lname, email, password, userType } = req.body;
@@ -247,9 +252,9 @@ app.post("/joinTeam/:teamId/:inviteCode", async (req, res) => {
               TeamMembers.create({
                 team: teamId,
                 user: userId,
-                position: 'Not Set Position',
+                position: '',
                 description: 'Not Set Description',
-                role: 'Member'
+                role: 'Player'
               });
               res.send({ status: "ok", data: "Successfully Added to the team" });
             }
@@ -934,7 +939,7 @@ app.post("/createTeam", async (req, res) => {                             // don
                 const teamMember = new TeamMembers({
                   team: teamId,
                   user: member,
-                  role: ""
+                  role: "Player"
                 })
                 await teamMember.save()
               }
@@ -1184,10 +1189,7 @@ app.post("/getTeamMembers", async (req, res) => {
         let teamMembers = [];
         let userIds = [];
         teamMembersData.forEach((user) => {
-          if(user.role == undefined){
-            user.role = "Member";
-          }
-          teamMembers.push([user.user, user.role]);
+          teamMembers.push([user.user, teamRole(user), user.shirtNumber, teamPosition(user)]);
           userIds.push(user.user);
         });
         let usersData = [];
@@ -1198,9 +1200,13 @@ app.post("/getTeamMembers", async (req, res) => {
             users.forEach((user) => {
               // Get the role from the teamMembers array
               let role = "";
+              let shirtNumber = null;
+              let position = "";
               teamMembers.forEach((teamMember) => {
                 if (teamMember[0] == user.id) {
                   role = teamMember[1];
+                  shirtNumber = teamMember[2] ?? null;
+                  position = teamMember[3];
                 }
               });
 
@@ -1209,12 +1215,14 @@ app.post("/getTeamMembers", async (req, res) => {
                 fname: user.fname,
                 lname: user.lname,
                 userType: user.userType,
-                position: user.position,
+                // The position in this team, the one on the profile until it is set
+                position: position || user.position,
                 description: user.description,
                 profilePic: user.profilePic,
                 profileBanner: user.profileBanner,
                 createdAt: user.createdAt,
                 role: role,
+                shirtNumber: shirtNumber,
               }
               usersData.push(userData);
             });
@@ -1276,8 +1284,67 @@ app.get("/getSports/:id", async (req, res) => {
   }
 });
 
+// Upcoming events the logged in user and `userIds` are going to, for the app
+// to find the ones clashing with an event it is about to create or accept.
+// `members` are the ones of those users going to each. Only the schedules of
+// friends and teammates are shared, other `userIds` are left out.
+app.post("/getBusyEvents", async (req, res) => {
+  const { token, userIds = [], excludeEventId } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const owner = await User.findOne({ email: user.email });
+    const friends = await UserFriends.find({ user: owner._id, status: "Accepted" });
+    const teams = await TeamMembers.find({ user: owner._id });
+    const teammates = await TeamMembers.find({ team: { $in: teams.map((member) => member.team) } });
+    const known = new Set([
+      ...friends.map((friend) => friend.friend.toString()),
+      ...teammates.map((member) => member.user.toString()),
+    ]);
+    const userList = [owner._id.toString(), ...(Array.isArray(userIds) ? userIds : []).map(String).filter((id) => known.has(id))];
+    // The event being edited doesn't clash with itself
+    const invites = (await UserEvents.find({ user: { $in: userList }, status: "Accepted" }))
+      .filter((invite) => !excludeEventId || invite.event.toString() !== excludeEventId);
+    const events = await Event.find({ _id: { $in: invites.map((invite) => invite.event) }, cancelled: { $ne: true } });
+    const users = await User.find({ _id: { $in: userList } });
+    const today = todaySortable();
+
+    let busy = [];
+    for (let event of events) {
+      if (lastSortableDate(event) < today) continue;
+      const going = invites.filter((invite) => invite.event.equals(event._id));
+      busy.push({
+        id: event._id,
+        name: event.name,
+        date: event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        timeZone: event.timeZone,
+        repeat: event.repeat,
+        rrule: event.rrule,
+        exdates: event.exdates,
+        members: users
+          .filter((member) => going.some((invite) => invite.user.equals(member._id)))
+          .map((member) => ({ id: member._id, fname: member.fname, lname: member.lname })),
+      });
+    }
+    res.send({ status: "ok", data: busy });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
 app.post("/createEvent", async (req, res) => {
-  const { token, name, description, location, date, startTime, endTime, teamId, repeat, members, cost } = req.body;
+  const { token, name, description, location, coordinates, date, startTime, endTime, timeZone, teamId, opponentId, sportId, eventType, rrule, members, numPlayers, cost } = req.body;
   try {
     const user = jwt.verify(token, JWT_SECRET, (err, res) => {
       if (err) {
@@ -1290,22 +1357,52 @@ app.post("/createEvent", async (req, res) => {
     }
 
     const creator = await User.findOne({email: user.email})
+    const { startsAt, endsAt } = eventInstants({ date, startTime, endTime, timeZone });
+    // A team can't challenge itself
+    const opponent = opponentId && opponentId != teamId ? opponentId : undefined;
 
     const newEvent = new Event({
       name,
       description,
       location,
+      coordinates,
       date,
       startTime,
       endTime,
+      timeZone,
+      startsAt,
+      endsAt,
+      sportsType: sportId,
       team: teamId,
-      repeat,
+      opponent,
+      opponentStatus: opponent ? "Pending" : undefined,
+      organiser: creator._id,
+      eventType,
+      rrule: rrule || undefined,
       members,
+      numPlayers,
       cost
     });
 
     newEvent.save();
 
+    // A match starts from the team's lineup, with the players invited to it
+    if (teamId && (eventType || "team") === "team") {
+      const teamLineup = await TeamLineups.findOne({ team: teamId, event: null });
+      if (teamLineup) {
+        const invited = [creator._id.toString(), ...members.map((member) => String(member))];
+        await new TeamLineups({
+          team: teamId,
+          event: newEvent._id,
+          formation: teamLineup.formation,
+          slots: teamLineup.slots.filter((slot) => invited.includes(slot.user.toString())),
+          bench: teamLineup.bench.filter((userId) => invited.includes(userId.toString())),
+          substitutions: [],
+          updatedBy: creator._id,
+        }).save();
+      }
+    }
+
     // Create Pending Event for all team members
     const newUserEvent = new UserEvents({
       user: creator._id,
@@ -1321,7 +1418,7 @@ app.post("/createEvent", async (req, res) => {
       });
       newUserEvent.save();
     }
-    res.send({ status: "ok", data: "Event Created" });
+    res.send({ status: "ok", data: newEvent._id });
 
   } catch (error) {
     console.log(error);
@@ -1348,32 +1445,48 @@ app.post("/getEvents", async (req, res) => {
       .then((data) => {
         const user = userId ? userId : data._id;
 
-        UserEvents.find({ user: user, status: status })
+        // `status` can also be a list, e.g. to get waitlisted events with the accepted ones
+        UserEvents.find({ user: user, status: Array.isArray(status) ? { $in: status } : status })
           .then((data) => {
 
             let eventIds = [];
             data.forEach((event) => {
               eventIds.push(event.event);
             });
+            const invites = data;
             let eventsData = [];
-            Event.find({ _id: { $in: eventIds } })
+            // Cancelled events reach their members as a notice instead
+            Event.find({ _id: { $in: eventIds }, cancelled: { $ne: true } })
               .then(async (data) => {
                 for (let event of data) {
                   const teamInfo = await Team.findOne({_id: event.team})
                   const sportInfo = await Sports.findById(teamInfo.sportsType)
+                  const invite = invites.find((invite) => invite.event.equals(event._id))
                   let eventData = {
                     id: event._id,
                     name: event.name,
                     sport: sportInfo.name,
+                    eventType: event.eventType || "team",
                     description: event.description,
                     location: event.location,
+                    coordinates: coordinatesOf(event),
                     date: event.date,
                     startTime: event.startTime,
                     endTime: event.endTime,
+                    timeZone: event.timeZone,
                     teamName: teamInfo.name,
                     opponentName: event.opponent,
+                    team: teamData(teamInfo),
+                    opponent: opponentAccepted(event) ? teamData(await Team.findById(event.opponent)) : null,
+                    result: resultData(event),
                     repeat: event.repeat,
-                    cost: event.cost
+                    rrule: event.rrule,
+                    exdates: event.exdates,
+                    cost: event.cost,
+                    capacity: capacityOf(event),
+                    participants: await UserEvents.countDocuments({ event: event._id, status: "Accepted" }),
+                    status: invite.status,
+                    waitlistPosition: await waitlistPosition(event, invite.user)
                   }
 
                   eventsData.push(eventData);
@@ -1396,6 +1509,8 @@ app.post("/getEvents", async (req, res) => {
   }
 });
 
+// A full event puts the user on its waitlist instead, the response tells
+// which of the two happened
 app.post("/acceptEventInvite", async (req, res) => {
   const { token, eventId } = req.body;
   try {
@@ -1408,28 +1523,37 @@ app.post("/acceptEventInvite", async (req, res) => {
     if (user == "token expired") {
       return res.send({ status: "error", data: "token expired" });
     }
-    const userEmail = user.email;
 
-    // Get the user id from the user email
-    User.findOne({ email: userEmail })
-      .then((data) => {
-        const userId = data._id;
+    const member = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (event.cancelled) {
+      return res.send({ status: "error", data: "Event is cancelled" });
+    }
+    const invite = await UserEvents.findOne({ user: member._id, event: event._id });
+    if (!invite) {
+      return res.send({ status: "error", data: "You are not invited to this event" });
+    }
+    if (invite.status === "Accepted") {
+      return res.send({ status: "ok", data: "Event Accepted" });
+    }
 
-        UserEvents.findOneAndUpdate({ user: userId, event: eventId }, { status: "Accepted" })
-          .then((data) => {
-            res.send({ status: "ok", data: "Event Accepted" });
-          })
-          .catch((error) => {
-            res.send({ status: "error", data: error });
-          });
-      })
+    if (invite.status === "Requested") {
+      return res.send({ status: "error", data: "Your request to join hasn't been answered yet" });
+    }
 
+    const status = await admit(event, invite);
+    res.send({ status: "ok", data: status === "Waitlisted" ? "Event Waitlisted" : "Event Accepted" });
   } catch (error) {
     console.log(error);
     res.send({ status: "error", data: error });
   }
 });
 
+// Also how members leave an event or its waitlist. A place that frees up goes
+// to the next one waiting.
 app.post("/rejectEventInvite", async (req, res) => {
   const { token, eventId } = req.body;
   try {
@@ -1442,28 +1566,1470 @@ app.post("/rejectEventInvite", async (req, res) => {
     if (user == "token expired") {
       return res.send({ status: "error", data: "token expired" });
     }
-    const userEmail = user.email;
 
-    // Get the user id from the user email
-    User.findOne({ email: userEmail })
-      .then((data) => {
-        const userId = data._id;
+    const member = await User.findOne({ email: user.email });
+    const invite = await UserEvents.findOne({ user: member._id, event: eventId });
+    if (!invite) {
+      return res.send({ status: "error", data: "You are not invited to this event" });
+    }
+    // Withdrawing a request to join leaves no trace of it
+    if (invite.status === "Requested") {
+      await UserEvents.deleteOne({ _id: invite._id });
+      return res.send({ status: "ok", data: "Request Withdrawn" });
+    }
+    const wasAccepted = invite.status === "Accepted";
 
-        UserEvents.findOneAndUpdate({ user: userId, event: eventId }, { status: "Rejected" })
-          .then((data) => {
-            res.send({ status: "ok", data: "Event Rejected" });
-          })
-          .catch((error) => {
-            res.send({ status: "error", data: error });
-          });
-      })
+    invite.status = "Rejected";
+    invite.waitlistedAt = undefined;
+    await invite.save();
+
+    const event = await Event.findById(eventId);
+    if (wasAccepted && event) {
+      await promoteWaitlist(event);
+    }
+    res.send({ status: "ok", data: "Event Rejected" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Locations typed in rather than picked have no coordinates
+function coordinatesOf(event) {
+  const coordinates = event.coordinates;
+  return coordinates && typeof coordinates.lat === "number" ? { lat: coordinates.lat, lng: coordinates.lng } : undefined;
+}
+
+// Events without a number of players have no limit
+function capacityOf(event) {
+  const capacity = parseInt(event.numPlayers);
+  return capacity > 0 ? capacity : null;
+}
+
+// Place of `userId` on the waitlist of `event` starting at 1, null when they
+// aren't on it
+async function waitlistPosition(event, userId) {
+  const waitlist = await UserEvents.find({ event: event._id, status: "Waitlisted" }).sort({ waitlistedAt: 1 });
+  const index = waitlist.findIndex((invite) => invite.user.equals(userId));
+  return index === -1 ? null : index + 1;
+}
+
+// Accepts `invite`, or puts it on the waitlist when the event is full. Asking
+// again keeps the place in the queue.
+async function admit(event, invite) {
+  const capacity = capacityOf(event);
+  const participants = await UserEvents.countDocuments({ event: event._id, status: "Accepted" });
+  if (capacity !== null && participants >= capacity) {
+    if (invite.status !== "Waitlisted") {
+      invite.status = "Waitlisted";
+      invite.waitlistedAt = new Date();
+      invite.requestedAt = undefined;
+      await invite.save();
+    }
+    return "Waitlisted";
+  }
+
+  invite.status = "Accepted";
+  invite.waitlistedAt = undefined;
+  invite.requestedAt = undefined;
+  await invite.save();
+  return "Accepted";
+}
+
+// Accepts waitlisted members, longest waiting first, while the event has room
+// and tells them with a notice
+async function promoteWaitlist(event) {
+  const capacity = capacityOf(event);
+  let participants = await UserEvents.countDocuments({ event: event._id, status: "Accepted" });
+  const waitlist = await UserEvents.find({ event: event._id, status: "Waitlisted" }).sort({ waitlistedAt: 1 });
+
+  for (let invite of waitlist) {
+    if (capacity !== null && participants >= capacity) break;
+    invite.status = "Accepted";
+    invite.waitlistedAt = undefined;
+    invite.notice = "Promoted";
+    invite.occurrence = null;
+    invite.changes = [];
+    invite.noticeAt = new Date();
+    await invite.save();
+    participants++;
+  }
+}
+
+// A team taking part in an event, as the events routes send it
+function teamData(team) {
+  return team && { id: team._id, name: team.name, profilePic: team.profilePic };
+}
+
+// Opponents from before challenges were answered are taken as accepted
+function fixtureStatus(event) {
+  return event.opponentStatus || "Accepted";
+}
+
+function opponentAccepted(event) {
+  return !!event.opponent && fixtureStatus(event) === "Accepted";
+}
+
+// Events created before the organiser was stored are managed by the team admins
+async function isEventOrganiser(event, userId) {
+  if (event.organiser) {
+    return event.organiser.equals(userId);
+  }
+  if (!event.team) {
+    return false;
+  }
+  return !!(await TeamMembers.findOne({ team: event.team, user: userId, role: "Admin" }));
+}
+
+// Pickup events can be found in explore so anyone sees them, the others only
+// the people invited, the members of the teams playing and the organiser
+async function canViewEvent(event, userId) {
+  if (EXPLORE_EVENT_TYPES.includes(event.eventType || (event.team ? "team" : "pickup"))) {
+    return true;
+  }
+  if (await UserEvents.findOne({ event: event._id, user: userId })) {
+    return true;
+  }
+  const teams = [event.team, event.opponent].filter(Boolean);
+  if (teams.length > 0 && (await TeamMembers.findOne({ team: { $in: teams }, user: userId }))) {
+    return true;
+  }
+  return await isEventOrganiser(event, userId);
+}
+
+app.post("/getEventData/:id", async (req, res) => {
+  const eventId = req.params.id;
+  const { token } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const viewer = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    // Hidden events look the same as missing ones
+    if (!viewer || !event || !(await canViewEvent(event, viewer._id))) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+
+    const team = event.team ? await Team.findById(event.team) : null;
+    const opponent = event.opponent ? await Team.findById(event.opponent) : null;
+    // Older events only have a sport through their team
+    const sportId = event.sportsType || (team && team.sportsType);
+    const sport = sportId ? await Sports.findById(sportId) : null;
+
+    const isOrganiser = await isEventOrganiser(event, viewer._id);
+    // Everyone invited, with their answer. Requests to join are only shown to
+    // the organiser, and to whoever sent them.
+    const invites = (await UserEvents.find({ event: event._id }))
+      .filter((invite) => isOrganiser || invite.status !== "Requested" || invite.user.equals(viewer._id));
+    const users = await User.find({ _id: { $in: invites.map((invite) => invite.user) } });
+    let members = [];
+    for (let invite of invites) {
+      const member = users.find((user) => user._id.equals(invite.user));
+      if (!member) continue;
+      members.push({
+        id: member._id,
+        fname: member.fname,
+        lname: member.lname,
+        profilePic: member.profilePic,
+        status: invite.status,
+        waitlistPosition: invite.status === "Waitlisted" ? await waitlistPosition(event, member._id) : null,
+      });
+    }
+    const ownInvite = invites.find((invite) => invite.user.equals(viewer._id));
+
+    let eventData = {
+      id: event._id,
+      name: event.name,
+      description: event.description,
+      profilePic: event.profilePic,
+      sport: sport ? sport.name : "",
+      sportsType: sportId,
+      // Older events don't know their type, the team tells them apart
+      eventType: event.eventType || (team ? "team" : "pickup"),
+      numPlayers: event.numPlayers,
+      capacity: capacityOf(event),
+      participants: invites.filter((invite) => invite.status === "Accepted").length,
+      waitlistPosition: ownInvite ? await waitlistPosition(event, viewer._id) : null,
+      team: teamData(team),
+      opponent: teamData(opponent),
+      opponentStatus: opponent ? fixtureStatus(event) : null,
+      location: event.location,
+      coordinates: coordinatesOf(event),
+      date: event.date,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      timeZone: event.timeZone,
+      repeat: event.repeat,
+      rrule: event.rrule,
+      exdates: event.exdates,
+      results: event.results,
+      result: resultData(event),
+      canRecordResult: await canRecordResult(event, viewer._id),
+      canConfirmResult: await canConfirmResult(event, viewer._id),
+      cost: event.cost,
+      cancelled: !!event.cancelled,
+      organiser: event.organiser,
+      isOrganiser: isOrganiser,
+      status: ownInvite ? ownInvite.status : null,
+      members: members,
+    }
+    res.send({ status: "ok", data: eventData });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Pickup events are open to anyone, the other types are for the people
+// invited to them
+const EXPLORE_EVENT_TYPES = ["pickup"];
+const EXPLORE_PAGE_SIZE = 12;
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "yyyymmdd" of today, like sortableDate()
+function todaySortable() {
+  const now = new Date();
+  return String(now.getFullYear()) + String(now.getMonth() + 1).padStart(2, "0") + String(now.getDate()).padStart(2, "0");
+}
+
+// Last "yyyymmdd" an event can take place on. Series ending after a number of
+// occurrences are taken as open ended.
+function lastSortableDate(event) {
+  if (!isRecurring(event)) return sortableDate(event.date);
+  const until = /UNTIL=(\d{8})/.exec(event.rrule || "");
+  return until ? until[1] : "99999999";
+}
+
+// Upcoming events the user can find and ask to join, in date order. Events
+// they were invited to are left out, requests they sent stay in with their
+// status. `from` and `to` are "dd/mm/yyyy", `cursor` is the `nextCursor` of
+// the previous page.
+app.post("/exploreEvents", async (req, res) => {
+  const { token, sport, from, to, payment, location, search, cursor } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const member = await User.findOne({ email: user.email });
+    const invites = await UserEvents.find({ user: member._id });
+    const invited = invites.filter((invite) => invite.status !== "Requested").map((invite) => invite.event);
+
+    let query = {
+      // Older events without a type are pickup games when they have no team
+      $or: [{ eventType: { $in: EXPLORE_EVENT_TYPES } }, { eventType: { $exists: false }, team: null }],
+      cancelled: { $ne: true },
+      _id: { $nin: invited },
+    };
+    if (sport) {
+      const sportInfo = await Sports.findOne({ name: sport });
+      if (!sportInfo) {
+        return res.send({ status: "ok", data: { events: [], nextCursor: null } });
+      }
+      query.sportsType = sportInfo._id;
+    }
+    if (location) {
+      query.location = { $regex: escapeRegExp(location), $options: "i" };
+    }
+    if (search) {
+      query.name = { $regex: escapeRegExp(search), $options: "i" };
+    }
+
+    const today = todaySortable();
+    const start = from && sortableDate(from) > today ? sortableDate(from) : today;
+    const end = to ? sortableDate(to) : null;
+
+    // The cursor is the sort key of the last event sent, "yyyymmdd:id"
+    let candidates = [];
+    for (let event of await Event.find(query)) {
+      if (!/^\d{2}\/\d{2}\/\d{4}$/.test(event.date || "")) continue;
+      const cost = parseInt(event.cost) || 0;
+      if (payment === "Free" && cost > 0) continue;
+      if (payment === "Not Free" && cost === 0) continue;
+
+      const first = sortableDate(event.date);
+      if (lastSortableDate(event) < start || (end && first > end)) continue;
+      // Series that already started are listed from the start of the range
+      candidates.push({ event, key: (first > start ? first : start) + ":" + event._id });
+    }
+    candidates.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    if (cursor) {
+      candidates = candidates.filter((candidate) => candidate.key > cursor);
+    }
+    const page = candidates.slice(0, EXPLORE_PAGE_SIZE);
+
+    let eventsData = [];
+    for (let { event } of page) {
+      const team = event.team ? await Team.findById(event.team) : null;
+      const sportId = event.sportsType || (team && team.sportsType);
+      const sportInfo = sportId ? await Sports.findById(sportId) : null;
+      const invite = invites.find((invite) => invite.event.equals(event._id));
+      eventsData.push({
+        id: event._id,
+        name: event.name,
+        sport: sportInfo ? sportInfo.name : "",
+        eventType: event.eventType || (team ? "team" : "pickup"),
+        description: event.description,
+        location: event.location,
+        coordinates: coordinatesOf(event),
+        date: event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        timeZone: event.timeZone,
+        teamName: team ? team.name : "",
+        opponentName: event.opponent,
+        team: teamData(team),
+        opponent: opponentAccepted(event) ? teamData(await Team.findById(event.opponent)) : null,
+        result: resultData(event),
+        repeat: event.repeat,
+        rrule: event.rrule,
+        exdates: event.exdates,
+        cost: event.cost,
+        capacity: capacityOf(event),
+        participants: await UserEvents.countDocuments({ event: event._id, status: "Accepted" }),
+        status: invite ? invite.status : null,
+        waitlistPosition: null,
+      });
+    }
+
+    const nextCursor = candidates.length > page.length ? page[page.length - 1].key : null;
+    res.send({ status: "ok", data: { events: eventsData, nextCursor: nextCursor } });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// The organiser answers the request with /answerJoinRequest
+app.post("/requestToJoinEvent", async (req, res) => {
+  const { token, eventId } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const member = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event || !EXPLORE_EVENT_TYPES.includes(event.eventType || (event.team ? "team" : "pickup"))) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (event.cancelled) {
+      return res.send({ status: "error", data: "Event is cancelled" });
+    }
+    if (await UserEvents.findOne({ user: member._id, event: event._id })) {
+      return res.send({ status: "error", data: "You are already invited to this event" });
+    }
+
+    await new UserEvents({ user: member._id, event: event._id, status: "Requested", requestedAt: new Date() }).save();
+    res.send({ status: "ok", data: "Request Sent" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Approved users become members of the event and take a place, or join the
+// waitlist when it is full. Declined requests are removed.
+app.post("/answerJoinRequest", async (req, res) => {
+  const { token, eventId, userId, approve } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const organiser = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (!(await isEventOrganiser(event, organiser._id))) {
+      return res.send({ status: "error", data: "Only the organiser can answer requests to join" });
+    }
+    const invite = await UserEvents.findOne({ user: userId, event: event._id, status: "Requested" });
+    if (!invite) {
+      return res.send({ status: "error", data: "Request not found" });
+    }
+
+    if (!approve) {
+      await UserEvents.deleteOne({ _id: invite._id });
+      return res.send({ status: "ok", data: "Request Declined" });
+    }
+
+    if (!event.members.some((member) => member.equals(invite.user))) {
+      event.members.push(invite.user);
+      await event.save();
+    }
+    const status = await admit(event, invite);
+    res.send({ status: "ok", data: status === "Waitlisted" ? "Request Waitlisted" : "Request Approved" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+app.post("/cancelEvent", async (req, res) => {
+  const { token, eventId, occurrenceDate } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const organiser = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (!(await isEventOrganiser(event, organiser._id))) {
+      return res.send({ status: "error", data: "Only the organiser can cancel this event" });
+    }
+
+    // Cancelling one occurrence of a recurring event only skips that day
+    const skipOnly = !!occurrenceDate && isRecurring(event);
+    if (skipOnly) {
+      event.exdates.push(occurrenceDate);
+    } else {
+      event.cancelled = true;
+    }
+    await event.save();
+
+    // Every invited member gets a notice, whatever they answered
+    await UserEvents.updateMany(
+      { event: event._id, user: { $in: event.members } },
+      { notice: "Cancelled", occurrence: skipOnly ? occurrenceDate : null, changes: [], noticeAt: new Date() }
+    );
+
+    res.send({ status: "ok", data: "Event Cancelled" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
 
+// Events from before `rrule` was stored only have `repeat`
+function isRecurring(event) {
+  return !!event.rrule || event.repeat == "true";
+}
+
+// "dd/mm/yyyy" as "yyyymmdd", so dates compare as strings
+function sortableDate(date) {
+  return date.split("/").reverse().join("");
+}
+
+// Fields members are told about when they change
+const NOTICE_FIELDS = ["date", "startTime", "endTime", "location"];
+
+// Tells `users` which notice fields of `event` differ from `before`
+async function noticeChanges(event, before, users) {
+  const changes = NOTICE_FIELDS
+    .filter((field) => before[field] !== event[field])
+    .map((field) => ({ field, previous: before[field] }));
+  if (changes.length == 0) return;
+
+  const invites = await UserEvents.find({ event: event._id, user: { $in: users } });
+  for (let invite of invites) {
+    // Keep the value from before the first unseen change so the notice
+    // shows what the member last saw
+    let merged = invite.changes.map((change) => ({ field: change.field, previous: change.previous }));
+    for (let change of changes) {
+      if (!merged.some((seen) => seen.field === change.field)) merged.push(change);
+    }
+    merged = merged.filter((change) => change.previous !== event[change.field]);
+
+    invite.notice = merged.length > 0 ? "Updated" : undefined;
+    invite.occurrence = null;
+    invite.changes = merged;
+    invite.noticeAt = new Date();
+    await invite.save();
+  }
+}
+
+// Editing "this" occurrence or "future" ones of a recurring event moves them
+// into a new event, the series keeps the rest. The response is the id of the
+// event holding the changes.
+app.post("/updateEvent", async (req, res) => {
+  const { token, eventId, scope, occurrenceDate, seriesRule, name, description, location, coordinates, date, startTime, endTime, timeZone, teamId, opponentId, sportId, rrule, members, numPlayers, cost } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const organiser = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (!(await isEventOrganiser(event, organiser._id))) {
+      return res.send({ status: "error", data: "Only the organiser can edit this event" });
+    }
+    if (event.cancelled) {
+      return res.send({ status: "error", data: "Event is cancelled" });
+    }
+
+    const previousMembers = event.members.map((member) => member.toString());
+    // Nothing is left of the series before the first occurrence, so "future"
+    // edits from there change all of it
+    const split = !!occurrenceDate && isRecurring(event) && (scope === "this" || (scope === "future" && !!seriesRule));
+    // Events from before zones were stored keep none until one is picked
+    const zone = timeZone || event.timeZone;
+    const { startsAt, endsAt } = eventInstants({ date, startTime, endTime, timeZone: zone });
+    // Challenging another team asks its admins again, keeping the same one
+    // keeps their answer
+    const opponent = opponentId && opponentId != teamId ? opponentId : undefined;
+    const sameOpponent = !!opponent && !!event.opponent && event.opponent.toString() === opponent.toString();
+    const opponentStatus = sameOpponent ? event.opponentStatus : opponent ? "Pending" : undefined;
+
+    if (split) {
+      const occurrences = new Event({
+        name,
+        description,
+        location,
+        coordinates,
+        date,
+        startTime,
+        endTime,
+        sportsType: sportId,
+        team: teamId,
+        opponent,
+        opponentStatus,
+        timeZone: zone,
+        startsAt,
+        endsAt,
+        organiser: event.organiser || organiser._id,
+        eventType: event.eventType,
+        rrule: scope === "future" ? rrule : undefined,
+        exdates: scope === "future" ? event.exdates.filter((exdate) => sortableDate(exdate) > sortableDate(occurrenceDate)) : [],
+        recurrenceOf: event._id,
+        occurrenceDate,
+        members,
+        numPlayers,
+        cost
+      });
+      await occurrences.save();
+
+      if (scope === "this") {
+        event.exdates.push(occurrenceDate);
+      } else {
+        event.rrule = seriesRule;
+        event.exdates = event.exdates.filter((exdate) => sortableDate(exdate) < sortableDate(occurrenceDate));
+      }
+      await event.save();
+
+      // Members keep the answer they gave for the series
+      const answers = await UserEvents.find({ event: event._id });
+      for (let member of new Set([organiser._id.toString(), ...members])) {
+        const answer = answers.find((answer) => answer.user.toString() === member);
+        await new UserEvents({
+          user: member,
+          event: occurrences._id,
+          status: answer ? answer.status : "Pending Invite",
+          waitlistedAt: answer ? answer.waitlistedAt : undefined,
+        }).save();
+      }
+
+      await noticeChanges(
+        occurrences,
+        { location: event.location, date: occurrenceDate, startTime: event.startTime, endTime: event.endTime },
+        previousMembers
+      );
+      await promoteWaitlist(occurrences);
+      return res.send({ status: "ok", data: occurrences._id });
+    }
+
+    const before = { location: event.location, date: event.date, startTime: event.startTime, endTime: event.endTime };
+
+    event.name = name;
+    event.description = description;
+    event.location = location;
+    event.coordinates = coordinates || undefined;
+    event.date = date;
+    event.startTime = startTime;
+    event.endTime = endTime;
+    event.timeZone = zone;
+    event.startsAt = startsAt;
+    event.endsAt = endsAt;
+    event.team = teamId;
+    event.opponent = opponent;
+    event.opponentStatus = opponentStatus;
+    event.sportsType = sportId;
+    event.rrule = rrule || undefined;
+    event.repeat = undefined;
+    event.members = members;
+    event.numPlayers = numPlayers;
+    event.cost = cost;
+    await event.save();
+
+    // Invite the members that were added and drop the ones taken off
+    for (let member of members) {
+      if (previousMembers.includes(member)) continue;
+      await new UserEvents({ user: member, event: event._id, status: "Pending Invite" }).save();
+    }
+    const removed = previousMembers.filter((member) => !members.includes(member));
+    await UserEvents.deleteMany({ event: event._id, user: { $in: removed } });
+
+    await noticeChanges(event, before, previousMembers);
+    // A larger capacity or members taken off can make room. Being let in is
+    // the notice promoted members get, it replaces one about the changes.
+    await promoteWaitlist(event);
+
+    res.send({ status: "ok", data: event._id });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+app.post("/getEventNotices", async (req, res) => {
+  const { token } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const member = await User.findOne({ email: user.email });
+    const invites = await UserEvents.find({ user: member._id, notice: { $in: ["Cancelled", "Updated", "Promoted", "Fixture"] } });
+    const events = await Event.find({ _id: { $in: invites.map((invite) => invite.event) } });
+
+    let notices = [];
+    for (let invite of invites) {
+      const event = events.find((event) => event._id.equals(invite.event));
+      if (!event) continue;
+      const opponent = invite.notice === "Fixture" && event.opponent ? await Team.findById(event.opponent) : null;
+      notices.push({
+        id: event._id,
+        name: event.name,
+        location: event.location,
+        date: invite.occurrence || event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        notice: invite.notice,
+        changes: invite.changes.map((change) => ({ field: change.field, previous: change.previous })),
+        noticeAt: invite.noticeAt,
+        fixture: opponent ? { opponent: teamData(opponent), status: fixtureStatus(event) } : undefined,
+      });
+    }
+    // Final results shared with the teams the user is in
+    const results = await Event.find({ resultNoticeTo: member._id });
+    for (let event of results) {
+      notices.push({
+        id: event._id,
+        name: event.name,
+        location: event.location,
+        date: event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        notice: "Result",
+        changes: [],
+        noticeAt: event.result.answeredAt || event.result.submittedAt,
+        result: resultData(event),
+      });
+    }
+    res.send({ status: "ok", data: notices });
   } catch (error) {
     console.log(error);
     res.send({ status: "error", data: error });
   }
 });
 
+app.post("/dismissEventNotice", async (req, res) => {
+  const { token, eventId } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const member = await User.findOne({ email: user.email });
+    await UserEvents.findOneAndUpdate(
+      { user: member._id, event: eventId },
+      { $unset: { notice: 1, noticeAt: 1 }, changes: [] }
+    );
+    await Event.updateOne({ _id: eventId }, { $pull: { resultNoticeTo: member._id } });
+    res.send({ status: "ok", data: "Notice Dismissed" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Results are recorded for single team matches once they ended. Trainings
+// and series don't have one.
+function takesResult(event) {
+  return !!event.team && (event.eventType || "team") === "team" && !isRecurring(event) && !event.cancelled;
+}
+
+function hasEnded(event) {
+  const { endsAt } = eventInstants(event);
+  return !!endsAt && endsAt <= new Date();
+}
+
+async function isTeamAdmin(teamId, userId) {
+  if (!teamId) {
+    return false;
+  }
+  return !!(await TeamMembers.findOne({ team: teamId, user: userId, role: "Admin" }));
+}
+
+// The organiser or an admin of the home team records the score, again after
+// the opponent disputed it
+async function canRecordResult(event, userId) {
+  if (!takesResult(event) || !hasEnded(event)) return false;
+  if (event.result && event.result.status && event.result.status !== "Disputed") return false;
+  return (await isEventOrganiser(event, userId)) || (await isTeamAdmin(event.team, userId));
+}
+
+async function canConfirmResult(event, userId) {
+  return !!event.result && event.result.status === "Pending" && opponentAccepted(event) && (await isTeamAdmin(event.opponent, userId));
+}
+
+function resultData(event) {
+  if (!event.result || !event.result.status) return null;
+  return { home: event.result.home, away: event.result.away, status: event.result.status };
+}
+
+// Makes the score the result of the event and, if asked, tells the home team
+async function finaliseResult(event) {
+  event.result.status = "Confirmed";
+  event.results = event.result.home + " - " + event.result.away;
+  if (event.result.share) {
+    const roster = await TeamMembers.find({ team: event.team });
+    event.resultNoticeTo = roster.map((member) => member.user);
+  }
+}
+
+// Events ended longer ago than this don't ask for a result anymore
+const RESULT_REQUEST_DAYS = 14;
+
+// Team matches the logged in user is to record a result for, or to confirm
+// the one the other team recorded
+app.post("/getPendingResults", async (req, res) => {
+  const { token } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const viewer = await User.findOne({ email: user.email });
+    const adminOf = (await TeamMembers.find({ user: viewer._id, role: "Admin" })).map((membership) => membership.team);
+    const events = await Event.find({
+      cancelled: { $ne: true },
+      $or: [{ organiser: viewer._id }, { team: { $in: adminOf } }, { opponent: { $in: adminOf } }],
+    });
+    const since = new Date(Date.now() - RESULT_REQUEST_DAYS * 24 * 60 * 60 * 1000);
+
+    let pending = [];
+    for (let event of events) {
+      let action = null;
+      if (await canConfirmResult(event, viewer._id)) {
+        action = "confirm";
+      } else if (eventInstants(event).endsAt > since && (await canRecordResult(event, viewer._id))) {
+        action = "submit";
+      }
+      if (!action) continue;
+
+      pending.push({
+        id: event._id,
+        name: event.name,
+        date: event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        timeZone: event.timeZone,
+        team: teamData(await Team.findById(event.team)),
+        opponent: opponentAccepted(event) ? teamData(await Team.findById(event.opponent)) : null,
+        result: resultData(event),
+        action,
+      });
+    }
+    res.send({ status: "ok", data: pending });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Without an opponent team on Playmate, or one that took up the challenge,
+// there is nobody to confirm the score and it is final right away
+app.post("/submitEventResult", async (req, res) => {
+  const { token, eventId, home, away, share } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const submitter = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (!(await canRecordResult(event, submitter._id))) {
+      return res.send({ status: "error", data: "You can't record a result for this event" });
+    }
+    if (![home, away].every((score) => Number.isInteger(score) && score >= 0)) {
+      return res.send({ status: "error", data: "Scores must be whole numbers" });
+    }
+
+    event.result = {
+      home,
+      away,
+      status: "Pending",
+      submittedBy: submitter._id,
+      submittedAt: new Date(),
+      share: !!share,
+    };
+    if (!opponentAccepted(event)) {
+      await finaliseResult(event);
+    }
+    await event.save();
+    res.send({ status: "ok", data: event.result.status === "Confirmed" ? "Result Confirmed" : "Result Pending" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// An admin of the opponent confirms the score or disputes it, a disputed
+// score goes back to the home team to record again
+app.post("/answerEventResult", async (req, res) => {
+  const { token, eventId, confirm } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const admin = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (!(await canConfirmResult(event, admin._id))) {
+      return res.send({ status: "error", data: "There is no result for you to confirm" });
+    }
+
+    event.result.answeredBy = admin._id;
+    event.result.answeredAt = new Date();
+    if (confirm) {
+      await finaliseResult(event);
+    } else {
+      event.result.status = "Disputed";
+    }
+    await event.save();
+    res.send({ status: "ok", data: confirm ? "Result Confirmed" : "Result Disputed" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// How many teams a search for an opponent sends back
+const TEAM_SEARCH_LIMIT = 10;
+
+// Teams to challenge, by name. `sportId` keeps to teams of the same sport and
+// the team the event is for is left out.
+app.post("/searchTeams", async (req, res) => {
+  const { token, search = "", sportId, excludeTeamId } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    let query = { name: { $regex: escapeRegExp(search.trim()), $options: "i" } };
+    if (sportId) {
+      query.sportsType = sportId;
+    }
+    if (excludeTeamId) {
+      query._id = { $ne: excludeTeamId };
+    }
+    const teams = await Team.find(query).sort({ name: 1 }).limit(TEAM_SEARCH_LIMIT);
+
+    let teamsData = [];
+    for (let team of teams) {
+      teamsData.push({ ...teamData(team), membersCount: await TeamMembers.countDocuments({ team: team._id }) });
+    }
+    res.send({ status: "ok", data: teamsData });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// A match between two teams as the fixture lists show it. The opponent is
+// sent with its answer, also while the challenge waits for one.
+async function fixtureData(event) {
+  return {
+    id: event._id,
+    name: event.name,
+    location: event.location,
+    date: event.date,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    timeZone: event.timeZone,
+    repeat: event.repeat,
+    rrule: event.rrule,
+    exdates: event.exdates,
+    cost: event.cost,
+    team: teamData(await Team.findById(event.team)),
+    opponent: event.opponent ? teamData(await Team.findById(event.opponent)) : null,
+    opponentStatus: event.opponent ? fixtureStatus(event) : null,
+    result: resultData(event),
+    attendance: {
+      accepted: await UserEvents.countDocuments({ event: event._id, status: "Accepted" }),
+      // Asking to join isn't being invited
+      invited: await UserEvents.countDocuments({ event: event._id, status: { $ne: "Requested" } }),
+    },
+  };
+}
+
+// Matches of a team, the ones it organised and the challenges it accepted
+app.post("/getTeamFixtures", async (req, res) => {
+  const { token, teamId } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const events = await Event.find({
+      cancelled: { $ne: true },
+      $or: [{ team: teamId }, { opponent: teamId, opponentStatus: { $nin: ["Pending", "Declined"] } }],
+    });
+
+    let fixtures = [];
+    for (let event of events) {
+      // Trainings and network events of the team aren't matches
+      if ((event.eventType || "team") !== "team") continue;
+      fixtures.push(await fixtureData(event));
+    }
+    res.send({ status: "ok", data: fixtures });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Upcoming challenges to the teams the logged in user is an admin of
+app.post("/getFixtureRequests", async (req, res) => {
+  const { token } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const admin = await User.findOne({ email: user.email });
+    const adminOf = (await TeamMembers.find({ user: admin._id, role: "Admin" })).map((membership) => membership.team);
+    const events = await Event.find({ opponent: { $in: adminOf }, opponentStatus: "Pending", cancelled: { $ne: true } });
+    const today = todaySortable();
+
+    let requests = [];
+    for (let event of events) {
+      if (lastSortableDate(event) < today) continue;
+      requests.push(await fixtureData(event));
+    }
+    res.send({ status: "ok", data: requests });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// An admin of the challenged team takes up the match or turns it down, the
+// organiser is told either way
+app.post("/answerFixtureRequest", async (req, res) => {
+  const { token, eventId, accept } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const admin = await User.findOne({ email: user.email });
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return res.send({ status: "error", data: "Event not found" });
+    }
+    if (fixtureStatus(event) !== "Pending" || !(await isTeamAdmin(event.opponent, admin._id))) {
+      return res.send({ status: "error", data: "There is no challenge for you to answer" });
+    }
+
+    event.opponentStatus = accept ? "Accepted" : "Declined";
+    event.opponentAnsweredBy = admin._id;
+    await event.save();
+
+    if (event.organiser) {
+      await UserEvents.updateOne(
+        { event: event._id, user: event.organiser },
+        { notice: "Fixture", occurrence: null, changes: [], noticeAt: new Date() }
+      );
+    }
+    res.send({ status: "ok", data: accept ? "Fixture Accepted" : "Fixture Declined" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+function lineupData(lineup) {
+  return {
+    formation: lineup.formation,
+    slots: lineup.slots.map((slot) => ({ slot: slot.slot, user: slot.user })),
+    bench: lineup.bench,
+    substitutions: (lineup.substitutions || []).map((sub) => ({ minute: sub.minute, off: sub.off, on: sub.on })),
+    updatedAt: lineup.updatedAt,
+  };
+}
+
+// Extra time included
+const MAX_SUBSTITUTION_MINUTE = 150;
+
+// The number of slots of each formation by the lowercase sport name, from the
+// registry the app draws the fields with. Sports without their own get the
+// default sport's.
+const FORMATIONS = {};
+for (let [sport, groups] of Object.entries(formationRegistry.sports)) {
+  FORMATIONS[sport] = {};
+  for (let formation of groups.flatMap((group) => formationRegistry.formations[group])) {
+    FORMATIONS[sport][formation.key] = formation.slots.length;
+  }
+}
+
+async function formationsOf(team, event) {
+  const sport = await Sports.findById((event && event.sportsType) || team.sportsType);
+  return FORMATIONS[((sport && sport.name) || "").trim().toLowerCase()] || FORMATIONS[formationRegistry.defaultSport];
+}
+
+// Members see the lineups of their team, the people invited to a match and
+// its organiser the one of that match
+async function canViewLineup(teamId, eventId, userId) {
+  if (await TeamMembers.findOne({ team: teamId, user: userId })) {
+    return true;
+  }
+  const event = eventId ? await Event.findById(eventId) : null;
+  if (!event || String(event.team) != String(teamId)) {
+    return false;
+  }
+  return !!(await UserEvents.findOne({ event: event._id, user: userId })) || (await isEventOrganiser(event, userId));
+}
+
+// Admins and captains set the lineups of their team, the organiser the one of
+// their match too
+async function canEditLineup(teamId, eventId, userId) {
+  const member = await TeamMembers.findOne({ team: teamId, user: userId, role: { $in: ["Admin", "Captain"] } });
+  if (member) {
+    return true;
+  }
+  const event = eventId ? await Event.findById(eventId) : null;
+  return !!event && (await isEventOrganiser(event, userId));
+}
+
+// The saved lineup of a team, or of one of its matches with `eventId`. Null
+// until one was saved.
+app.post("/getLineup", async (req, res) => {
+  const { token, teamId, eventId } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const viewer = await User.findOne({ email: user.email });
+
+    if (!(await canViewLineup(teamId, eventId, viewer._id))) {
+      return res.send({ status: "error", data: "Only the team and the people invited can see the lineup" });
+    }
+
+    const lineup = await TeamLineups.findOne({ team: teamId, event: eventId || null });
+    res.send({ status: "ok", data: lineup ? lineupData(lineup) : null });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Replaces the lineup. Players who aren't in the team anymore, or weren't
+// invited to the match, are left out. A player or slot only counts the first
+// time it comes up.
+app.post("/saveLineup", async (req, res) => {
+  const { token, teamId, eventId, formation, slots, bench, substitutions } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+    const editor = await User.findOne({ email: user.email });
+
+    if (!(await canEditLineup(teamId, eventId, editor._id))) {
+      return res.send({ status: "error", data: "Only admins and captains can change the lineup" });
+    }
+
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return res.send({ status: "error", data: "Team not found" });
+    }
+    const event = eventId ? await Event.findById(eventId) : null;
+    if (eventId && (!event || String(event.team) != String(teamId))) {
+      return res.send({ status: "error", data: "The match isn't one of the team's" });
+    }
+    const formations = await formationsOf(team, event);
+    const slotCount = Object.prototype.hasOwnProperty.call(formations, formation) ? formations[formation] : 0;
+    if (!slotCount) {
+      return res.send({ status: "error", data: "Unknown formation" });
+    }
+
+    // Players going to the match. The ones already in its saved lineup stay
+    // when they decline later, so the lineup can point them out.
+    let roster;
+    if (eventId) {
+      const invites = await UserEvents.find({ event: eventId, status: { $ne: "Requested" } });
+      const saved = await TeamLineups.findOne({ team: teamId, event: eventId });
+      const kept = saved
+        ? [...saved.slots.map((slot) => slot.user), ...saved.bench, ...saved.substitutions.map((sub) => sub.on)].map(String)
+        : [];
+      roster = invites
+        .filter((invite) => invite.status === "Accepted" || kept.includes(invite.user.toString()))
+        .map((invite) => invite.user.toString());
+    } else {
+      roster = (await TeamMembers.find({ team: teamId })).map((member) => member.user.toString());
+    }
+    let placed = new Set();
+    const place = (userId) => {
+      const id = String(userId);
+      if (!roster.includes(id) || placed.has(id)) return false;
+      placed.add(id);
+      return true;
+    };
+    let filled = new Set();
+    const lineupSlots = (slots || []).filter((slot) => {
+      if (!Number.isInteger(slot.slot) || slot.slot < 0 || slot.slot >= slotCount || filled.has(slot.slot) || !place(slot.user)) return false;
+      filled.add(slot.slot);
+      return true;
+    });
+    const lineupBench = (bench || []).filter((userId) => place(userId));
+    const lineupSubstitutions = eventId
+      ? (substitutions || [])
+          .filter((sub) => Number.isInteger(sub.minute) && sub.minute >= 0 && sub.minute <= MAX_SUBSTITUTION_MINUTE)
+          .filter((sub) => sub.off != sub.on && roster.includes(String(sub.off)) && roster.includes(String(sub.on)))
+          .sort((a, b) => a.minute - b.minute)
+      : [];
+    // Played out in order, a player only comes off while on the field and
+    // only comes on while off it
+    let onField = new Set(lineupSlots.map((slot) => String(slot.user)));
+    for (let sub of lineupSubstitutions) {
+      if (!onField.has(String(sub.off)) || onField.has(String(sub.on))) {
+        return res.send({ status: "error", data: `The substitution in minute ${sub.minute} isn't possible with the lineup` });
+      }
+      onField.delete(String(sub.off));
+      onField.add(String(sub.on));
+    }
+
+    const lineup = await TeamLineups.findOneAndUpdate(
+      { team: teamId, event: eventId || null },
+      { team: teamId, event: eventId || null, formation, slots: lineupSlots, bench: lineupBench, substitutions: lineupSubstitutions, updatedBy: editor._id },
+      { upsert: true, new: true }
+    );
+    res.send({ status: "ok", data: lineupData(lineup) });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+const TEAM_ROLES = ["Admin", "Captain", "Coach", "Player"];
+const MAX_SHIRT_NUMBER = 99;
+
+// Members who joined before there were coaches and players were saved as
+// "Member" or without a role
+function teamRole(member) {
+  return TEAM_ROLES.includes(member.role) ? member.role : "Player";
+}
+
+// Empty until set, joining used to save a placeholder
+function teamPosition(member) {
+  return member.position && member.position != "Not Set Position" ? member.position : "";
+}
+
+// A team always keeps an admin
+async function hasOtherAdmin(teamId, userId) {
+  return !!(await TeamMembers.findOne({ team: teamId, role: "Admin", user: { $ne: userId } }));
+}
+
+// Team admins set the role, shirt number and position of a member. Fields
+// left out stay as they are, a null shirt number takes it away.
+app.post("/updateTeamMember", async (req, res) => {
+  const { token, teamId, userId, role, shirtNumber, position } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+    const admin = await User.findOne({ email: user.email });
+
+    if (!(await isTeamAdmin(teamId, admin._id))) {
+      return res.send({ status: "error", data: "Only team admins can change members" });
+    }
+    const member = await TeamMembers.findOne({ team: teamId, user: userId });
+    if (!member) {
+      return res.send({ status: "error", data: "Not a member of the team" });
+    }
+
+    if (role !== undefined) {
+      if (!TEAM_ROLES.includes(role)) {
+        return res.send({ status: "error", data: "Unknown role" });
+      }
+      if (member.role == "Admin" && role != "Admin" && !(await hasOtherAdmin(teamId, userId))) {
+        return res.send({ status: "error", data: "The team needs at least one admin" });
+      }
+      member.role = role;
+    }
+    if (shirtNumber !== undefined) {
+      if (shirtNumber !== null && !(Number.isInteger(shirtNumber) && shirtNumber >= 0 && shirtNumber <= MAX_SHIRT_NUMBER)) {
+        return res.send({ status: "error", data: `Shirt numbers go from 0 to ${MAX_SHIRT_NUMBER}` });
+      }
+      const taken = shirtNumber !== null && (await TeamMembers.findOne({ team: teamId, shirtNumber, user: { $ne: userId } }));
+      if (taken) {
+        const wearer = await User.findById(taken.user);
+        const name = wearer ? `${wearer.fname} ${wearer.lname}` : "another member";
+        return res.send({ status: "error", data: `Number ${shirtNumber} is already worn by ${name}` });
+      }
+      member.shirtNumber = shirtNumber;
+    }
+    if (position !== undefined) {
+      member.position = String(position).trim();
+    }
+
+    await member.save();
+    res.send({ status: "ok", data: "Member Updated" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Team admins remove a member, who is taken out of the team's lineup too
+app.post("/removeTeamMember", async (req, res) => {
+  const { token, teamId, userId } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+    const admin = await User.findOne({ email: user.email });
+
+    if (!(await isTeamAdmin(teamId, admin._id))) {
+      return res.send({ status: "error", data: "Only team admins can remove members" });
+    }
+    const member = await TeamMembers.findOne({ team: teamId, user: userId });
+    if (!member) {
+      return res.send({ status: "error", data: "Not a member of the team" });
+    }
+    if (member.role == "Admin" && !(await hasOtherAdmin(teamId, userId))) {
+      return res.send({ status: "error", data: "The team needs at least one admin" });
+    }
+
+    await TeamMembers.deleteOne({ _id: member._id });
+    await TeamLineups.updateOne(
+      { team: teamId, event: null },
+      { $pull: { slots: { user: member.user }, bench: member.user } }
+    );
+    res.send({ status: "ok", data: "Member Removed" });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// The secret part of the calendar feed url, created on first use. `reset`
+// replaces it so a leaked url stops working.
+app.post("/getCalendarFeed", async (req, res) => {
+  const { token, timeZone, reset } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const owner = await User.findOne({ email: user.email });
+    if (!owner.calendarToken || reset) {
+      owner.calendarToken = crypto.randomBytes(24).toString("hex");
+    }
+    // An unknown zone would break the feed, UTC is used instead
+    if (timeZone) {
+      owner.calendarTimeZone = isTimeZone(timeZone) ? timeZone : "UTC";
+    }
+    await owner.save();
+
+    res.send({ status: "ok", data: owner.calendarToken });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// A .ics file of `eventIds` for the app to download, leaving out the events
+// the user can't see. `timeZone` is used for events that don't have one.
+app.post("/getCalendarFile", async (req, res) => {
+  const { token, eventIds, timeZone } = req.body;
+  try {
+    const user = jwt.verify(token, JWT_SECRET, (err, res) => {
+      if (err) {
+        return "token expired";
+      }
+      return res;
+    });
+    if (user == "token expired") {
+      return res.send({ status: "error", data: "token expired" });
+    }
+
+    const viewer = await User.findOne({ email: user.email });
+    const found = await Event.find({ _id: { $in: Array.isArray(eventIds) ? eventIds : [] } });
+    let events = [];
+    for (let event of found) {
+      if (await canViewEvent(event, viewer._id)) {
+        events.push(event);
+      }
+    }
+
+    res.send({ status: "ok", data: buildCalendar(events, timeZone || "UTC") });
+  } catch (error) {
+    console.log(error);
+    res.send({ status: "error", data: error });
+  }
+});
+
+// Subscribed to by calendar apps, which can't send the jwt, so the token in
+// the url is the only check
+app.get("/calendar/:calendarToken.ics", async (req, res) => {
+  try {
+    const owner = await User.findOne({ calendarToken: req.params.calendarToken });
+    if (!owner || !req.params.calendarToken) {
+      return res.status(404).send("Not found");
+    }
+
+    const invites = await UserEvents.find({ user: owner._id, status: "Accepted" });
+    const events = await Event.find({ _id: { $in: invites.map((invite) => invite.event) } });
+
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.send(buildCalendar(events, owner.calendarTimeZone || "UTC", "Playmate"));
+  } catch (error) {
+    console.log(error);
+    res.status(500).send("Error");
+  }
+});
+
 app.listen(5001, () => {
   console.log("Server Started");
 });
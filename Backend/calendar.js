@@ -0,0 +1,227 @@
+// iCalendar (RFC 5545) feed of a user's events, and the .ics files the app
+// downloads. Every DTSTART carries the TZID of the event and the feed
+// describes each zone in a VTIMEZONE.
+
+const PRODUCT_ID = "-//Playmate//Events//EN";
+
+function pad(value, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+const formatters = new Map();
+
+// Whether Intl knows `timeZone`, it throws on names it doesn't
+function isTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Offset of `timeZone` from UTC at `instant`, in minutes
+function offsetAt(instant, timeZone) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(instant));
+  const value = (type) => Number(parts.find((part) => part.type === type).value);
+  const wallClock = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+function formatOffset(minutes) {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return sign + pad(Math.floor(abs / 60)) + pad(abs % 60);
+}
+
+// "yyyymmddThhmmss" of a wall clock time kept in the UTC fields of a Date
+function formatLocal(wallClock) {
+  return (
+    pad(wallClock.getUTCFullYear(), 4) + pad(wallClock.getUTCMonth() + 1) + pad(wallClock.getUTCDate()) +
+    "T" + pad(wallClock.getUTCHours()) + pad(wallClock.getUTCMinutes()) + pad(wallClock.getUTCSeconds())
+  );
+}
+
+// "dd/mm/yyyy" and "HH:MM" as a wall clock time
+function wallClockOf(date, time) {
+  const [day, month, year] = date.split("/").map(Number);
+  const [hour, minute] = (time || "").split(":").map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour || 0, minute || 0));
+}
+
+function toInstant(wallClock, timeZone) {
+  const guess = wallClock.getTime() - offsetAt(wallClock.getTime(), timeZone) * 60000;
+  return wallClock.getTime() - offsetAt(guess, timeZone) * 60000;
+}
+
+// The moments `timeZone` changed its offset during `year`
+function transitions(timeZone, year) {
+  const found = [];
+  const day = 24 * 60 * 60 * 1000;
+  let time = Date.UTC(year, 0, 1);
+  let offset = offsetAt(time, timeZone);
+
+  while (time < Date.UTC(year + 1, 0, 1)) {
+    const next = offsetAt(time + day, timeZone);
+    if (next !== offset) {
+      let low = time;
+      let high = time + day;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (offsetAt(middle, timeZone) === offset) low = middle;
+        else high = middle;
+      }
+      found.push({ at: high, from: offset, to: next });
+      offset = next;
+    }
+    time += day;
+  }
+  return found;
+}
+
+function vtimezone(timeZone, years) {
+  const lines = ["BEGIN:VTIMEZONE", "TZID:" + timeZone];
+  const changes = years.flatMap((year) => transitions(timeZone, year));
+
+  if (changes.length === 0) {
+    const offset = formatOffset(offsetAt(Date.UTC(years[0], 0, 1), timeZone));
+    lines.push("BEGIN:STANDARD", "DTSTART:19700101T000000", "TZOFFSETFROM:" + offset, "TZOFFSETTO:" + offset, "END:STANDARD");
+  }
+  for (let change of changes) {
+    const kind = change.to > change.from ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      "BEGIN:" + kind,
+      "DTSTART:" + formatLocal(new Date(change.at + change.from * 60000)),
+      "TZOFFSETFROM:" + formatOffset(change.from),
+      "TZOFFSETTO:" + formatOffset(change.to),
+      "END:" + kind
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function escapeText(text) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets
+function fold(line) {
+  const bytes = Buffer.from(line);
+  if (bytes.length <= 75) return line;
+
+  const chunks = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    chunks.push(bytes.slice(start, end).toString());
+    start = end;
+  }
+  return chunks.join("\r\n ");
+}
+
+// UNTIL has to be in UTC when DTSTART has a TZID
+function rruleLine(rrule, timeZone) {
+  rrule = rrule.replace(/^RRULE:/, "");
+  const until = /UNTIL=(\d{4})(\d{2})(\d{2})/.exec(rrule);
+  if (!until) return "RRULE:" + rrule;
+
+  const lastDay = wallClockOf(`${until[3]}/${until[2]}/${until[1]}`, "23:59");
+  const instant = new Date(toInstant(lastDay, timeZone) + 59000);
+  return "RRULE:" + rrule.replace(/UNTIL=[^;]*/, "UNTIL=" + formatLocal(instant) + "Z");
+}
+
+function vevent(event, timeZone, stamp) {
+  const start = wallClockOf(event.date, event.startTime);
+  let end = wallClockOf(event.date, event.endTime);
+  // Events ending before they start run past midnight
+  if (end <= start) end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    "UID:" + event._id + "@playmate",
+    "DTSTAMP:" + stamp,
+    `DTSTART;TZID=${timeZone}:${formatLocal(start)}`,
+    `DTEND;TZID=${timeZone}:${formatLocal(end)}`,
+    "SUMMARY:" + escapeText(event.name || ""),
+  ];
+  if (event.location) lines.push("LOCATION:" + escapeText(event.location));
+  if (event.description) lines.push("DESCRIPTION:" + escapeText(event.description));
+
+  const rrule = event.rrule || (event.repeat == "true" ? "FREQ=WEEKLY" : null);
+  if (rrule) {
+    lines.push(rruleLine(rrule, timeZone));
+    for (let exdate of event.exdates || []) {
+      lines.push(`EXDATE;TZID=${timeZone}:${formatLocal(wallClockOf(exdate, event.startTime))}`);
+    }
+  }
+  if (event.cancelled) lines.push("STATUS:CANCELLED");
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+// Start and end of an event as instants, kept on the event next to its wall
+// clock times so events in different zones compare. Events ending before they
+// start run past midnight, events without a proper date have neither.
+function eventInstants(event, fallbackTimeZone = "UTC") {
+  if (!/^\d{2}\/\d{2}\/\d{4}$/.test(event.date || "")) return { startsAt: undefined, endsAt: undefined };
+  const timeZone = event.timeZone || fallbackTimeZone;
+  const start = wallClockOf(event.date, event.startTime);
+  let end = wallClockOf(event.date, event.endTime || event.startTime);
+  if (end < start) end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+  return { startsAt: new Date(toInstant(start, timeZone)), endsAt: new Date(toInstant(end, timeZone)) };
+}
+
+// Events without a time zone are taken to be in `fallbackTimeZone`
+function buildCalendar(events, fallbackTimeZone, name) {
+  const now = new Date();
+  const stamp = formatLocal(now) + "Z";
+  if (!isTimeZone(fallbackTimeZone)) fallbackTimeZone = "UTC";
+  const zoneOf = (event) => (event.timeZone && isTimeZone(event.timeZone) ? event.timeZone : fallbackTimeZone);
+  // Events without a proper date can't be placed in a calendar
+  events = events.filter((event) => /^\d{2}\/\d{2}\/\d{4}$/.test(event.date || ""));
+
+  const yearsByZone = new Map();
+  for (let event of events) {
+    const year = Number(event.date.split("/")[2]);
+    const years = yearsByZone.get(zoneOf(event)) || new Set();
+    const last = Math.max(year, now.getFullYear()) + 2;
+    for (let y = year - 1; y <= last; y++) years.add(y);
+    yearsByZone.set(zoneOf(event), years);
+  }
+
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:" + PRODUCT_ID, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+  if (name) lines.push("X-WR-CALNAME:" + escapeText(name));
+  yearsByZone.forEach((years, timeZone) => {
+    lines.push(...vtimezone(timeZone, [...years].sort((a, b) => a - b)));
+  });
+  for (let event of events) {
+    lines.push(...vevent(event, zoneOf(event), stamp));
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+module.exports = { buildCalendar, eventInstants, isTimeZone };
@@ -9,14 +9,52 @@ const EventsScehma = new mongoose.Schema(
     sportsType: {type: Schema.Types.ObjectId, ref: 'SportsTypes'},
     team: {type: Schema.Types.ObjectId, ref: 'TeamInfo'},
     opponent: {type: Schema.Types.ObjectId, ref: 'TeamInfo'},
+    // Answer of the opponent's admins to the challenge, "Pending", "Accepted"
+    // or "Declined". Missing on events from before it was asked.
+    opponentStatus: String,
+    opponentAnsweredBy: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
     members: [{type: Schema.Types.ObjectId, ref: 'UserInfo'}],
+    eventType: String,
+    numPlayers: String,
+    organiser: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
     location: String,
+    // Set when the location was picked from the google suggestions
+    coordinates: {lat: Number, lng: Number},
     date: String,
     startTime: String,
     endTime: String,
+    // IANA zone of `date` and the times, e.g. "Europe/London"
+    timeZone: String,
+    // The start and end of `date` in that zone, missing on older events
+    startsAt: Date,
+    endsAt: Date,
     repeat: String,
+    // RFC 5545 RRULE of a recurring event, `date` is the first occurrence
+    rrule: String,
+    // Occurrences skipped or taken out of the series, "dd/mm/yyyy"
+    exdates: [String],
+    // An occurrence edited on its own, and the series it came from
+    recurrenceOf: {type: Schema.Types.ObjectId, ref: 'EventDetails'},
+    occurrenceDate: String,
     results: String,
-    cost: String
+    // Score of a team event, `home` is `team`. It is final once an admin of
+    // the opponent confirmed it, `results` then reads "home - away".
+    result: {
+      home: Number,
+      away: Number,
+      // "Pending", "Confirmed" or "Disputed"
+      status: String,
+      submittedBy: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
+      submittedAt: Date,
+      answeredBy: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
+      answeredAt: Date,
+      // Tell the team once it is final
+      share: Boolean,
+    },
+    // Team members told about the final result who haven't dismissed it yet
+    resultNoticeTo: [{type: Schema.Types.ObjectId, ref: 'UserInfo'}],
+    cost: String,
+    cancelled: {type: Boolean, default: false}
   },
   {
     collection: "EventDetails",
@@ -0,0 +1,28 @@
+const mongoose = require("mongoose");
+var Schema = mongoose.Schema;
+
+const TeamLineupsScehma = new mongoose.Schema(
+  {
+    team: {type: Schema.Types.ObjectId, ref: 'TeamInfo'},
+    // Set on the lineup of one match, the team's own lineup has none
+    event: {type: Schema.Types.ObjectId, ref: 'EventDetails'},
+    // Key of the formation the slots are numbered in
+    formation: String,
+    // The player in each filled slot of the formation
+    slots: [{slot: Number, user: {type: Schema.Types.ObjectId, ref: 'UserInfo'}}],
+    bench: [{type: Schema.Types.ObjectId, ref: 'UserInfo'}],
+    // Planned changes during a match, only set on the lineup of one
+    substitutions: [{
+      minute: Number,
+      off: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
+      on: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
+    }],
+    updatedBy: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
+  },
+  {
+    collection: "TeamLineups",
+    timestamps: true,
+  }
+);
+
+mongoose.model("TeamLineups", TeamLineupsScehma);
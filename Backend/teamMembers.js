@@ -8,10 +8,17 @@ const TeamMembersScehma = new mongoose.Schema(
     position: String,
     description: String,
     role: String,
+    shirtNumber: Number,
   },
   {
     collection: "TeamMembers",
   }
 );
 
+// No two members of a team wear the same number
+TeamMembersScehma.index(
+  { team: 1, shirtNumber: 1 },
+  { unique: true, partialFilterExpression: { shirtNumber: { $type: "number" } } }
+);
+
 mongoose.model("TeamMembers", TeamMembersScehma);
@@ -11,6 +11,10 @@ const UserDetailsScehma = new mongoose.Schema(
     description: String,
     profilePic: String,
     profileBanner: String,
+    // Secret in the url of the calendar feed, and the zone the feed uses for
+    // events without one
+    calendarToken: String,
+    calendarTimeZone: String,
   },
   { timestamps: true },
   {
@@ -6,6 +6,19 @@ const UserEventsScehma = new mongoose.Schema(
     user: {type: Schema.Types.ObjectId, ref: 'UserInfo'},
     event: {type: Schema.Types.ObjectId, ref: 'EventDetails'},
     status: String,
+    // When the user joined the waitlist of a full event, the earliest is
+    // promoted first
+    waitlistedAt: Date,
+    // When a user who wasn't invited asked to join, status "Requested"
+    requestedAt: Date,
+    // Set when the event was cancelled or moved after the invite went out, or
+    // for the organiser once the opponent answered the challenge. Cleared
+    // once the user dismissed it.
+    notice: String,
+    // The occurrence of a recurring event the notice is about
+    occurrence: String,
+    changes: [{field: String, previous: String}],
+    noticeAt: Date,
   },
   {
     collection: "UserEvents",
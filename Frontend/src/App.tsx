@@ -2,11 +2,14 @@ import React, { useEffect } from "react";
 import { createBrowserRouter, RouterProvider } from "react-router-dom";
 
 import { Layout } from "./layout/Layout";
+import { AuthProvider, RequireAuth } from "auth";
 
 import { Dashboard } from "pages/Dashboard/Dashboard";
 import { Events } from "pages/Events/Events";
+import { EventDetail } from "pages/Events/EventDetail";
 import { MyTeam } from "pages/MyTeam/MyTeam";
 import { TeamIndex } from "pages/MyTeam/TeamIndex";
+import { TeamSheet } from "pages/MyTeam/TeamSheet";
 import { MyNetwork } from "pages/MyNetwork/MyNetwork";
 import { NetworkIndex } from "pages/MyNetwork/NetworkIndex";
 import { MyPlaymate } from "pages/MyPlaymate/MyPlaymate";
@@ -28,44 +31,63 @@ const router = createBrowserRouter([
     Component: Layout,
     children: [
       {
-        path: "/",
-        Component: Dashboard
-      },
-      {
-        path: "/dashboard",
-        Component: Dashboard
-      },
-      {
-        path: "/playmate/index",
-        Component: MyPlaymate
-      },
-      {
-        path: "/team",
-        Component: MyTeam
-      },
-      {
-        path: "/team/index",
-        Component: TeamIndex
-      },
-      {
-        path: "/events",
-        Component: Events
-      },
-      {
-        path: "/network",
-        Component: MyNetwork
-      },
-      {
-        path: "/network/index",
-        Component: NetworkIndex
+        Component: RequireAuth,
+        children: [
+          {
+            path: "/",
+            Component: Dashboard
+          },
+          {
+            path: "/dashboard",
+            Component: Dashboard
+          },
+          {
+            path: "/playmate/index",
+            Component: MyPlaymate
+          },
+          {
+            path: "/team",
+            Component: MyTeam
+          },
+          {
+            path: "/team/index",
+            Component: TeamIndex
+          },
+          {
+            path: "/events",
+            Component: Events
+          },
+          {
+            path: "/events/:eventId",
+            Component: EventDetail
+          },
+          {
+            path: "/network",
+            Component: MyNetwork
+          },
+          {
+            path: "/network/index",
+            Component: NetworkIndex
+          },
+          {
+            path: "/settings",
+            Component: Settings
+          }
+        ]
       },
       {
         path: "/login",
         Component: LoginRegister
-      },
+      }
+    ]
+  },
+  {
+    // Printed, so it is shown without the app's layout
+    Component: RequireAuth,
+    children: [
       {
-        path: "/settings",
-        Component: Settings
+        path: "/team/sheet",
+        Component: TeamSheet
       }
     ]
   }
@@ -97,7 +119,9 @@ export function App() {
 
   return (
     <React.Fragment>
-      <RouterProvider router={router} />
+      <AuthProvider>
+        <RouterProvider router={router} />
+      </AuthProvider>
     </React.Fragment>
   );
 }
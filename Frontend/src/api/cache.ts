@@ -0,0 +1,195 @@
+import { useEffect, useReducer } from "react";
+
+// Query keys are arrays like ["teams", teamId]. Invalidating a prefix such as
+// ["teams"] marks every query below it as stale.
+export type QueryKey = readonly unknown[];
+
+interface Entry<T> {
+  key: QueryKey;
+  data?: T;
+  error?: unknown;
+  // 0 until the first response and after an invalidation
+  updatedAt: number;
+  staleTime: number;
+  // The request in flight, shared by everyone asking for the same key
+  promise?: Promise<T>;
+  fetcher: () => Promise<T>;
+  // Mounted useQuery() hooks, re-rendered whenever the entry changes
+  listeners: Set<() => void>;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+const entries = new Map<string, Entry<unknown>>();
+
+function hashKey(key: QueryKey) {
+  return JSON.stringify(key);
+}
+
+// A key is only ever fetched by the one query it belongs to, so its entry
+// holds the data of that query
+function entryOf<T>(hash: string) {
+  return entries.get(hash) as Entry<T> | undefined;
+}
+
+function startsWith(key: QueryKey, prefix: QueryKey) {
+  return prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+}
+
+function isStale(entry: Entry<unknown>) {
+  return Date.now() - entry.updatedAt > entry.staleTime;
+}
+
+function notify(entry: Entry<unknown>) {
+  entry.listeners.forEach((listener) => listener());
+}
+
+function getEntry<T>(key: QueryKey, fetcher: () => Promise<T>, staleTime: number) {
+  const hash = hashKey(key);
+  let entry = entryOf<T>(hash);
+  if (!entry) {
+    entry = { key, updatedAt: 0, staleTime, fetcher, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  // Keep the latest closure, it may capture newer arguments than the first one
+  entry.fetcher = fetcher;
+  entry.staleTime = staleTime;
+  return entry;
+}
+
+function revalidate<T>(entry: Entry<T>) {
+  if (entry.promise) return entry.promise;
+
+  const promise = entry.fetcher()
+    .then((data) => {
+      entry.data = data;
+      entry.error = undefined;
+      entry.updatedAt = Date.now();
+      return data;
+    })
+    .catch((error) => {
+      entry.error = error;
+      throw error;
+    })
+    .finally(() => {
+      entry.promise = undefined;
+      notify(entry);
+    });
+
+  entry.promise = promise;
+  return promise;
+}
+
+// Resolves to the cached data while it is fresh, otherwise fetches it. Callers
+// asking for a key that is already being fetched share the same request.
+export function fetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>, staleTime = DEFAULT_STALE_TIME) {
+  const entry = getEntry(key, fetcher, staleTime);
+  if (entry.promise) return entry.promise;
+  if (entry.updatedAt !== 0 && !isStale(entry)) {
+    return Promise.resolve(entry.data as T);
+  }
+  return revalidate(entry);
+}
+
+// Marks every query under `prefix` as stale. Queries that are on screen are
+// fetched again right away, the others on their next use.
+export function invalidateQueries(prefix: QueryKey) {
+  entries.forEach((entry) => {
+    if (!startsWith(entry.key, prefix)) return;
+
+    entry.updatedAt = 0;
+    if (entry.listeners.size > 0) {
+      revalidate(entry).catch(() => {});
+    }
+  });
+}
+
+// Forgets everything, used when the session ends so the next user starts clean
+export function clearQueries() {
+  entries.clear();
+}
+
+function revalidateStaleQueries() {
+  entries.forEach((entry) => {
+    if (entry.listeners.size > 0 && isStale(entry)) {
+      revalidate(entry).catch(() => {});
+    }
+  });
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("focus", revalidateStaleQueries);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") revalidateStaleQueries();
+  });
+}
+
+// An api function whose results go through the cache. `fetch` skips it.
+export interface CachedQuery<A extends unknown[], T> {
+  (...args: A): Promise<T>;
+  key: (...args: A) => QueryKey;
+  fetch: (...args: A) => Promise<T>;
+  staleTime: number;
+}
+
+export function cachedQuery<A extends unknown[], T>(
+  key: (...args: A) => QueryKey,
+  fetch: (...args: A) => Promise<T>,
+  staleTime = DEFAULT_STALE_TIME
+): CachedQuery<A, T> {
+  const query = (...args: A) => fetchQuery(key(...args), () => fetch(...args), staleTime);
+  return Object.assign(query, { key, fetch, staleTime });
+}
+
+// Wraps a mutation so the queries under `prefixes` are invalidated once it
+// went through.
+export function invalidating<A extends unknown[], T>(
+  prefixes: QueryKey[],
+  mutate: (...args: A) => Promise<T>
+) {
+  return async (...args: A) => {
+    const result = await mutate(...args);
+    prefixes.forEach(invalidateQueries);
+    return result;
+  };
+}
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  // True while there is no data yet and a request is in flight
+  loading: boolean;
+}
+
+// Subscribes a component to a cached query. Pass `null` as the arguments to
+// hold off until they are known, e.g. while waiting for another request.
+export function useQuery<A extends unknown[], T>(
+  query: CachedQuery<A, T>,
+  ...[args]: A extends [] ? [args?: A | null] : [args: A | null]
+): QueryState<T> {
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+
+  const enabled = args !== null;
+  const queryArgs = (args ?? []) as A;
+  const key = enabled ? query.key(...queryArgs) : null;
+  const hash = key ? hashKey(key) : null;
+
+  useEffect(() => {
+    if (!key) return;
+
+    const entry = getEntry(key, () => query.fetch(...queryArgs), query.staleTime);
+    entry.listeners.add(rerender);
+    fetchQuery(key, entry.fetcher, query.staleTime).catch(() => {});
+
+    return () => {
+      entry.listeners.delete(rerender);
+    };
+  }, [hash]);
+
+  const entry = hash ? entryOf<T>(hash) : undefined;
+  return {
+    data: entry?.data,
+    error: entry?.error,
+    loading: enabled && entry?.data === undefined && entry?.error === undefined
+  };
+}
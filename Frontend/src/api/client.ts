@@ -0,0 +1,110 @@
+import { clearQueries } from "./cache";
+
+// Base URL of the Playmate backend. Set VITE_API_URL in .env to point the app
+// at another server (staging, a local stand-in, ...).
+export const API_URL: string =
+  import.meta.env.VITE_API_URL || "http://127.0.0.1:5001";
+
+// Message the backend sends back in `data` when the jwt in the body is invalid
+const TOKEN_EXPIRED = "token expired";
+
+export class ApiError extends Error {
+  authFailure: boolean;
+
+  constructor(message: string, authFailure = false) {
+    super(message);
+    this.name = "ApiError";
+    this.authFailure = authFailure;
+  }
+}
+
+export function getToken() {
+  return window.localStorage.getItem("token");
+}
+
+export function setToken(token: string) {
+  window.localStorage.setItem("token", token);
+  window.localStorage.setItem("loggedIn", "true");
+}
+
+// Preferences kept in localStorage, like the hour cycle, outlive the session
+export function clearSession() {
+  window.localStorage.removeItem("token");
+  window.localStorage.removeItem("loggedIn");
+  clearQueries();
+}
+
+function redirectToLogin() {
+  clearSession();
+  if (window.location.pathname !== "/login") {
+    window.location.href = "/login";
+  }
+}
+
+let authFailureHandler: () => void = redirectToLogin;
+
+// Replaces what happens when any request comes back with an expired token.
+// By default the session is cleared and the user is sent to the login page,
+// passing null restores that.
+export function setAuthFailureHandler(handler: (() => void) | null) {
+  authFailureHandler = handler ?? redirectToLogin;
+}
+
+type RequestOptions = {
+  method?: "GET" | "POST";
+  body?: Record<string, unknown> | FormData;
+  // Whether the stored token is sent along with the body (default true)
+  auth?: boolean;
+};
+
+// Sends a request and returns the raw parsed json, without unwrapping the
+// `{ status, data }` envelope. Token expiry is handled here for every route.
+export async function send(path: string, options: RequestOptions = {}) {
+  const { method = "POST", body, auth = true } = options;
+
+  let init: RequestInit = { method };
+  if (body instanceof FormData) {
+    if (auth) body.append("token", getToken() || "");
+    init.body = body;
+  } else if (method !== "GET") {
+    init.headers = {
+      "Content-Type": "application/json",
+      Accept: "application/json"
+    };
+    init.body = JSON.stringify(auth ? { ...body, token: getToken() } : body);
+  }
+
+  const res = await fetch(API_URL + path, init);
+  const json = await res.json();
+
+  if (json && json.data === TOKEN_EXPIRED) {
+    authFailureHandler();
+    throw new ApiError(TOKEN_EXPIRED, true);
+  }
+
+  return json;
+}
+
+function errorMessage(json: unknown) {
+  if (typeof json !== "object" || json === null) return "Something went wrong";
+  const { error, data, status } = json as Record<string, unknown>;
+  for (let candidate of [error, data, status]) {
+    if (typeof candidate === "string" && candidate !== "") return candidate;
+  }
+  return "Something went wrong";
+}
+
+// Sends a request and unwraps the `{ status: "ok", data }` envelope used by
+// most routes, rejecting with an ApiError for anything else.
+export async function request<T>(
+  path: string,
+  options: RequestOptions = {}
+): Promise<T> {
+  const json = await send(path, options);
+
+  if (json?.status !== "ok") {
+    throw new ApiError(errorMessage(json));
+  }
+
+  return json.data as T;
+}
@@ -0,0 +1,259 @@
+import { API_URL, request, send, ApiError } from "./client";
+import { cachedQuery, invalidating } from "./cache";
+import type {
+  AnswerFixtureRequest,
+  AnswerJoinRequest,
+  AnswerResultRequest,
+  BusyEvent,
+  BusyEventsRequest,
+  CalendarFeedRequest,
+  CalendarFileRequest,
+  CancelEventRequest,
+  ChangePasswordRequest,
+  CreatedTeamMembership,
+  CreateEventRequest,
+  CreateTeamRequest,
+  CurrentUser,
+  EventDetails,
+  EventNotice,
+  EventSummary,
+  ExploreEventsPage,
+  ExploreEventsRequest,
+  Fixture,
+  FriendRequest,
+  FriendRequestStatus,
+  LineupDetails,
+  ListEventsRequest,
+  OpponentTeam,
+  PendingResult,
+  RegisterRequest,
+  SaveLineupRequest,
+  SearchTeamsRequest,
+  SportInfo,
+  SubmitResultRequest,
+  TeamDetails,
+  TeamMemberInfo,
+  TeamSummary,
+  UpdateEventRequest,
+  UpdateProfileRequest,
+  UpdateTeamMemberRequest,
+  UpdateTeamRequest,
+  UserProfile
+} from "./types";
+import type { Id, User } from "types/domain";
+
+export * from "./client";
+export { invalidateQueries, useQuery } from "./cache";
+export type { CachedQuery, QueryKey, QueryState } from "./cache";
+export type * from "./types";
+
+const auth = {
+  // Both resolve to the jwt to store with setToken()
+  login: (email: string, password: string) =>
+    request<string>("/login-user", { body: { email, password }, auth: false }),
+  register: (body: RegisterRequest) =>
+    request<string>("/register", { body: { ...body }, auth: false })
+};
+
+// Profiles, sports and the like rarely change while the app is open
+const SLOW_STALE_TIME = 5 * 60 * 1000;
+
+const users = {
+  // Not cached, the AuthProvider holds the current user
+  me: () => request<CurrentUser>("/getUserData"),
+  get: cachedQuery(
+    (id: string) => ["users", id],
+    (id: string) => request<UserProfile>(`/getUserData/${id}`)
+  ),
+  updateProfile: invalidating([["users"], ["friends"]], (body: UpdateProfileRequest) =>
+    request<string>("/updateProfile", { body: { ...body } })
+  ),
+  changePassword: (body: ChangePasswordRequest) =>
+    request<string>("/changePassword", { body: { ...body } })
+};
+
+// Friend counts are part of the user profiles
+const friendMutation = (path: string) =>
+  invalidating([["friends"], ["users"]], (friendId: string) =>
+    request<string>(path, { body: { friendId } })
+  );
+
+const friends = {
+  list: cachedQuery(() => ["friends"], () => request<User[]>("/getFriends")),
+  requests: cachedQuery(
+    () => ["friends", "requests"],
+    () => request<FriendRequest[]>("/getFriendRequests")
+  ),
+  status: cachedQuery(
+    (friendId: string) => ["friends", "status", friendId],
+    (friendId: string) => request<FriendRequestStatus>("/getFriendStatus", { body: { friendId } })
+  ),
+  send: friendMutation("/sendFriendRequest"),
+  accept: friendMutation("/acceptFriendRequest"),
+  reject: friendMutation("/rejectFriendRequest"),
+  remove: friendMutation("/removeFriend")
+};
+
+const sports = {
+  list: cachedQuery(
+    () => ["sports"],
+    () => request<SportInfo[]>("/getSports", { method: "GET" }),
+    SLOW_STALE_TIME
+  ),
+  get: cachedQuery(
+    (id: string) => ["sports", id],
+    (id: string) => request<SportInfo>(`/getSports/${id}`, { method: "GET" }),
+    SLOW_STALE_TIME
+  )
+};
+
+const teams = {
+  // Teams the logged in user is a member of
+  list: cachedQuery(() => ["teams", "mine"], () => request<TeamSummary[]>("/getTeams")),
+  // Every other team
+  explore: cachedQuery(() => ["teams", "explore"], () => request<TeamSummary[]>("/getAllTeams")),
+  get: cachedQuery(
+    (id: string) => ["teams", id],
+    (id: string) => request<TeamDetails>(`/getTeamData/${id}`)
+  ),
+  // Teams to challenge to a match
+  search: cachedQuery(
+    (body: SearchTeamsRequest) => ["teams", "search", body],
+    (body: SearchTeamsRequest) => request<OpponentTeam[]>("/searchTeams", { body: { ...body } })
+  ),
+  members: cachedQuery(
+    (teamId: string) => ["teams", teamId, "members"],
+    (teamId: string) => request<TeamMemberInfo[]>("/getTeamMembers", { body: { teamId } })
+  ),
+  create: invalidating([["teams"]], (body: CreateTeamRequest) =>
+    request<CreatedTeamMembership>("/createTeam", { body: { ...body } })
+  ),
+  update: invalidating([["teams"]], (body: UpdateTeamRequest) =>
+    request<string>("/updateTeam", { body: { ...body } })
+  ),
+  join: invalidating([["teams"]], (teamId: string, inviteCode: string) =>
+    request<string>(`/joinTeam/${teamId}/${inviteCode}`)
+  ),
+  updateMember: invalidating([["teams"]], (body: UpdateTeamMemberRequest) =>
+    request<string>("/updateTeamMember", { body: { ...body } })
+  ),
+  // Takes them out of the team's lineup too
+  removeMember: invalidating([["teams"], ["lineups"]], (teamId: string, userId: string) =>
+    request<string>("/removeTeamMember", { body: { teamId, userId } })
+  )
+};
+
+const events = {
+  list: cachedQuery(
+    (body: ListEventsRequest) => ["events", body],
+    (body: ListEventsRequest) => request<EventSummary[]>("/getEvents", { body: { ...body } })
+  ),
+  explore: cachedQuery(
+    (body: ExploreEventsRequest) => ["events", "explore", body],
+    (body: ExploreEventsRequest) => request<ExploreEventsPage>("/exploreEvents", { body: { ...body } })
+  ),
+  get: cachedQuery(
+    (id: string) => ["events", id],
+    (id: string) => request<EventDetails>(`/getEventData/${id}`)
+  ),
+  // Resolves to the id of the new event
+  create: invalidating([["events"], ["lineups"]], (body: CreateEventRequest) =>
+    request<Id>("/createEvent", { body: { ...body } })
+  ),
+  accept: invalidating([["events"]], (eventId: string) =>
+    request<"Event Accepted" | "Event Waitlisted">("/acceptEventInvite", { body: { eventId } })
+  ),
+  // Also withdraws a request to join
+  reject: invalidating([["events"]], (eventId: string) =>
+    request<string>("/rejectEventInvite", { body: { eventId } })
+  ),
+  requestToJoin: invalidating([["events"]], (eventId: string) =>
+    request<string>("/requestToJoinEvent", { body: { eventId } })
+  ),
+  // Organiser only
+  answerJoinRequest: invalidating([["events"]], (body: AnswerJoinRequest) =>
+    request<string>("/answerJoinRequest", { body: { ...body } })
+  ),
+  notices: cachedQuery(
+    () => ["events", "notices"],
+    () => request<EventNotice[]>("/getEventNotices")
+  ),
+  dismissNotice: invalidating([["events", "notices"]], (eventId: string) =>
+    request<string>("/dismissEventNotice", { body: { eventId } })
+  ),
+  // Matches of a team, kept with the events so answering a challenge refreshes them
+  fixtures: cachedQuery(
+    (teamId: string) => ["events", "fixtures", teamId],
+    (teamId: string) => request<Fixture[]>("/getTeamFixtures", { body: { teamId } })
+  ),
+  fixtureRequests: cachedQuery(
+    () => ["events", "fixtureRequests"],
+    () => request<Fixture[]>("/getFixtureRequests")
+  ),
+  // Admins of the challenged team only
+  answerFixture: invalidating([["events"]], (body: AnswerFixtureRequest) =>
+    request<"Fixture Accepted" | "Fixture Declined">("/answerFixtureRequest", { body: { ...body } })
+  ),
+  pendingResults: cachedQuery(
+    () => ["events", "results"],
+    () => request<PendingResult[]>("/getPendingResults")
+  ),
+  // The result is final straight away when the opponent isn't on Playmate
+  submitResult: invalidating([["events"]], (body: SubmitResultRequest) =>
+    request<"Result Pending" | "Result Confirmed">("/submitEventResult", { body: { ...body } })
+  ),
+  // Admins of the opponent only
+  answerResult: invalidating([["events"]], (body: AnswerResultRequest) =>
+    request<"Result Confirmed" | "Result Disputed">("/answerEventResult", { body: { ...body } })
+  ),
+  // Organiser only. Resolves to the id of the event holding the changes, a new
+  // one when occurrences were taken out of a series.
+  update: invalidating([["events"]], (body: UpdateEventRequest) =>
+    request<Id>("/updateEvent", { body: { ...body } })
+  ),
+  cancel: invalidating([["events"]], (body: CancelEventRequest) =>
+    request<string>("/cancelEvent", { body: { ...body } })
+  ),
+  // Not cached, clashes are looked for right before saving or accepting
+  busy: (body: BusyEventsRequest) =>
+    request<BusyEvent[]>("/getBusyEvents", { body: { ...body } }),
+  // Resolves to the secret token of the user's calendar feed, a new one when
+  // `reset` is set. `timeZone` is used for events that don't have one.
+  calendarFeed: (body: CalendarFeedRequest) =>
+    request<string>("/getCalendarFeed", { body: { ...body } }),
+  // Resolves to the text of a .ics file of the events, built the same way as
+  // the feed
+  calendarFile: (body: CalendarFileRequest) =>
+    request<string>("/getCalendarFile", { body: { ...body } }),
+  // Url calendar apps subscribe to
+  calendarFeedUrl: (calendarToken: string) => `${API_URL}/calendar/${calendarToken}.ics`
+};
+
+const lineups = {
+  // The team's own lineup without `eventId`. A match starts with the team's
+  // lineup, less the players who weren't invited.
+  get: cachedQuery(
+    (teamId: string, eventId?: string) => ["lineups", teamId, eventId ?? "team"],
+    (teamId: string, eventId?: string) => request<LineupDetails | null>("/getLineup", { body: { teamId, eventId } })
+  ),
+  save: invalidating([["lineups"]], (body: SaveLineupRequest) =>
+    request<LineupDetails>("/saveLineup", { body: { ...body } })
+  )
+};
+
+const uploads = {
+  // Resolves to the public url of the uploaded picture
+  picture: async (file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("fileName", file.name);
+
+    const json = await send("/picUpload", { body: formData });
+    if (typeof json?.data !== "string") {
+      throw new ApiError(json?.message || "File upload failed");
+    }
+    return json.data as string;
+  }
+};
+
+export const api = { auth, users, friends, sports, teams, events, lineups, uploads };
@@ -0,0 +1,331 @@
+// Request and response shapes of the backend routes, as sent by Backend/app.js.
+// They are built from the documents in types/domain so that they follow the
+// schemas.
+import type {
+  Event,
+  EventResult,
+  EventStatus,
+  EventType,
+  FixtureStatus,
+  FriendStatus,
+  Id,
+  Sport,
+  Team,
+  TeamLineup,
+  TeamMember,
+  TeamRole,
+  Timestamp,
+  User,
+  UserEvent,
+  WithId
+} from "types/domain";
+
+/* Users */
+
+// POST /getUserData, the full UserInfo document of the logged in user
+export type CurrentUser = User & { numFriends: number };
+
+// POST /getUserData/:id
+export type UserProfile = WithId<Omit<User, "email" | "updatedAt" | "calendarToken" | "calendarTimeZone">> & {
+  numFriends: number;
+  own: boolean;
+};
+
+export type RegisterRequest = Pick<User, "fname" | "lname" | "email" | "userType"> & {
+  password: string;
+};
+
+export type UpdateProfileRequest = Pick<User, "fname" | "lname" | "email" | "profilePic">;
+
+export interface ChangePasswordRequest {
+  oldPassword: string;
+  newPassword: string;
+}
+
+/* Friends */
+
+// POST /getFriendStatus
+export type FriendRequestStatus = FriendStatus | "No friend request found";
+
+// POST /getFriendRequests
+export type FriendRequest = WithId<Pick<User, "_id" | "fname" | "lname" | "profilePic">> & {
+  requestedAt: Timestamp;
+};
+
+/* Sports */
+
+// GET /getSports and /getSports/:id
+export type SportInfo = WithId<Sport>;
+
+/* Teams */
+
+type TeamFields = "_id" | "name" | "sportsType" | "gender" | "description" | "profilePic" | "profileBanner" | "createdAt";
+
+// POST /getTeams and /getAllTeams
+export type TeamSummary = WithId<Pick<Team, TeamFields>> & {
+  avatars: string[];
+  membersCount: number;
+};
+
+// POST /getTeamData/:id, inviteCode is only sent to team admins
+export type TeamDetails = WithId<Pick<Team, TeamFields>> & {
+  memberCount: number;
+  isAdmin: boolean;
+  inviteCode?: string;
+};
+
+// POST /getTeamMembers. `position` is the one in the team, the one on the
+// profile until it is set.
+export type TeamMemberInfo = WithId<Omit<User, "email" | "updatedAt">> & {
+  role: TeamRole;
+  shirtNumber: number | null;
+};
+
+// POST /updateTeamMember, fields left out are kept. Only team admins.
+export type UpdateTeamMemberRequest = Partial<Pick<TeamMemberInfo, "role" | "shirtNumber" | "position">> & {
+  teamId: Id;
+  userId: Id;
+};
+
+export type CreateTeamRequest = Pick<Team, "name" | "description" | "gender" | "profilePic" | "profileBanner"> & {
+  members: Id[];
+  sportsTypeId: Id;
+};
+
+export type UpdateTeamRequest = Partial<Pick<Team, "name" | "gender" | "description" | "profilePic" | "profileBanner">> & {
+  teamId: Id;
+  sportsTypeId?: Id;
+  ageGroup?: string;
+};
+
+/* Events */
+
+// POST /getEvents. `sport` and `teamName` are names, `opponentName` is still
+// the id of the opposing team. `opponent` is only set once it accepted the
+// challenge. `status` is the invite of the user the events were listed for.
+export type EventSummary = WithId<Pick<Event, "_id" | "name" | "description" | "location" | "coordinates" | "date" | "startTime" | "endTime" | "timeZone" | "repeat" | "rrule" | "exdates" | "cost">> & {
+  sport: string;
+  eventType: EventType;
+  teamName: string;
+  opponentName?: Id;
+  team: EventTeam | null;
+  opponent: EventTeam | null;
+  // Score of a team match once one was recorded
+  result: EventScore | null;
+  status: EventStatus;
+} & EventAttendance;
+
+// Accepted members against the capacity (`numPlayers`), null when the event
+// has no limit. `waitlistPosition` starts at 1 and is null off the waitlist.
+export interface EventAttendance {
+  capacity: number | null;
+  participants: number;
+  waitlistPosition: number | null;
+}
+
+// A team taking part in an event
+export type EventTeam = WithId<Pick<Team, "_id" | "name" | "profilePic">>;
+
+export type EventScore = Pick<EventResult, "home" | "away" | "status">;
+
+// An invited user with their answer to the invite
+export type EventMember = WithId<Pick<User, "_id" | "fname" | "lname" | "profilePic">> & {
+  status: EventStatus;
+  waitlistPosition: number | null;
+};
+
+// POST /getEventData/:id. `status` is the invite of the logged in user, null
+// when they were not invited.
+export type EventDetails = WithId<Pick<Event, "_id" | "name" | "description" | "profilePic" | "location" | "coordinates" | "date" | "startTime" | "endTime" | "timeZone" | "repeat" | "rrule" | "exdates" | "results" | "cost" | "cancelled" | "organiser">> & {
+  sport: string;
+  sportsType: Id | null;
+  eventType: EventType;
+  numPlayers?: string;
+  team: EventTeam | null;
+  opponent: EventTeam | null;
+  // Null without an opponent
+  opponentStatus: FixtureStatus | null;
+  members: EventMember[];
+  result: EventScore | null;
+  // The viewer can record the score now, or confirm the one the other team recorded
+  canRecordResult: boolean;
+  canConfirmResult: boolean;
+  isOrganiser: boolean;
+  status: EventStatus | null;
+} & EventAttendance;
+
+// POST /exploreEvents. Dates are "dd/mm/yyyy", `sport` is a name and
+// `cursor` the `nextCursor` of the page before.
+export interface ExploreEventsRequest {
+  sport?: string;
+  from?: string;
+  to?: string;
+  payment?: EventPayment;
+  location?: string;
+  search?: string;
+  cursor?: string | null;
+}
+
+export type EventPayment = "Free" | "Not Free";
+
+// An event the user can ask to join, `status` is set once they did
+export type ExploreEvent = Omit<EventSummary, "status"> & {
+  status: Extract<EventStatus, "Requested"> | null;
+};
+
+// `nextCursor` is null on the last page
+export interface ExploreEventsPage {
+  events: ExploreEvent[];
+  nextCursor: string | null;
+}
+
+export interface AnswerJoinRequest {
+  eventId: Id;
+  userId: Id;
+  approve: boolean;
+}
+
+// POST /getBusyEvents, the logged in user is always asked about. Users who
+// aren't friends or teammates of theirs are left out.
+export interface BusyEventsRequest {
+  userIds: Id[];
+  // The event being edited, it doesn't clash with itself
+  excludeEventId?: Id;
+}
+
+// An upcoming event some of the users asked about are going to, `members`
+// are those users
+export type BusyEvent = WithId<Pick<Event, "_id" | "name" | "date" | "startTime" | "endTime" | "timeZone" | "repeat" | "rrule" | "exdates">> & {
+  members: WithId<Pick<User, "_id" | "fname" | "lname">>[];
+};
+
+export interface ListEventsRequest {
+  status: EventStatus | EventStatus[];
+  // Defaults to the logged in user
+  userId?: Id;
+}
+
+export type CreateEventRequest = Pick<Event, "name" | "description" | "location" | "coordinates" | "date" | "startTime" | "endTime" | "cost"> & {
+  teamId?: Id;
+  // Team challenged to the match, its admins are asked to accept
+  opponentId?: Id;
+  sportId: Id;
+  eventType?: EventType;
+  // Zone of the venue, the organiser's own unless they pick another
+  timeZone?: string;
+  rrule: string | null;
+  members: Id[];
+  numPlayers: string;
+};
+
+// Which part of a recurring event an edit or cancellation applies to
+export type EventEditScope = "all" | "this" | "future";
+
+// POST /updateEvent, organiser only. Replaces the fields given at creation.
+// Editing "this" or "future" occurrences takes them out of the series into a
+// new event, `seriesRule` is what is left of the series (see splitRule).
+export type UpdateEventRequest = CreateEventRequest & {
+  eventId: Id;
+  scope?: EventEditScope;
+  occurrenceDate?: string;
+  seriesRule?: string | null;
+};
+
+// POST /cancelEvent. An `occurrenceDate` only skips that day of the series.
+export interface CancelEventRequest {
+  eventId: Id;
+  occurrenceDate?: string;
+}
+
+export interface CalendarFeedRequest {
+  timeZone: string;
+  reset?: boolean;
+}
+
+// POST /getCalendarFile
+export interface CalendarFileRequest {
+  eventIds: Id[];
+  timeZone: string;
+}
+
+// POST /getEventNotices, the cancelled or moved events the logged in user was
+// invited to and hasn't dismissed yet
+export type EventNotice = WithId<Pick<Event, "_id" | "name" | "location" | "date" | "startTime" | "endTime">> &
+  Required<Pick<UserEvent, "notice" | "changes" | "noticeAt">> & {
+    // Set on "Result" notices
+    result?: EventScore;
+    // Set on "Fixture" notices
+    fixture?: { opponent: EventTeam; status: FixtureStatus };
+  };
+
+// POST /getPendingResults, team matches the logged in user is to record the
+// score of, or to confirm the score the other team recorded
+export type PendingResult = WithId<Pick<Event, "_id" | "name" | "date" | "startTime" | "endTime" | "timeZone">> & {
+  team: EventTeam;
+  opponent: EventTeam | null;
+  result: EventScore | null;
+  action: "submit" | "confirm";
+};
+
+// POST /submitEventResult, by the organiser or an admin of the home team
+export interface SubmitResultRequest {
+  eventId: Id;
+  home: number;
+  away: number;
+  // Tell the team once the result is final
+  share: boolean;
+}
+
+// POST /answerEventResult, by an admin of the opponent
+export interface AnswerResultRequest {
+  eventId: Id;
+  confirm: boolean;
+}
+
+/* Fixtures */
+
+// POST /searchTeams, teams to challenge to a match
+export interface SearchTeamsRequest {
+  search: string;
+  sportId?: Id;
+  // The team the match is for
+  excludeTeamId?: Id;
+}
+
+export type OpponentTeam = EventTeam & { membersCount: number };
+
+// POST /getTeamFixtures and /getFixtureRequests, a match between two teams.
+// The opponent comes with its answer, null when there is none.
+export type Fixture = WithId<Pick<Event, "_id" | "name" | "location" | "date" | "startTime" | "endTime" | "timeZone" | "repeat" | "rrule" | "exdates" | "cost">> & {
+  team: EventTeam;
+  opponent: EventTeam | null;
+  opponentStatus: FixtureStatus | null;
+  result: EventScore | null;
+  attendance: FixtureAttendance;
+};
+
+// Invites to a match, asking to join doesn't count as one
+export interface FixtureAttendance {
+  accepted: number;
+  invited: number;
+}
+
+// POST /answerFixtureRequest, by an admin of the challenged team
+export interface AnswerFixtureRequest {
+  eventId: Id;
+  accept: boolean;
+}
+
+// POST /getLineup, null until the lineup was first saved
+export type LineupDetails = Pick<TeamLineup, "formation" | "slots" | "bench" | "substitutions" | "updatedAt">;
+
+// POST /saveLineup, admins and captains, or the organiser of the match.
+// Without `eventId` it is the team's own lineup and `substitutions` are
+// dropped.
+export type SaveLineupRequest = Pick<TeamLineup, "formation" | "slots" | "bench" | "substitutions"> & {
+  teamId: Id;
+  eventId?: Id;
+};
+
+// POST /createTeam returns the TeamMembers document of the new admin
+export type CreatedTeamMembership = TeamMember;
@@ -0,0 +1,82 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { api, clearSession, getToken, setAuthFailureHandler, setToken } from "api";
+import type { CurrentUser } from "api";
+
+interface AuthContextValue {
+  user: CurrentUser | null;
+  // True until the stored token has been checked against /getUserData
+  loading: boolean;
+  // Set when the user logged out on purpose, the route guard then skips the
+  // return-to url
+  loggedOut: boolean;
+  // Stores the jwt from /login-user or /register and loads its user
+  login: (token: string) => Promise<CurrentUser>;
+  logout: () => void;
+  // Loads the user again, e.g. after the profile was updated
+  reload: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: React.PropsWithChildren) {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [loading, setLoading] = useState(() => getToken() !== null);
+  const [loggedOut, setLoggedOut] = useState(false);
+
+  const reload = useCallback(() => api.users.me().then((user) => setUser(user)), []);
+
+  useEffect(() => {
+    if (!getToken()) return;
+
+    reload()
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
+  }, [reload]);
+
+  useEffect(() => {
+    // Drop the user when any request comes back with an expired token, the
+    // route guard then sends them to the login page
+    setAuthFailureHandler(() => {
+      clearSession();
+      setUser(null);
+    });
+    return () => setAuthFailureHandler(null);
+  }, []);
+
+  const login = useCallback(async (token: string) => {
+    setToken(token);
+    const user = await api.users.me();
+    setUser(user);
+    setLoggedOut(false);
+    return user;
+  }, []);
+
+  const logout = useCallback(() => {
+    clearSession();
+    setLoggedOut(true);
+    setUser(null);
+  }, []);
+
+  const value = useMemo(
+    () => ({ user, loading, loggedOut, login, logout, reload }),
+    [user, loading, loggedOut, login, logout, reload]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error("useAuth() has to be used inside <AuthProvider>");
+  }
+  return auth;
+}
+
+export function useCurrentUser() {
+  return useAuth().user;
+}
+
+export function useIsAdmin() {
+  return useAuth().user?.userType == "Admin";
+}
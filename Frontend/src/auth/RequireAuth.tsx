@@ -0,0 +1,39 @@
+import React from "react";
+import { Navigate, Outlet, useLocation, useOutletContext } from "react-router-dom";
+import { SkeletonList } from "components/Skeleton";
+import { useAuth } from "./AuthProvider";
+
+const RETURN_TO_PARAM = "returnTo";
+
+export function loginPath(returnTo?: string) {
+  if (!returnTo || returnTo === "/") return "/login";
+  return `/login?${RETURN_TO_PARAM}=${encodeURIComponent(returnTo)}`;
+}
+
+// Where to go after logging in. Only paths inside the app are followed so the
+// login page can't be used to send people to another site.
+export function returnToPath(searchParams: URLSearchParams) {
+  const returnTo = searchParams.get(RETURN_TO_PARAM);
+  if (!returnTo || !returnTo.startsWith("/") || returnTo.startsWith("//")) {
+    return "/";
+  }
+  return returnTo;
+}
+
+// Route element for every page that needs a logged in user. Renders the child
+// route, or redirects to the login page with a link back to the current page.
+export function RequireAuth() {
+  const { user, loading, loggedOut } = useAuth();
+  const location = useLocation();
+  // Pages read setTitle/setActions from the Layout outlet, pass them through
+  const context = useOutletContext();
+
+  if (loading) return <SkeletonList count={4} />;
+
+  if (!user) {
+    const returnTo = loggedOut ? undefined : location.pathname + location.search;
+    return <Navigate to={loginPath(returnTo)} replace />;
+  }
+
+  return <Outlet context={context} />;
+}
@@ -0,0 +1,2 @@
+export { AuthProvider, useAuth, useCurrentUser, useIsAdmin } from "./AuthProvider";
+export { RequireAuth, loginPath, returnToPath } from "./RequireAuth";
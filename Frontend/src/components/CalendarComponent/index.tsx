@@ -1,5 +1,5 @@
 import cx from "classnames";
-import { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState, useRef } from "react";
 
 import {
   format,
@@ -12,9 +12,11 @@ import {
   isMonday,
   getDay,
   getDaysInMonth,
-  isSameMonth
+  isSameMonth,
+  isValid
 } from "date-fns";
 
+import { formatEventDate, parseEventDate } from "utils/datetime";
 import ArrowLeft from "../../pages/Dashboard/icons/month-arrow-left.svg";
 import ArrowRight from "../../pages/Dashboard/icons/month-arrow-right.svg";
 import "./styles.css"
@@ -111,34 +113,32 @@ function DayGrid(p: {
   );
 }
 
-const CalenderComponent = ({setSelectedDate, outSideClickFunc}: any) => {
-  const [monthMask, setMonthMask] = useState(setDate(new Date(), 1));
-  const [selected, setSelected] = useState(new Date());
+interface CalenderComponentProps {
+  // Called with the picked day as "dd/mm/yyyy"
+  setSelectedDate: (date: string) => void;
+  outSideClickFunc: (open: boolean) => void;
+  // The day picked before, "dd/mm/yyyy". Today is picked when opened without one.
+  value?: string;
+}
+
+const CalenderComponent = ({setSelectedDate, outSideClickFunc, value}: CalenderComponentProps) => {
+  const [selected, setSelected] = useState(() => {
+    const date = value ? parseEventDate(value) : null;
+    return date && isValid(date) ? date : new Date();
+  });
+  const [monthMask, setMonthMask] = useState(setDate(selected, 1));
 
   useEffect(() => {
-    const date = new Date(selected)
-    let strDate = "";
-    if (date.getDate() < 10) {
-      strDate += `0${date.getDate()}/`
-    } else {
-      strDate += `${date.getDate()}/`
-    }
-    if (date.getMonth() < 9) {
-      strDate += `0${date.getMonth() + 1}/`
-    } else {
-      strDate += `${date.getMonth() + 1}/`
-    }
-    strDate += `${date.getFullYear()}`
-    setSelectedDate(strDate);
+    setSelectedDate(formatEventDate(selected));
   }, [selected])
 
-  function useOutsideAlerter(ref) {
+  function useOutsideAlerter(ref: React.RefObject<HTMLDivElement>) {
     useEffect(() => {
       /**
        * Alert if clicked on outside of element
        */
-      function handleClickOutside(event) {
-        if (ref.current && !ref.current.contains(event.target)) {
+      function handleClickOutside(event: MouseEvent) {
+        if (ref.current && !ref.current.contains(event.target as Node)) {
             outSideClickFunc(false);
         }
       }
@@ -151,7 +151,7 @@ const CalenderComponent = ({setSelectedDate, outSideClickFunc}: any) => {
     }, [ref]);
   }
 
-  const wrapperRef = useRef(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
     useOutsideAlerter(wrapperRef);
 
   return (
@@ -0,0 +1,57 @@
+import cx from "classnames";
+import { Link } from "react-router-dom";
+import { useCurrentUser } from "auth";
+import { eventStart, formatDay, formatEventTimes, useHourCycle } from "utils/datetime";
+import { eventPath } from "utils/recurrence";
+import type { Conflict } from "utils/conflicts";
+
+// Series can clash every week, only the first few are listed
+const MAX_SHOWN = 5;
+
+interface ConflictListProps {
+  conflicts: Conflict[];
+  // Lists who is going to each clashing event, for events with several people
+  showMembers?: boolean;
+  // For lists in a form, following a link keeps what was typed
+  openInNewTab?: boolean;
+  className?: string;
+}
+
+// The events something clashes with, shown before it is saved or accepted
+export function ConflictList({ conflicts, showMembers = false, openInNewTab = false, className }: ConflictListProps) {
+  const user = useCurrentUser();
+  const [hourCycle] = useHourCycle();
+
+  const names = (conflict: Conflict) =>
+    conflict.event.members
+      .map((member) => (member.id === user?._id ? "You" : `${member.fname} ${member.lname}`))
+      .join(", ");
+
+  return (
+    <div className={cx("rounded-card border border-yellow/50 p-4", className)}>
+      <p className='font-medium text-yellow'>
+        {conflicts.length === 1 ? "This clashes with another event" : `This clashes with ${conflicts.length} events`}
+      </p>
+      <ul className='mt-2 flex flex-col gap-y-1.5 text-sm'>
+        {conflicts.slice(0, MAX_SHOWN).map((conflict) => (
+          <li key={conflict.event.id + conflict.event.date}>
+            <Link
+              to={eventPath(conflict.event)}
+              target={openInNewTab ? "_blank" : undefined}
+              className='text-blue-high hover:underline'
+            >
+              {conflict.event.name}
+            </Link>
+            <span className='text-grey-grain'>
+              {" "}· {formatDay(eventStart(conflict.event))} {formatEventTimes(conflict.event, hourCycle)}
+            </span>
+            {showMembers && <span className='text-grey-subtle'> · {names(conflict)}</span>}
+          </li>
+        ))}
+      </ul>
+      {conflicts.length > MAX_SHOWN && (
+        <p className='mt-1.5 text-sm text-grey-subtle'>and {conflicts.length - MAX_SHOWN} more</p>
+      )}
+    </div>
+  );
+}
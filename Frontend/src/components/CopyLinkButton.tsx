@@ -0,0 +1,24 @@
+import { useState } from "react";
+import cx from "classnames";
+import copyToClipboard from "copy-to-clipboard";
+import CopyIcon from "assets/copy.svg";
+
+// Copies `url`, the label says so until the pointer moves away
+export function CopyLinkButton({ url, className }: { url: string; className?: string }) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <button
+      onClick={() => {
+        copyToClipboard(url);
+        setCopied(true);
+      }}
+      onMouseLeave={() => setCopied(false)}
+      title={url}
+      className={cx("flex gap-x-2 rounded-half bg-grey-high p-2.5 transition-colors hover:bg-blue-high/10", className)}
+    >
+      <img src={CopyIcon} />
+      <span className='text-fine'>{copied ? "Copied" : "Copy Link"}</span>
+    </button>
+  );
+}
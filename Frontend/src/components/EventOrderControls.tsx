@@ -0,0 +1,34 @@
+import cx from "classnames";
+import { ListBox } from "components/ListBox";
+import { EVENT_GROUPING_LABELS, EVENT_SORT_LABELS, useEventOrder } from "utils/eventOrder";
+import type { EventGrouping, EventSort } from "utils/eventOrder";
+
+const SORTS = Object.keys(EVENT_SORT_LABELS) as EventSort[];
+const GROUPINGS = Object.keys(EVENT_GROUPING_LABELS) as EventGrouping[];
+
+// Sort and group pickers of the event lists, `grouping` is left out where a
+// list isn't grouped
+export function EventOrderControls({ grouping = true, className }: { grouping?: boolean; className?: string }) {
+  const [order, setOrder] = useEventOrder();
+
+  return (
+    <div className={cx("flex flex-wrap items-center gap-x-4 gap-y-3", className)}>
+      <ListBox
+        className='minimal min-w-[theme("spacing.56")]'
+        selected={order.sort}
+        onChangeValue={(sort: EventSort) => setOrder({ sort })}
+        renderFunc={(sort) => EVENT_SORT_LABELS[sort]}
+        data={SORTS}
+      />
+      {grouping && (
+        <ListBox
+          className='minimal min-w-[theme("spacing.48")]'
+          selected={order.grouping}
+          onChangeValue={(grouping: EventGrouping) => setOrder({ grouping })}
+          renderFunc={(grouping) => EVENT_GROUPING_LABELS[grouping]}
+          data={GROUPINGS}
+        />
+      )}
+    </div>
+  );
+}
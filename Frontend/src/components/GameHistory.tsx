@@ -0,0 +1,139 @@
+import { useState } from "react";
+import cx from "classnames";
+import { Link } from "react-router-dom";
+import type { FixtureStatus, Id } from "types/domain";
+import { Skeleton } from "components/Skeleton";
+import { eventStart, formatEventTimes, formatLongDay, useHourCycle } from "utils/datetime";
+import { eventPath } from "utils/recurrence";
+import { outcomeOf } from "utils/fixtures";
+import type { Match, Outcome } from "utils/fixtures";
+import RightArrow from "assets/right-arrow.svg";
+
+const PAGE_SIZE = 10;
+
+const outcomeClasses: Record<Outcome, string> = {
+  "W": "bg-blue-high",
+  "D": "bg-yellow",
+  "L": "bg-pink"
+};
+
+export type PlayedMatch = Match & { location: string; opponentStatus?: FixtureStatus | null };
+
+function ResultStatus({ match, teamId }: { match: PlayedMatch; teamId?: Id }) {
+  const outcome = outcomeOf(match, teamId);
+  return (
+    <div
+      title={outcome && match.result ? `${match.result.home} - ${match.result.away}` : "No result"}
+      className={cx(
+        "box-content flex h-6 w-6 items-center justify-center rounded-half p-0.5 text-dim-black",
+        outcome ? outcomeClasses[outcome] : "bg-dim-white"
+      )}
+    >
+      {outcome ?? "-"}
+    </div>
+  );
+}
+
+function ViewMore({ to }: { to: string }) {
+  return (
+    <Link to={to} className='flex items-center'>
+      <span className='mr-0.5 text-fine underline'>View</span>
+      <img src={RightArrow} />
+    </Link>
+  );
+}
+
+function Row({ match, teamId }: { match: PlayedMatch; teamId?: Id }) {
+  const [hourCycle] = useHourCycle();
+  // A team that turned the match down didn't play it
+  const opponent = match.opponentStatus === "Declined" ? null : match.opponent;
+  return (
+    <tr>
+      <td>
+        <p className='flex gap-x-2'>
+          {match.team?.name ?? "Home"} Vs {opponent?.name ?? "To be confirmed"}
+        </p>
+      </td>
+      <td>{match.location}</td>
+      <td>{formatEventTimes(match, hourCycle)}</td>
+      <td>{formatLongDay(eventStart(match))}</td>
+      <td>
+        <ResultStatus match={match} teamId={teamId} />
+      </td>
+      <td>
+        <ViewMore to={eventPath(match)} />
+      </td>
+    </tr>
+  );
+}
+
+interface GameHistoryProps {
+  // Latest first, see splitFixtures()
+  matches: PlayedMatch[];
+  // Results are won or lost from the side of this team, the home team without one
+  teamId?: Id;
+  loading: boolean;
+}
+
+// The matches played, a page at a time
+export function GameHistory({ matches, teamId, loading }: GameHistoryProps) {
+  const [page, setPage] = useState(0);
+  const pages = Math.max(1, Math.ceil(matches.length / PAGE_SIZE));
+  // A shorter list, e.g. of another team, can end before the page shown
+  const current = Math.min(page, pages - 1);
+  const shown = matches.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  return (
+    <div className='pm-table-section'>
+      <h3 className='mb-3 mt-5 text-lg font-medium'>Game history</h3>
+      <table>
+        <thead>
+          <tr>
+            <th>Match</th>
+            <th>Location</th>
+            <th>Time</th>
+            <th>Date</th>
+            <th className='w-1'>Result</th>
+            <th className='w-1'>See more</th>
+          </tr>
+        </thead>
+        <tbody>
+          {loading && [0, 1, 2].map((index) => (
+            <tr key={index}>
+              <td colSpan={6}>
+                <Skeleton className='h-6' />
+              </td>
+            </tr>
+          ))}
+          {!loading && matches.length === 0 && (
+            <tr>
+              <td colSpan={6} className='text-grey-subtle'>No games played yet</td>
+            </tr>
+          )}
+          {shown.map((match) => (
+            <Row key={match.id + match.date} match={match} teamId={teamId} />
+          ))}
+        </tbody>
+      </table>
+      {pages > 1 && (
+        <div className='mt-4 flex items-center justify-end gap-x-3 text-fine'>
+          <button
+            disabled={current === 0}
+            onClick={() => setPage(current - 1)}
+            className='rounded-half bg-grey-high px-3 py-1.5 hover:bg-blue-high/10 disabled:opacity-50'
+          >
+            Previous
+          </button>
+          <span className='text-grey-subtle'>Page {current + 1} of {pages}</span>
+          <button
+            disabled={current === pages - 1}
+            onClick={() => setPage(current + 1)}
+            className='rounded-half bg-grey-high px-3 py-1.5 hover:bg-blue-high/10 disabled:opacity-50'
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
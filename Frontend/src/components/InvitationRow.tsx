@@ -1,7 +1,13 @@
 import React from "react";
 import Profile from "assets/profile-6.png";
+import type { Id, User } from "types/domain";
 
-export function InvitationRow(props: any) {
+interface InvitationRowProps {
+  info: Pick<User, "_id" | "fname" | "lname" | "profilePic">;
+  onSelectMember: (selected: boolean, userId: Id) => void;
+  checked: boolean;
+}
+export function InvitationRow(props: InvitationRowProps) {
   const { info, onSelectMember, checked } = props;
   return (
     <label className='app-checkbox flex items-center gap-x-3'>
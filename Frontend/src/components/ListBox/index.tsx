@@ -10,9 +10,10 @@ type ListboxProps<T> = {
   label?: React.ReactNode;
   placeholder?: string;
   btnClassName?: string;
-  onChangeValue: (value: string) => void
+  onChangeValue: (value: T) => void
   data: T[];
   initValue?: T;
+  selected?: T | null;
 
   keyFunc?: string | ((x: T) => React.Key);
   renderFunc?: (x: T) => React.ReactNode;
@@ -24,7 +25,7 @@ export function ListBox<T>({
   initValue,
   onChangeValue,
   ...props
-}: ListboxProps<T> & Omit<React.HTMLProps<HTMLDivElement>, "data">) {
+}: ListboxProps<T> & Omit<React.HTMLProps<HTMLDivElement>, "data" | "selected">) {
   const [selectedItem, setSelectedItem] = React.useState<T | null>(
     initValue === undefined ? null : initValue
   );
@@ -50,12 +51,12 @@ export function ListBox<T>({
   let { defaultValue: _$01, ref: _$02, selected, ...divProps } = props;
 
   useEffect(() => {
-    if (typeof selectedItem !== "object")
+    if (selectedItem !== null && typeof selectedItem !== "object")
       onChangeValue(selectedItem)
   }, [selectedItem])
 
   useEffect(() => {
-    setSelectedItem(selected)
+    setSelectedItem(selected === undefined ? null : selected)
   }, [selected])
 
   return (
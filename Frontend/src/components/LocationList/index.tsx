@@ -1,16 +1,27 @@
-import { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useState } from "react";
 import "./styles.css"
 
-export function LocationList(props: any) {
+// The part of a google places prediction the list needs
+export interface LocationPrediction {
+  description: string;
+  place_id: string;
+}
+
+interface LocationListProps {
+  list: LocationPrediction[];
+  outSideClickFunc: (open: boolean) => void;
+  setEventLocation: (location: string, prediction: LocationPrediction) => void;
+}
+export function LocationList(props: LocationListProps) {
   const { list, outSideClickFunc, setEventLocation } = props;
 
-	function useOutsideAlerter(ref) {
+	function useOutsideAlerter(ref: React.RefObject<HTMLDivElement>) {
     useEffect(() => {
       /**
        * Alert if clicked on outside of element
        */
-      function handleClickOutside(event) {
-        if (ref.current && !ref.current.contains(event.target)) {
+      function handleClickOutside(event: MouseEvent) {
+        if (ref.current && !ref.current.contains(event.target as Node)) {
             outSideClickFunc(false);
         }
       }
@@ -23,12 +34,12 @@ export function LocationList(props: any) {
     }, [ref]);
   }
 
-	const onSelect = (location: string) => {
-		setEventLocation(location)
+	const onSelect = (location: LocationPrediction) => {
+		setEventLocation(location.description, location)
 		outSideClickFunc(false)
 	}
 
-  const wrapperRef = useRef(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
 	useOutsideAlerter(wrapperRef);
 	
   return (
@@ -38,7 +49,7 @@ export function LocationList(props: any) {
 					<div 
 						className="hover:opacity-75 hover:bg-gray-100 p-1 hover:text-black rounded-md cursor-default" 
 						key={index}
-						onClick={() => onSelect(location.description)}
+						onClick={() => onSelect(location)}
 					>
 						{location.description}
 					</div>
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { api, useQuery } from "api";
+import type { EventDetails } from "api";
+import type { Id } from "types/domain";
+import { useCurrentUser } from "auth";
+import { ListBox } from "components/ListBox";
+import { Skeleton } from "components/Skeleton";
+import { emptyLineup, impossibleSubstitution, onFieldAt } from "utils/lineup";
+import type { LineupDraft } from "utils/lineup";
+import { EditActions, LineupBoard } from "./FieldView";
+import type { LineupPlayer } from "./FieldView";
+
+const playerName = (player: LineupPlayer | undefined) => (player ? `${player.fname} ${player.lname}` : "Former player");
+
+interface SubstitutionPlanProps {
+  lineup: LineupDraft;
+  playersById: Map<Id, LineupPlayer>;
+  // Who can come on, the players going to the match
+  available: LineupPlayer[];
+  onChange: ((change: (lineup: LineupDraft) => LineupDraft) => void) | null;
+}
+
+function SubstitutionPlan({ lineup, playersById, available, onChange }: SubstitutionPlanProps) {
+  const [minute, setMinute] = useState("");
+  const [off, setOff] = useState<Id | null>(null);
+  const [on, setOn] = useState<Id | null>(null);
+  const [error, setError] = useState("");
+
+  // Picked from the players on the field at that minute, after the earlier
+  // substitutions, the end of the match until a minute is typed
+  const at = parseInt(minute);
+  const playing = onFieldAt(lineup, isNaN(at) ? Infinity : at);
+  const substitutes = available.map((player) => player.id).filter((id) => !playing.includes(id));
+
+  useEffect(() => {
+    if (off && !playing.includes(off)) setOff(null);
+    if (on && !substitutes.includes(on)) setOn(null);
+  }, [minute, lineup]);
+
+  const onAdd = () => {
+    if (!onChange || isNaN(at) || at < 0 || !off || !on || !playing.includes(off) || !substitutes.includes(on)) return;
+    const planned = {
+      ...lineup,
+      substitutions: [...lineup.substitutions, { minute: at, off, on }].sort((a, b) => a.minute - b.minute)
+    };
+    const clash = impossibleSubstitution(planned);
+    if (clash) {
+      setError(`This clashes with the substitution in minute ${clash.minute}`);
+      return;
+    }
+    setError("");
+    onChange(() => planned);
+    setMinute("");
+    setOff(null);
+    setOn(null);
+  };
+
+  // Removing a substitution or changing the lineup can leave a later one that
+  // can't happen
+  const clash = impossibleSubstitution(lineup);
+
+  if (!onChange && lineup.substitutions.length === 0) return null;
+
+  return (
+    <div className='mt-5'>
+      <h3 className='mb-2 font-medium'>Substitutions</h3>
+      {lineup.substitutions.length === 0 && (
+        <p className='text-fine text-grey-subtle'>No substitutions planned</p>
+      )}
+      <ul className='flex flex-col gap-y-1.5'>
+        {lineup.substitutions.map((sub, index) => (
+          <li key={index} className='flex items-center gap-x-3 text-fine'>
+            <span className='w-10 font-medium text-blue-high'>{sub.minute}'</span>
+            <span className='text-pink'>Off</span> {playerName(playersById.get(sub.off))}
+            <span className='text-blue-high'>On</span> {playerName(playersById.get(sub.on))}
+            {sub === clash && <span className='text-sm text-pink'>(not possible with the lineup)</span>}
+            {onChange && (
+              <button
+                onClick={() => onChange((lineup) => ({
+                  ...lineup,
+                  substitutions: lineup.substitutions.filter((_, other) => other !== index)
+                }))}
+                className='ml-auto text-sm text-grey-subtle underline hover:text-pink'
+              >
+                Remove
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {onChange && (
+        <div className='mt-3 flex flex-wrap items-center gap-2.5'>
+          <input
+            type='number'
+            min={0}
+            value={minute}
+            onChange={(event) => setMinute(event.target.value)}
+            className='w-20 rounded-half border border-grey-high bg-transparent px-3 py-2 text-white'
+            placeholder='Min'
+          />
+          <ListBox
+            placeholder='Player off'
+            className='minimal min-w-[10rem]'
+            selected={off}
+            onChangeValue={setOff}
+            renderFunc={(id) => playerName(playersById.get(id))}
+            data={playing}
+          />
+          <ListBox
+            placeholder='Player on'
+            className='minimal min-w-[10rem]'
+            selected={on}
+            onChangeValue={setOn}
+            renderFunc={(id) => playerName(playersById.get(id))}
+            data={substitutes}
+          />
+          <button
+            onClick={onAdd}
+            className='rounded-half bg-grey-high px-4 py-2 hover:bg-blue-high/10'
+          >
+            Add
+          </button>
+        </div>
+      )}
+      {onChange && error && <p className='mt-2.5 text-sm text-pink'>{error}</p>}
+    </div>
+  );
+}
+
+interface EventLineupProps {
+  event: EventDetails;
+  // Off where the lineup is only announced, e.g. right after creating the match
+  editable?: boolean;
+  className?: string;
+}
+
+// The lineup of one match, made up of the members going to it. Players who
+// declined after being put in are pointed out.
+export function EventLineup({ event, editable = true, className }: EventLineupProps) {
+  const teamId = event.team?.id ?? null;
+  const { data: saved, loading } = useQuery(api.lineups.get, teamId ? [teamId, event.id] : null);
+  const { data: roster = [] } = useQuery(api.teams.members, teamId ? [teamId] : null);
+  const currentUser = useCurrentUser();
+  const role = roster.find((member) => member.id === currentUser?._id)?.role;
+  const canEdit = editable && !!teamId && (event.isOrganiser || role === "Admin" || role === "Captain");
+
+  // Changes not saved yet, null unless editing
+  const [draft, setDraft] = useState<LineupDraft | null>(null);
+  const [error, setError] = useState("");
+  const lineup = draft ?? saved ?? emptyLineup(event.sport);
+  const editing = draft !== null;
+
+  useEffect(() => setDraft(null), [event.id]);
+
+  const invited = event.members.filter((member) => member.status !== "Requested");
+  const players: LineupPlayer[] = useMemo(
+    () => invited.map((member) => {
+      const teammate = roster.find((teammate) => teammate.id === member.id);
+      return { ...member, position: teammate?.position, shirtNumber: teammate?.shirtNumber };
+    }),
+    [event.members, roster]
+  );
+  const playersById = useMemo(() => new Map(players.map((player) => [player.id, player])), [players]);
+  const statusOf = (userId: Id) => invited.find((member) => member.id === userId)?.status;
+  const available = players.filter((player) => statusOf(player.id) === "Accepted");
+  const inLineup = [...lineup.slots.map((slot) => slot.user), ...lineup.bench];
+  const declined = inLineup.filter((userId) => statusOf(userId) === "Rejected");
+  const unanswered = inLineup.filter((userId) => statusOf(userId) === "Pending Invite" || statusOf(userId) === "Waitlisted");
+
+  const onEdit = () => {
+    if (!editing) {
+      setError("");
+      setDraft(lineup);
+      return;
+    }
+    if (!teamId) return;
+    api.lineups.save({ teamId, eventId: event.id, ...lineup })
+      .then(() => setDraft(null))
+      .catch((error) => setError(error.message));
+  };
+
+  if (!teamId || event.eventType !== "team" || (!canEdit && !saved && !loading)) return null;
+
+  const onChange = editing ? (change: (lineup: LineupDraft) => LineupDraft) => setDraft((draft) => draft && change(draft)) : null;
+
+  return (
+    <section className={className}>
+      <h2 className='mb-4 text-lg font-medium'>Lineup</h2>
+      {loading && <Skeleton className='h-64 rounded-half' />}
+      {!loading && (
+        <>
+          {canEdit && <EditActions editing={editing} onEdit={onEdit} onCancel={() => setDraft(null)} />}
+          {error && <p className='mb-2.5 text-sm text-pink'>{error}</p>}
+
+          {declined.length > 0 && (
+            <p className='mb-2.5 text-fine text-pink'>
+              {declined.map((userId) => playerName(playersById.get(userId))).join(", ")} declined but{" "}
+              {declined.length === 1 ? "is" : "are"} still in the lineup
+            </p>
+          )}
+          {unanswered.length > 0 && (
+            <p className='mb-2.5 text-fine text-yellow'>
+              {unanswered.length} {unanswered.length === 1 ? "player hasn't" : "players haven't"} accepted the invite yet
+            </p>
+          )}
+
+          <div className='grid grid-cols-1 gap-x-5 sm:grid-cols-[minmax(0,22rem)_minmax(0,1fr)]'>
+            <LineupBoard
+              lineup={lineup}
+              sport={event.sport}
+              players={players}
+              available={available}
+              onChange={onChange}
+              warned={new Set(declined)}
+              paneClassName='mt-2.5 max-h-[32rem] overflow-y-auto rounded-half border border-outline-2 px-5 py-3.5 sm:col-start-2 sm:row-span-2 sm:row-start-1 sm:mt-0'
+            />
+          </div>
+
+          <SubstitutionPlan lineup={lineup} playersById={playersById} available={available} onChange={onChange} />
+
+          {saved && !editing && (
+            <Link
+              to={`/team/sheet?team=${teamId}&event=${event.id}`}
+              target='_blank'
+              className='mt-5 inline-block rounded-half border border-outline-2 px-5 py-2.5 font-medium text-grey-classic hover:bg-black/50'
+            >
+              Print team sheet
+            </Link>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,120 @@
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import FieldBg from "assets/field.png";
+import type { FieldKind } from "utils/formations";
+
+// All fields are drawn at the size of the pitch image, so the players keep
+// their size from one sport to the next
+export const FIELD_WIDTH = 421;
+export const FIELD_HEIGHT = 784;
+const WIDTH = FIELD_WIDTH;
+const HEIGHT = FIELD_HEIGHT;
+
+const LINE = { fill: "none", stroke: "white", strokeOpacity: 0.8, strokeWidth: 1.5 };
+
+function Stripes({ light, dark, count }: { light: string; dark: string; count: number }) {
+  const height = HEIGHT / count;
+  return (
+    <>
+      {[...Array(count)].map((_, index) => (
+        <rect key={index} x={0} y={index * height} width={WIDTH} height={height} fill={index % 2 ? dark : light} />
+      ))}
+    </>
+  );
+}
+
+// Both halves of a field are drawn alike, `end` is drawn once at the top and
+// flipped at the bottom
+function Ends({ children }: { children: React.ReactNode }) {
+  return (
+    <>
+      {children}
+      <g transform={`rotate(180 ${WIDTH / 2} ${HEIGHT / 2})`}>{children}</g>
+    </>
+  );
+}
+
+function SmallPitch() {
+  return (
+    <>
+      <Stripes light='#5E8A4E' dark='#527D40' count={8} />
+      <rect x={20} y={20} width={WIDTH - 40} height={HEIGHT - 40} {...LINE} />
+      <line x1={20} y1={HEIGHT / 2} x2={WIDTH - 20} y2={HEIGHT / 2} {...LINE} />
+      <circle cx={WIDTH / 2} cy={HEIGHT / 2} r={40} {...LINE} />
+      <Ends>
+        <rect x={110} y={20} width={WIDTH - 220} height={90} {...LINE} />
+        <rect x={170} y={8} width={WIDTH - 340} height={12} {...LINE} />
+      </Ends>
+    </>
+  );
+}
+
+function FutsalCourt() {
+  return (
+    <>
+      <rect width={WIDTH} height={HEIGHT} fill='#2F5F8A' />
+      <rect x={20} y={20} width={WIDTH - 40} height={HEIGHT - 40} {...LINE} fill='#3B74A3' />
+      <line x1={20} y1={HEIGHT / 2} x2={WIDTH - 20} y2={HEIGHT / 2} {...LINE} />
+      <circle cx={WIDTH / 2} cy={HEIGHT / 2} r={40} {...LINE} />
+      <Ends>
+        <path d={`M 70 20 A 90 90 0 0 0 160 110 L ${WIDTH - 160} 110 A 90 90 0 0 0 ${WIDTH - 70} 20`} {...LINE} />
+        <rect x={175} y={8} width={WIDTH - 350} height={12} {...LINE} />
+        <circle cx={WIDTH / 2} cy={140} r={2.5} fill='white' />
+      </Ends>
+    </>
+  );
+}
+
+function BasketballCourt() {
+  return (
+    <>
+      <rect width={WIDTH} height={HEIGHT} fill='#A8703F' />
+      <rect x={20} y={20} width={WIDTH - 40} height={HEIGHT - 40} {...LINE} fill='#C08552' />
+      <line x1={20} y1={HEIGHT / 2} x2={WIDTH - 20} y2={HEIGHT / 2} {...LINE} />
+      <circle cx={WIDTH / 2} cy={HEIGHT / 2} r={45} {...LINE} />
+      <Ends>
+        <rect x={150} y={20} width={WIDTH - 300} height={170} {...LINE} />
+        <circle cx={WIDTH / 2} cy={190} r={60} {...LINE} />
+        <path d={`M 40 20 L 40 110 A 180 180 0 0 0 ${WIDTH - 40} 110 L ${WIDTH - 40} 20`} {...LINE} />
+        <circle cx={WIDTH / 2} cy={60} r={10} {...LINE} />
+      </Ends>
+    </>
+  );
+}
+
+function VolleyballCourt() {
+  return (
+    <>
+      <rect width={WIDTH} height={HEIGHT} fill='#2F5F8A' />
+      <rect x={40} y={40} width={WIDTH - 80} height={HEIGHT - 80} {...LINE} fill='#D98C4A' />
+      <line x1={20} y1={HEIGHT / 2} x2={WIDTH - 20} y2={HEIGHT / 2} stroke='white' strokeWidth={4} />
+      <Ends>
+        <line x1={40} y1={HEIGHT / 2 - 118} x2={WIDTH - 40} y2={HEIGHT / 2 - 118} {...LINE} />
+      </Ends>
+    </>
+  );
+}
+
+export function FieldBackground({ kind }: { kind: FieldKind }) {
+  if (kind === "pitch") {
+    return <img className='w-full max-w-full' src={FieldBg} draggable={false} />;
+  }
+
+  return (
+    <svg className='block w-full max-w-full rounded-half' viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+      {kind === "small-pitch" && <SmallPitch />}
+      {kind === "futsal" && <FutsalCourt />}
+      {kind === "basketball" && <BasketballCourt />}
+      {kind === "volleyball" && <VolleyballCourt />}
+    </svg>
+  );
+}
+
+// The field as an image of its own, to draw it on a canvas
+export function fieldImageUrl(kind: FieldKind) {
+  if (kind === "pitch") return FieldBg;
+
+  const markup = renderToStaticMarkup(<FieldBackground kind={kind} />)
+    .replace("<svg", `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}"`);
+  return "data:image/svg+xml;charset=utf-8," + encodeURIComponent(markup);
+}
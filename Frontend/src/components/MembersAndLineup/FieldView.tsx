@@ -3,17 +3,52 @@ import FieldBg from "assets/field.png";
 import cx from "classnames";
 import { ListBox } from "components/ListBox";
 import { Helmet } from "react-helmet";
-import P03 from "assets/lineup/03.png";
-import { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { api, useQuery } from "api";
+import type { TeamMemberInfo } from "api";
+import type { Id } from "types/domain";
+import { changeFormation, emptyLineup, movePlayer } from "utils/lineup";
+import type { LineupDraft, LineupSpot } from "utils/lineup";
+import { formationOf, formationsFor } from "utils/formations";
+import type { Formation, FormationSlot } from "utils/formations";
+import { FieldBackground } from "./FieldBackground";
+import { LineupExport } from "./LineupExport";
 
-/* Coordinates calculations are for demo purposes only */
+// Size of a player on the field, in px at the least and relative to the
+// field (420 by 784) above that
 const RADIUS = 17.5;
 
-const calc_top = (x: number) => (100.0 * (RADIUS + x - 116)) / 784;
-const calc_lft = (x: number) => (100.0 * (RADIUS + x - 292)) / 420;
+interface FieldViewPanelProps {
+  // Null where there is no team to keep a lineup for
+  teamId: Id | null;
+  // Name of the team's sport, it decides the formations offered
+  sport: string | null;
+  members: TeamMemberInfo[];
+  canEdit: boolean;
+}
+
+export function FieldViewPanel({ teamId, sport, members, canEdit }: FieldViewPanelProps) {
+  const { data: saved } = useQuery(api.lineups.get, teamId ? [teamId] : null);
+  // Changes not saved yet, null unless editing
+  const [draft, setDraft] = useState<LineupDraft | null>(null);
+  const [error, setError] = useState("");
+  const lineup = draft ?? saved ?? emptyLineup(sport);
+  const editing = draft !== null;
 
-export function FieldViewPanel() {
-  const [editing, setEditing] = useState(false);
+  // Another team was picked
+  useEffect(() => setDraft(null), [teamId]);
+
+  const onEdit = () => {
+    if (!editing) {
+      setError("");
+      setDraft(saved ?? emptyLineup(sport));
+      return;
+    }
+    if (!teamId) return;
+    api.lineups.save({ teamId, ...lineup })
+      .then(() => setDraft(null))
+      .catch((error) => setError(error.message));
+  };
 
   return (
     <>
@@ -21,36 +56,197 @@ export function FieldViewPanel() {
         <link rel='preload' as='image' href={FieldBg} />
       </Helmet>
       <Tab.Panel>
-        <EditActions editing={editing} setEditing={setEditing} />
-        <FieldView editing={editing} />
+        {canEdit && teamId && (
+          <EditActions editing={editing} onEdit={onEdit} onCancel={() => setDraft(null)} />
+        )}
+        {error && <p className='mb-2.5 text-sm text-pink'>{error}</p>}
+        <LineupBoard
+          lineup={lineup}
+          sport={sport}
+          players={members}
+          onChange={editing ? (change) => setDraft((draft) => draft && change(draft)) : null}
+        />
+        {teamId && !editing && <LineupExport teamId={teamId} sport={sport} lineup={lineup} players={members} />}
       </Tab.Panel>
-      {editing && <EditingPane />}
     </>
   );
 }
 
-function EditActions(p: {
+// Who can be shown in a lineup, team members or the people invited to a match
+export type LineupPlayer = Pick<TeamMemberInfo, "id" | "fname" | "lname" | "profilePic"> & {
+  position?: string;
+  shirtNumber?: number | null;
+};
+
+interface LineupBoardProps {
+  lineup: LineupDraft;
+  sport: string | null;
+  // Everyone who may be in the lineup
+  players: LineupPlayer[];
+  // The ones offered while editing, all the players if left out
+  available?: LineupPlayer[];
+  // Null unless editing, called with the change to make to the lineup
+  onChange: ((change: (lineup: LineupDraft) => LineupDraft) => void) | null;
+  // Players marked on the field, e.g. the ones who declined the match
+  warned?: Set<Id>;
+  // Where the members to drag from go, to the left of the field by default
+  paneClassName?: string;
+}
+
+// The field with the bench, the players can be dragged around while editing
+export function LineupBoard({ lineup, sport, players, available = players, onChange, warned, paneClassName }: LineupBoardProps) {
+  const formation = formationOf(lineup.formation, sport);
+  const playersById = useMemo(() => new Map(players.map((player) => [player.id, player])), [players]);
+  const drag = useLineupDrag((userId, spot) => onChange?.((lineup) => movePlayer(lineup, userId, spot)));
+  const editing = onChange !== null;
+  const view = { lineup, formation, playersById, editing, warned, onDragStart: drag.start };
+
+  return (
+    <>
+      <FieldView {...view} />
+      <Bench {...view} />
+      {editing && (
+        <EditingPane
+          lineup={lineup}
+          formations={formationsFor(sport)}
+          onFormation={(to) => onChange((lineup) => changeFormation(lineup, formationOf(lineup.formation, sport), to))}
+          members={available}
+          onDragStart={drag.start}
+          className={paneClassName}
+        />
+      )}
+      {drag.dragged && playersById.has(drag.dragged.userId) && (
+        <div
+          className='pointer-events-none fixed z-[200] -translate-x-1/2 -translate-y-1/2'
+          style={{ left: drag.dragged.x, top: drag.dragged.y }}
+        >
+          <Avatar member={playersById.get(drag.dragged.userId)!} className='h-10 w-10 ring-2 ring-blue-high' />
+        </div>
+      )}
+    </>
+  );
+}
+
+type DragStart = (userId: Id) => (event: React.PointerEvent) => void;
+
+// Drops are found by the `data-lineup-spot` of the element under the pointer,
+// "slot:3", "bench" or "members"
+function spotAttribute(spot: LineupSpot) {
+  return spot.kind === "slot" ? `slot:${spot.slot}` : spot.kind;
+}
+
+function parseSpot(value: string | undefined): LineupSpot | null {
+  if (value === "bench" || value === "members") return { kind: value };
+  const slot = parseInt(value?.split(":")[1] ?? "");
+  return value?.startsWith("slot:") && !isNaN(slot) ? { kind: "slot", slot } : null;
+}
+
+// Dragging with a mouse, finger or pen. The player follows the pointer until
+// it is let go over a spot.
+function useLineupDrag(onDrop: (userId: Id, spot: LineupSpot) => void) {
+  const [dragged, setDragged] = useState<{ userId: Id; x: number; y: number } | null>(null);
+  const userId = dragged?.userId;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const onMove = (event: PointerEvent) => {
+      setDragged({ userId, x: event.clientX, y: event.clientY });
+    };
+    const onUp = (event: PointerEvent) => {
+      const target = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>("[data-lineup-spot]");
+      const spot = parseSpot(target?.dataset.lineupSpot);
+      if (spot) onDrop(userId, spot);
+      setDragged(null);
+    };
+    const onCancel = () => setDragged(null);
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("pointercancel", onCancel);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("pointercancel", onCancel);
+    };
+  }, [userId]);
+
+  const start: DragStart = (userId) => (event) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    setDragged({ userId, x: event.clientX, y: event.clientY });
+  };
+
+  return { dragged, start };
+}
+
+export function EditActions(p: {
   editing: boolean;
-  setEditing: (_: boolean) => void;
+  onEdit: () => void;
+  onCancel: () => void;
 }) {
-  let { editing, setEditing } = p;
+  let { editing, onEdit, onCancel } = p;
   return (
-    <button
-      onClick={() => setEditing(!editing)}
-      className={cx(
-        "mb-2.5 flex w-full items-center justify-center gap-x-3 rounded-half border border-outline-2 py-3 font-medium hover:bg-black/50",
-        !editing && "text-grey-classic"
+    <div className='mb-2.5 flex gap-x-2.5'>
+      <button
+        onClick={onEdit}
+        className={cx(
+          "flex flex-1 items-center justify-center gap-x-3 rounded-half border border-outline-2 py-3 font-medium hover:bg-black/50",
+          !editing && "text-grey-classic"
+        )}
+      >
+        {editing ? "Update" : "Edit Lineup"}
+        {!editing && <PenIcon />}
+      </button>
+      {editing && (
+        <button
+          onClick={onCancel}
+          className='rounded-half border border-outline-2 px-5 py-3 text-grey-classic hover:bg-black/50'
+        >
+          Cancel
+        </button>
       )}
-    >
-      {editing ? "Update" : "Edit Lineup"}
-      {!editing && <PenIcon />}
-    </button>
+    </div>
   );
 }
 
-function EditingPane() {
+function Avatar({ member, className }: { member: LineupPlayer; className?: string }) {
   return (
-    <div className='absolute right-0 top-0 z-[100] h-full w-full min-w-[17.5rem] rounded-half bg-grey-low px-5 py-3.5 desktop:right-full desktop:w-auto desktop:-translate-x-2.5 translate-y-28 desktop:translate-y-0'>
+    <div className={cx("flex-shrink-0 overflow-hidden rounded-full bg-grey-high", className)}>
+      <img className='h-full w-full object-cover' src={member.profilePic} draggable={false} />
+    </div>
+  );
+}
+
+interface LineupViewProps {
+  lineup: LineupDraft;
+  formation: Formation;
+  playersById: Map<Id, LineupPlayer>;
+  editing: boolean;
+  warned?: Set<Id>;
+  onDragStart: DragStart;
+}
+
+interface EditingPaneProps {
+  lineup: LineupDraft;
+  formations: Formation[];
+  // Placed players move to the nearest slots of the new formation
+  onFormation: (formation: Formation) => void;
+  members: LineupPlayer[];
+  onDragStart: DragStart;
+  className?: string;
+}
+
+// The members who aren't in the lineup, dropping a player here takes them out
+function EditingPane({ lineup, formations, onFormation, members, onDragStart, className }: EditingPaneProps) {
+  const placed = new Set([...lineup.slots.map((slot) => slot.user), ...lineup.bench]);
+  const available = members.filter((member) => !placed.has(member.id));
+
+  return (
+    <div
+      data-lineup-spot={spotAttribute({ kind: "members" })}
+      className={className ?? 'absolute right-0 top-0 z-[100] h-full w-full min-w-[17.5rem] overflow-y-auto rounded-half bg-grey-low px-5 py-3.5 desktop:right-full desktop:w-auto desktop:-translate-x-2.5 translate-y-28 desktop:translate-y-0'}
+    >
       <h2 className='whitespace-nowrap font-medium'>Registered members</h2>
       <p className='mt-2.5 leading-tight text-grey-classic'>
         (drag and drop players into the squad to edit)
@@ -59,19 +255,28 @@ function EditingPane() {
       <ListBox
         placeholder='Setup'
         className='minimal tranparent mb-7 mt-6'
-        initValue='11 by 11'
-        onChangeValue={() => {}}
-        data={["11 by 11"]}
+        selected={lineup.formation}
+        onChangeValue={(key: string) => {
+          const formation = formations.find((formation) => formation.key === key);
+          if (formation && key !== lineup.formation) onFormation(formation);
+        }}
+        renderFunc={(key) => formations.find((formation) => formation.key === key)?.name ?? key}
+        data={formations.map((formation) => formation.key)}
       />
 
-      {[...Array(10)].map((_, i) => (
-        <div key={i} className='flex items-center py-2.5'>
-          <div className='h-10 w-10 overflow-hidden rounded-full'>
-            <img src={P03} />
-          </div>
+      {available.length === 0 && (
+        <p className='py-2.5 text-sm text-grey-classic'>Everyone is in the lineup</p>
+      )}
+      {available.map((member) => (
+        <div
+          key={member.id}
+          onPointerDown={onDragStart(member.id)}
+          className='flex cursor-grab touch-none select-none items-center py-2.5'
+        >
+          <Avatar member={member} className='h-10 w-10' />
           <div className='ml-4 min-w-0 flex-1 self-stretch'>
-            <h2 className='font-medium leading-tight'>David Goodman</h2>
-            <p className='text-sm text-grey-classic'>RB / LB</p>
+            <h2 className='font-medium leading-tight'>{member.fname} {member.lname}</h2>
+            <p className='text-sm text-grey-classic'>{member.position || "-"}</p>
           </div>
         </div>
       ))}
@@ -79,176 +284,79 @@ function EditingPane() {
   );
 }
 
-function FieldView(p: { editing: boolean }) {
+function FieldView({ lineup, formation, playersById, editing, warned, onDragStart }: LineupViewProps) {
   return (
     <section className='max-w-full'>
       <div className='relative'>
-        <img className='w-full max-w-full' src={FieldBg} />
+        <FieldBackground kind={formation.field} />
         <div className='absolute left-0 top-0 h-full w-full'>
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(134)}
-            percentLeft={calc_lft(483)}
-            inner='1'
-            outer='Peter'
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(243)}
-            percentLeft={calc_lft(331)}
-            inner='2'
-            outer='Pat'
-          />
-          <PlayerDot
-            percentTop={calc_top(243)}
-            percentLeft={calc_lft(432)}
-            inner='3'
-            outer='Wade'
-          />
-          <PlayerDot
-            percentTop={calc_top(243)}
-            percentLeft={calc_lft(534)}
-            inner='4'
-            outer='Philip'
-          />
-          <PlayerDot
-            percentTop={calc_top(243)}
-            percentLeft={calc_lft(635)}
-            inner='5'
-            outer='Leslie'
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(330)}
-            percentLeft={calc_lft(379)}
-            inner='8'
-            outer='Darrell'
-          />
-          <PlayerDot
-            percentTop={calc_top(330)}
-            percentLeft={calc_lft(484)}
-            inner='10'
-            outer='Guy'
-          />
-          <PlayerDot
-            percentTop={calc_top(330)}
-            percentLeft={calc_lft(589)}
-            inner='6'
-            outer='Jacob'
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(440)}
-            percentLeft={calc_lft(379)}
-            inner='11'
-            outer='Calvin'
-            skeleton={p.editing}
-          />
-          <PlayerDot
-            percentTop={calc_top(440)}
-            percentLeft={calc_lft(484)}
-            inner='9'
-            outer='Gregory'
-            skeleton={p.editing}
-          />
-          <PlayerDot
-            percentTop={calc_top(440)}
-            percentLeft={calc_lft(589)}
-            inner='7'
-            outer='Jorge'
-            skeleton={p.editing}
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(525)}
-            percentLeft={calc_lft(483)}
-            inner='14'
-            outer='Francisco'
-            skeleton={p.editing}
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(610)}
-            percentLeft={calc_lft(331)}
-            inner='7'
-            outer='Dwight'
-          />
-          <PlayerDot
-            percentTop={calc_top(610)}
-            percentLeft={calc_lft(433)}
-            inner='10'
-            outer='Soham'
-          />
-          <PlayerDot
-            percentTop={calc_top(610)}
-            percentLeft={calc_lft(535)}
-            inner='12'
-            outer='Bruce'
-          />
-          <PlayerDot
-            percentTop={calc_top(610)}
-            percentLeft={calc_lft(637)}
-            inner='11'
-            outer='Randall'
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(691)}
-            percentLeft={calc_lft(433)}
-            inner='8'
-            outer='Dustin'
-          />
-          <PlayerDot
-            percentTop={calc_top(691)}
-            percentLeft={calc_lft(535)}
-            inner='6'
-            outer='Cameron'
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(774)}
-            percentLeft={calc_lft(392)}
-            inner='11'
-            outer='Mitchell'
-          />
-          <PlayerDot
-            percentTop={calc_top(774)}
-            percentLeft={calc_lft(483)}
-            inner='9'
-            outer='Harold'
-          />
-          <PlayerDot
-            percentTop={calc_top(774)}
-            percentLeft={calc_lft(574)}
-            inner='7'
-            outer='Lee'
-          />
-          {/* Row */}
-          <PlayerDot
-            percentTop={calc_top(840)}
-            percentLeft={calc_lft(484)}
-            inner='1'
-            outer='Robert'
-          />
+          {formation.slots.map((slot, index) => {
+            const userId = lineup.slots.find((placed) => placed.slot === index)?.user;
+            return (
+              <PlayerDot
+                key={index}
+                slot={slot}
+                spot={{ kind: "slot", slot: index }}
+                member={userId ? playersById.get(userId) : undefined}
+                warned={!!userId && !!warned?.has(userId)}
+                editing={editing}
+                onPointerDown={userId && editing ? onDragStart(userId) : undefined}
+              />
+            );
+          })}
         </div>
       </div>
     </section>
   );
 }
 
+// Substitutes, shown once there are any or while editing
+function Bench({ lineup, playersById, editing, warned, onDragStart }: LineupViewProps) {
+  const benched = lineup.bench.flatMap((userId) => playersById.get(userId) ?? []);
+  if (!editing && benched.length === 0) return null;
+
+  return (
+    <section
+      data-lineup-spot={spotAttribute({ kind: "bench" })}
+      className={cx(
+        "mt-2.5 rounded-half bg-grey-low px-5 py-3.5",
+        editing && "border border-dashed border-outline-2"
+      )}
+    >
+      <h2 className='mb-2.5 text-sm font-medium text-grey-classic'>Bench</h2>
+      {benched.length === 0 && <p className='text-sm text-grey-subtle'>Drop players here to bench them</p>}
+      <div className='flex flex-wrap gap-x-4 gap-y-2.5'>
+        {benched.map((member) => (
+          <div
+            key={member.id}
+            onPointerDown={editing ? onDragStart(member.id) : undefined}
+            className={cx("flex select-none items-center gap-x-2", editing && "cursor-grab touch-none")}
+          >
+            <Avatar member={member} className={cx("h-7 w-7", warned?.has(member.id) && "ring-2 ring-pink")} />
+            <span className='text-sm'>{member.fname}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
 function PlayerDot(p: {
-  inner: string;
-  percentLeft: number;
-  percentTop: number;
-  outer: string;
-  skeleton?: boolean;
+  slot: FormationSlot;
+  spot: LineupSpot;
+  member?: LineupPlayer;
+  warned: boolean;
+  editing: boolean;
+  onPointerDown?: (event: React.PointerEvent) => void;
 }) {
-  let { skeleton } = p;
+  let { slot, member, editing } = p;
   return (
     <div
+      data-lineup-spot={spotAttribute(p.spot)}
+      onPointerDown={p.onPointerDown}
       style={{
-        left: (p.percentLeft || 0).toString() + "%",
-        top: (p.percentTop || 0).toString() + "%",
+        left: slot.x.toString() + "%",
+        top: slot.y.toString() + "%",
         width: `${(RADIUS * 200) / 420}%`,
         height: `${(RADIUS * 200) / 784}%`,
 
@@ -257,17 +365,24 @@ function PlayerDot(p: {
         transform: "translate(-50%, -50%)"
       }}
       className={cx(
-        "absolute flex items-center justify-center rounded-full",
-        skeleton ? "bg-grey-high" : "bg-grey-low"
+        "absolute flex select-none items-center justify-center rounded-full",
+        member ? "bg-grey-low" : editing ? "border border-dashed border-grey-classic bg-grey-high" : "bg-grey-low/70",
+        member && editing && "cursor-grab touch-none",
+        p.warned && "ring-2 ring-pink"
       )}
     >
-      {!skeleton && (
-        <>
-          <span className='select-none'>{p.inner}</span>
-          <div className='absolute left-1/2 top-full -translate-x-1/2 text-sm font-medium'>
-            {p.outer}
-          </div>
-        </>
+      {member
+        ? <Avatar member={member} className='h-full w-full' />
+        : <span className='text-xs text-grey-classic'>{slot.position}</span>}
+      {member?.shirtNumber != null && (
+        <span className='absolute -right-1.5 -top-1.5 min-w-[1.125rem] rounded-full bg-blue-high px-1 text-center text-xs font-semibold leading-[1.125rem] text-dim-black'>
+          {member.shirtNumber}
+        </span>
+      )}
+      {member && (
+        <div className='absolute left-1/2 top-full -translate-x-1/2 whitespace-nowrap text-sm font-medium'>
+          {member.fname}
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { api, useQuery } from "api";
+import type { Id } from "types/domain";
+import type { LineupDraft } from "utils/lineup";
+import { formationOf } from "utils/formations";
+import { FIELD_HEIGHT, FIELD_WIDTH, fieldImageUrl } from "./FieldBackground";
+import type { LineupPlayer } from "./FieldView";
+
+// The image is drawn at twice the size of the field on the page, so it stays
+// sharp on phones
+const SCALE = 2;
+const HEADER = 76;
+const RADIUS = 17.5;
+const FONT = "'Public Sans', sans-serif";
+
+const shirtLabel = (player: LineupPlayer) => (player.shirtNumber != null ? `#${player.shirtNumber} ` : "");
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The field couldn't be loaded"));
+    image.src = src;
+  });
+}
+
+// Breaks `text` at its words into lines no wider than `width`
+function wrapText(context: CanvasRenderingContext2D, text: string, width: number) {
+  const lines: string[] = [];
+  for (const word of text.split(" ")) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && context.measureText(`${last} ${word}`).width <= width) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+interface LineupPicture {
+  title: string;
+  subtitle: string;
+  lineup: LineupDraft;
+  sport: string | null;
+  players: LineupPlayer[];
+}
+
+// The field with the players on it as a png, drawn in the browser
+async function drawLineup({ title, subtitle, lineup, sport, players }: LineupPicture) {
+  const formation = formationOf(lineup.formation, sport);
+  const playersById = new Map(players.map((player) => [player.id, player]));
+  const field = await loadImage(fieldImageUrl(formation.field));
+  await document.fonts.ready;
+
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser can't create images");
+
+  const benched = lineup.bench.flatMap((userId) => playersById.get(userId) ?? []);
+  context.font = `400 14px ${FONT}`;
+  const bench = benched.length > 0
+    ? wrapText(context, benched.map((player) => `${shirtLabel(player)}${player.fname} ${player.lname}`).join(", "), FIELD_WIDTH - 40)
+    : [];
+  const footer = bench.length > 0 ? 48 + bench.length * 20 : 0;
+
+  // Resizing clears the context, so it is set up after
+  canvas.width = FIELD_WIDTH * SCALE;
+  canvas.height = (HEADER + FIELD_HEIGHT + footer) * SCALE;
+  context.scale(SCALE, SCALE);
+
+  context.fillStyle = "#141316";
+  context.fillRect(0, 0, FIELD_WIDTH, HEADER + FIELD_HEIGHT + footer);
+  context.fillStyle = "white";
+  context.font = `700 22px ${FONT}`;
+  context.fillText(title, 20, 36, FIELD_WIDTH - 40);
+  context.fillStyle = "#888888";
+  context.font = `400 14px ${FONT}`;
+  context.fillText(subtitle, 20, 60, FIELD_WIDTH - 40);
+
+  context.drawImage(field, 0, HEADER, FIELD_WIDTH, FIELD_HEIGHT);
+
+  context.textAlign = "center";
+  formation.slots.forEach((slot, index) => {
+    const userId = lineup.slots.find((placed) => placed.slot === index)?.user;
+    const player = userId ? playersById.get(userId) : undefined;
+    const x = (slot.x / 100) * FIELD_WIDTH;
+    const y = HEADER + (slot.y / 100) * FIELD_HEIGHT;
+
+    context.beginPath();
+    context.arc(x, y, RADIUS, 0, 2 * Math.PI);
+    context.fillStyle = player ? "#2C2C2C" : "rgba(44, 44, 44, 0.7)";
+    context.fill();
+    context.lineWidth = 2;
+    context.strokeStyle = player ? "#5CE5E2" : "rgba(255, 255, 255, 0.5)";
+    context.stroke();
+
+    // The shirt number in the dot, the initials without one and the
+    // position when the slot is empty
+    context.textBaseline = "middle";
+    context.fillStyle = player ? "white" : "#888888";
+    context.font = player ? `700 14px ${FONT}` : `400 11px ${FONT}`;
+    const label = !player ? slot.position
+      : player.shirtNumber != null ? String(player.shirtNumber)
+      : `${player.fname.charAt(0)}${player.lname.charAt(0)}`;
+    context.fillText(label, x, y);
+
+    if (player) {
+      context.textBaseline = "top";
+      context.font = `600 13px ${FONT}`;
+      context.lineWidth = 3;
+      context.strokeStyle = "rgba(0, 0, 0, 0.6)";
+      context.strokeText(player.fname, x, y + RADIUS + 4);
+      context.fillStyle = "white";
+      context.fillText(player.fname, x, y + RADIUS + 4);
+    }
+  });
+
+  if (bench.length > 0) {
+    const top = HEADER + FIELD_HEIGHT;
+    context.textAlign = "left";
+    context.textBaseline = "alphabetic";
+    context.fillStyle = "#888888";
+    context.font = `600 14px ${FONT}`;
+    context.fillText("Bench", 20, top + 28);
+    context.fillStyle = "white";
+    context.font = `400 14px ${FONT}`;
+    bench.forEach((line, index) => context.fillText(line, 20, top + 52 + index * 20));
+  }
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The image couldn't be created"))), "image/png");
+  });
+}
+
+function downloadImage(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface LineupExportProps {
+  teamId: Id;
+  sport: string | null;
+  lineup: LineupDraft;
+  players: LineupPlayer[];
+}
+
+// Saving the lineup as an image to post in the team's chats, and the team
+// sheet to print
+export function LineupExport({ teamId, sport, lineup, players }: LineupExportProps) {
+  const { data: team } = useQuery(api.teams.get, [teamId]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const onSave = () => {
+    const name = team?.name ?? "Lineup";
+    setSaving(true);
+    setError("");
+    drawLineup({
+      title: name,
+      subtitle: [sport, formationOf(lineup.formation, sport).name].filter(Boolean).join(" · "),
+      lineup,
+      sport,
+      players
+    })
+      .then((blob) => downloadImage(`${name.replace(/[^\w -]+/g, "").trim() || "team"} lineup.png`, blob))
+      .catch((error) => setError(error.message))
+      .finally(() => setSaving(false));
+  };
+
+  return (
+    <>
+      <div className='mt-2.5 flex gap-x-2.5'>
+        <button
+          onClick={onSave}
+          disabled={saving}
+          className='flex-1 rounded-half border border-outline-2 py-3 font-medium text-grey-classic hover:bg-black/50 disabled:opacity-50'
+        >
+          {saving ? "Saving..." : "Save as image"}
+        </button>
+        <Link
+          to={`/team/sheet?team=${teamId}`}
+          target='_blank'
+          className='flex-1 rounded-half border border-outline-2 py-3 text-center font-medium text-grey-classic hover:bg-black/50'
+        >
+          Print team sheet
+        </Link>
+      </div>
+      {error && <p className='mt-2.5 text-sm text-pink'>{error}</p>}
+    </>
+  );
+}
@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useState } from "react";
+import cx from "classnames";
 import { Tab, Menu, Transition } from "@headlessui/react";
 import { commonTransitionProps } from "components/PanelTransition";
 import MoreIcon from "assets/more.svg";
@@ -7,21 +8,36 @@ import SearchIcon from "assets/search.svg";
 import { ListBox } from "components/ListBox";
 import { FieldViewPanel } from "./FieldView";
 
-import P01 from "assets/lineup/01.png";
-import P02 from "assets/lineup/02.png";
-import P03 from "assets/lineup/03.png";
-import P04 from "assets/lineup/04.png";
-import P05 from "assets/lineup/05.png";
-import P06 from "assets/lineup/06.png";
-import P07 from "assets/lineup/07.png";
-import P08 from "assets/lineup/08.png";
-import P09 from "assets/lineup/09.png";
-import P10 from "assets/lineup/10.png";
-import P11 from "assets/lineup/11.png";
-import P12 from "assets/lineup/12.png";
 import { useMenu } from "utils";
+import { api } from "api";
+import type { TeamMemberInfo } from "api";
+import type { Id, TeamRole } from "types/domain";
+import { useCurrentUser } from "auth";
+
+// In the order members are listed
+const TEAM_ROLES: TeamRole[] = ["Admin", "Captain", "Coach", "Player"];
+const MAX_SHIRT_NUMBER = 99;
+
+const ROLE_TAG_COLORS: Partial<Record<TeamRole, string>> = {
+  Admin: "bg-yellow",
+  Captain: "bg-blue-high",
+  Coach: "bg-orange"
+};
+
+type MemberFilter = "All" | TeamRole;
+
+interface MembersAndLineupProps {
+  members: TeamMemberInfo[];
+  // Null where there is no team, the lineup can't be edited then
+  teamId?: Id | null;
+  // Name of the team's sport
+  sport?: string | null;
+}
+
+export function MembersAndLineup({members, teamId = null, sport = null} : MembersAndLineupProps) {
+  const currentUser = useCurrentUser();
+  const role = members.find((member) => member.id === currentUser?._id)?.role;
 
-export function MembersAndLineup({members} : any) {
   return (
     <section className='desktop:min-w-[25rem] desktop:max-w-[25rem] relative'>
       <Tab.Group manual defaultIndex={0}>
@@ -31,26 +47,55 @@ export function MembersAndLineup({members} : any) {
         </Tab.List>
         <Tab.Panels>
           <Tab.Panel>
-            <Members members={members} />
+            <Members members={members} teamId={teamId} canManage={role === "Admin"} />
           </Tab.Panel>
           {/* Wrapper Panel abstracted into it's own component for some preloading logic */}
-          <FieldViewPanel />
+          <FieldViewPanel teamId={teamId} sport={sport} members={members} canEdit={role === "Admin" || role === "Captain"} />
         </Tab.Panels>
       </Tab.Group>
     </section>
   );
 }
 
-function Members({members} : any) {
+interface MembersProps {
+  members: TeamMemberInfo[];
+  teamId: Id | null;
+  // Admins change the roles, numbers and positions of members and remove them
+  canManage: boolean;
+}
+
+function Members({ members, teamId, canManage }: MembersProps) {
+  const [filter, setFilter] = useState<MemberFilter>("All");
+  const [search, setSearch] = useState("");
+  const [editingId, setEditingId] = useState<Id | null>(null);
+  const [error, setError] = useState("");
+
+  const query = search.trim().toLowerCase();
+  const shown = members
+    .filter((member) => filter === "All" || member.role === filter)
+    .filter((member) => !query || `${member.fname} ${member.lname} ${member.position}`.toLowerCase().includes(query))
+    .sort((a, b) =>
+      TEAM_ROLES.indexOf(a.role) - TEAM_ROLES.indexOf(b.role) ||
+      (a.shirtNumber ?? MAX_SHIRT_NUMBER + 1) - (b.shirtNumber ?? MAX_SHIRT_NUMBER + 1)
+    );
+
+  const onRemove = (member: TeamMemberInfo) => {
+    if (!teamId || !window.confirm(`Remove ${member.fname} ${member.lname} from the team?`)) return;
+    setError("");
+    api.teams.removeMember(teamId, member.id)
+      .catch((error) => setError(error.message));
+  };
+
   return (
     <div className='rounded-half bg-grey-low px-5 py-5'>
       <header className='mb-7 flex flex-wrap items-center gap-x-4'>
         <ListBox
-          initValue='All'
           placeholder=' '
-          onChangeValue={() => {}}
+          selected={filter}
+          onChangeValue={setFilter}
+          renderFunc={(filter) => (filter === "All" ? "All" : `${filter}s`)}
           className='tranparent min-w-[3rem]'
-          data={["All", "1", "2", "3"]}
+          data={["All", ...TEAM_ROLES] as MemberFilter[]}
         />
         <div className='flex min-w-0 flex-[2.5] overflow-hidden rounded-half border border-grey-high'>
           <img className='mx-4 my-3 w-6' src={SearchIcon} />
@@ -58,121 +103,146 @@ function Members({members} : any) {
             className='flex-1 bg-transparent text-white'
             placeholder='Search for members'
             size={1}
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
           />
         </div>
       </header>
 
-      {
-        members.map((member: any) => {
-          if(member.role == "Captain") {
-            return(
-              <Row
-              memberPictureUrl={P02}
-              number={4}
-              name={member.fname + " " + member.lname}
-              tag={
-                <>
-                  <span className='ml-2.5 rounded-half bg-blue-high px-1.5 py-0.5 text-[0.8725rem] text-grey-high'>
-                    Captain
-                  </span>
-                </>
-              }
-            />
-            )
-          }
-          else if(member.role == "Admin") {
-            return(
-              <Row
-              memberPictureUrl={member.profilePic}
-              number={1}
-              name={member.fname + " " + member.lname}
-              tag={
-                <>
-                  <span className='ml-2.5 rounded-half bg-yellow px-1.5 py-0.5 text-[0.8725rem] text-grey-high'>
-                    Admin
-                  </span>
-                </>
-              }
-            />
-            )
-          }
-          else {
-            return(
-              <Row memberPictureUrl={P03} number={8} name={member.fname + " " + member.lname} />
-            )
-          }
-        })
-
-      }
-
-      {/*<Row
-        memberPictureUrl={P01}
-        number={1}
-        name='Andrew Chapman'
-        tag={
-          <>
-            <span className='ml-2.5 rounded-half bg-yellow px-1.5 py-0.5 text-[0.8725rem] text-grey-high'>
-              Admin
-            </span>
-          </>
-        }
-      />
-      <Row
-        memberPictureUrl={P02}
-        number={4}
-        name='Kaden Fane'
-        tag={
-          <>
-            <span className='ml-2.5 rounded-half bg-blue-high px-1.5 py-0.5 text-[0.8725rem] text-grey-high'>
-              C
-            </span>
-          </>
-        }
-      />
-      <Row memberPictureUrl={P03} number={8} name='David Goodman' />
-      <Row memberPictureUrl={P04} number={9} name='Edward Evans' />
-      <Row memberPictureUrl={P05} number={2} name='Jacques Babcock' />
-      <Row memberPictureUrl={P06} number={5} name='Juan Attwood' />
-      <Row memberPictureUrl={P07} number={12} name='Brendan Carroll' />
-      <Row memberPictureUrl={P08} number={10} name='Carlos Martin' />
-      <Row memberPictureUrl={P09} number={3} name='Anthony Cook' />
-      <Row memberPictureUrl={P10} number={7} name='Arnold Aldridge' />
-      <Row memberPictureUrl={P11} number={6} name='Samuel Moore' />
-      <Row memberPictureUrl={P12} number={11} name='Colin Miller' />
-
-      */}
+      {error && <p className='mb-2.5 text-sm text-pink'>{error}</p>}
+      {shown.length === 0 && (
+        <p className='py-2.5 text-sm text-grey-classic'>
+          {members.length === 0 ? "No members yet" : "No members found"}
+        </p>
+      )}
+
+      {shown.map((member) => (
+        <React.Fragment key={member.id}>
+          <Row
+            member={member}
+            onEdit={canManage && teamId ? () => setEditingId(member.id) : undefined}
+            onRemove={canManage && teamId ? () => onRemove(member) : undefined}
+          />
+          {teamId && editingId === member.id && (
+            <MemberEditor teamId={teamId} member={member} members={members} onClose={() => setEditingId(null)} />
+          )}
+        </React.Fragment>
+      ))}
     </div>
   );
 }
 
 interface RowProps {
-  memberPictureUrl: string;
-  number: number;
-  name: string;
-  tag?: React.ReactNode;
+  member: TeamMemberInfo;
+  onEdit?: () => void;
+  onRemove?: () => void;
 }
-function Row(props: RowProps) {
+function Row({ member, onEdit, onRemove }: RowProps) {
+  const tagColor = ROLE_TAG_COLORS[member.role];
   return (
     <div className='flex items-center py-2.5'>
-      <div className='h-10 w-10 overflow-hidden rounded-full'>
-        <img src={props.memberPictureUrl} />
+      <div className='h-10 w-10 flex-shrink-0 overflow-hidden rounded-full bg-grey-high'>
+        {member.profilePic && <img className='h-full w-full object-cover' src={member.profilePic} />}
       </div>
-      <div className='ml-[0.63rem] flex h-[2.1875rem] w-[2.1875rem] items-center justify-center overflow-hidden rounded-full bg-grey-high'>
-        {props.number}
+      <div className='ml-[0.63rem] flex h-[2.1875rem] w-[2.1875rem] flex-shrink-0 items-center justify-center overflow-hidden rounded-full bg-grey-high'>
+        {member.shirtNumber ?? "-"}
       </div>
       <div className='ml-4 min-w-0 flex-1 self-stretch'>
         <h2 className='font-medium leading-tight'>
-          {props.name}
-          {props.tag}
+          {member.fname} {member.lname}
+          {tagColor && (
+            <span className={cx("ml-2.5 rounded-half px-1.5 py-0.5 text-[0.8725rem] text-grey-high", tagColor)}>
+              {member.role}
+            </span>
+          )}
         </h2>
-        <p className='text-sm text-grey-classic'>RB / LB</p>
+        <p className='text-sm text-grey-classic'>{member.position || "-"}</p>
       </div>
-      <ActionsMenu />
+      <ActionsMenu onEdit={onEdit} onRemove={onRemove} />
     </div>
   );
 }
 
-function ActionsMenu() {
+interface MemberEditorProps {
+  teamId: Id;
+  member: TeamMemberInfo;
+  // The whole team, to check the shirt number isn't worn already
+  members: TeamMemberInfo[];
+  onClose: () => void;
+}
+
+function MemberEditor({ teamId, member, members, onClose }: MemberEditorProps) {
+  const [role, setRole] = useState<TeamRole>(member.role);
+  const [shirtNumber, setShirtNumber] = useState(member.shirtNumber?.toString() ?? "");
+  const [position, setPosition] = useState(member.position);
+  const [error, setError] = useState("");
+
+  const onSave = () => {
+    const number = shirtNumber.trim() === "" ? null : Number(shirtNumber);
+    if (number !== null && !(Number.isInteger(number) && number >= 0 && number <= MAX_SHIRT_NUMBER)) {
+      setError(`Shirt numbers go from 0 to ${MAX_SHIRT_NUMBER}`);
+      return;
+    }
+    const wearer = number !== null && members.find((other) => other.id !== member.id && other.shirtNumber === number);
+    if (wearer) {
+      setError(`Number ${number} is already worn by ${wearer.fname} ${wearer.lname}`);
+      return;
+    }
+
+    setError("");
+    api.teams.updateMember({ teamId, userId: member.id, role, shirtNumber: number, position: position.trim() })
+      .then(onClose)
+      .catch((error) => setError(error.message));
+  };
+
+  return (
+    <div className='mb-2.5 rounded-half border border-outline-2 px-4 py-3.5'>
+      <div className='flex flex-wrap items-center gap-2.5'>
+        <ListBox
+          placeholder='Role'
+          className='minimal min-w-[7.5rem]'
+          selected={role}
+          onChangeValue={setRole}
+          data={TEAM_ROLES}
+        />
+        <input
+          type='number'
+          min={0}
+          max={MAX_SHIRT_NUMBER}
+          value={shirtNumber}
+          onChange={(event) => setShirtNumber(event.target.value)}
+          className='w-20 rounded-half border border-grey-high bg-transparent px-3 py-2 text-white'
+          placeholder='No.'
+        />
+        <input
+          value={position}
+          onChange={(event) => setPosition(event.target.value)}
+          className='min-w-0 flex-1 rounded-half border border-grey-high bg-transparent px-3 py-2 text-white'
+          placeholder='Position, e.g. RB / LB'
+          size={1}
+        />
+      </div>
+      {error && <p className='mt-2.5 text-sm text-pink'>{error}</p>}
+      <div className='mt-2.5 flex gap-x-2.5'>
+        <button
+          onClick={onSave}
+          className='flex-1 rounded-half bg-blue-high py-2 font-medium text-dim-black hover:bg-blue-high/80'
+        >
+          Save
+        </button>
+        <button
+          onClick={onClose}
+          className='rounded-half border border-outline-2 px-5 py-2 text-grey-classic hover:bg-black/50'
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Edit and Remove are only offered to team admins
+function ActionsMenu({ onEdit, onRemove }: { onEdit?: () => void; onRemove?: () => void }) {
   const navigate = useNavigate();
 
   const m = useMenu();
@@ -206,12 +276,24 @@ function ActionsMenu() {
           >
             Add friend
           </Menu.Item>
-          <Menu.Item
-            as='li'
-            className='cursor-pointer rounded-half px-3 py-2 hover:bg-blue-high/10'
-          >
-            Remove
-          </Menu.Item>
+          {onEdit && (
+            <Menu.Item
+              as='li'
+              className='cursor-pointer rounded-half px-3 py-2 hover:bg-blue-high/10'
+              onClick={onEdit}
+            >
+              Edit role and number
+            </Menu.Item>
+          )}
+          {onRemove && (
+            <Menu.Item
+              as='li'
+              className='cursor-pointer rounded-half px-3 py-2 text-pink hover:bg-blue-high/10'
+              onClick={onRemove}
+            >
+              Remove
+            </Menu.Item>
+          )}
         </Menu.Items>
       </Transition>
     </Menu>
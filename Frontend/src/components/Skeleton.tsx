@@ -0,0 +1,23 @@
+import cx from "classnames";
+
+// Grey placeholder shown in place of content that is still loading. Size and
+// shape come from the className, e.g. 'h-4 w-32' or 'h-12 w-12 rounded-full'.
+export function Skeleton({ className }: { className?: string }) {
+  return (
+    <span
+      aria-hidden
+      className={cx("block animate-pulse rounded-half bg-grey-low", className)}
+    />
+  );
+}
+
+// A stack of placeholder rows, for lists and grids that are still loading
+export function SkeletonList({ count = 3, className }: { count?: number; className?: string }) {
+  return (
+    <div role='status' aria-label='Loading' className='flex flex-col gap-y-3'>
+      {Array.from({ length: count }, (_, index) => (
+        <Skeleton key={index} className={cx("h-16 w-full rounded-card", className)} />
+      ))}
+    </div>
+  );
+}
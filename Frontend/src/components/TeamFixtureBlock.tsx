@@ -0,0 +1,78 @@
+import React from "react";
+import cx from "classnames";
+import type { EventTeam } from "api";
+import type { FixtureStatus } from "types/domain";
+import { ClockIcon } from "components/adaptive-icons/PinMarker";
+import { PinMarkerIcon } from "components/adaptive-icons/Clock";
+import { eventStart, formatLongDay, formatTime, useHourCycle } from "utils/datetime";
+import type { TimedEvent } from "utils/datetime";
+import Team1 from "assets/team-1.png";
+import Team2 from "assets/team-2.png";
+
+// A match as the fixture cards show it. `opponentStatus` is left out where
+// only accepted opponents are listed.
+export type FixtureCardEvent = TimedEvent & {
+  location: string;
+  team: EventTeam | null;
+  opponent: EventTeam | null;
+  opponentStatus?: FixtureStatus | null;
+};
+
+function TeamName({ team, fallback, src }: { team: EventTeam | null; fallback: string; src: string }) {
+  return (
+    <>
+      <div className='flex-shrink-0 overflow-hidden rounded-full'>
+        <img className='h-7 w-7 object-cover' src={team?.profilePic || src} />
+      </div>
+      <span className={cx("min-w-0 overflow-hidden text-ellipsis whitespace-nowrap", !team && "text-grey-subtle")}>
+        {team?.name ?? fallback}
+      </span>
+    </>
+  );
+}
+
+// The two teams of a match with where and when it is played. `children` go in
+// the bottom right corner, e.g. a button to share it.
+export function TeamFixtureBlock({ fixture, className, children }: React.PropsWithChildren<{ fixture: FixtureCardEvent; className?: string }>) {
+  const [hourCycle] = useHourCycle();
+  const start = eventStart(fixture);
+  // A team that turned the match down isn't playing it
+  const opponent = fixture.opponentStatus === "Declined" ? null : fixture.opponent;
+
+  return (
+    <div className={cx("min-w-0 flex-1 overflow-hidden rounded-half bg-grey-low p-5", className)}>
+      <div className='flex items-center gap-x-2 border-b border-outline-2 pb-5'>
+        <TeamName team={fixture.team} fallback='Home' src={Team1} />
+        <p className='mx-2 flex-1 text-center text-grey-subtle'>V</p>
+        <div className='flex min-w-0 flex-row-reverse items-center gap-x-2'>
+          <TeamName team={opponent} fallback='To be confirmed' src={Team2} />
+        </div>
+      </div>
+
+      <div className='relative mt-5'>
+        <p className='mb-1 flex items-center gap-x-2.5'>
+          <PinMarkerIcon className='flex-shrink-0 text-blue-high' />
+
+          <span className='min-w-0 overflow-hidden text-ellipsis font-semibold text-dim-white'>
+            {fixture.location}
+          </span>
+        </p>
+        <p className='flex items-center gap-x-2.5 text-dim-white'>
+          <ClockIcon className='flex-shrink-0 text-blue-high' />
+
+          <span className='min-w-0 overflow-hidden text-ellipsis text-fine text-dim-white'>
+            {formatLongDay(start)} {formatTime(start, hourCycle)}
+          </span>
+        </p>
+        {fixture.opponentStatus === "Pending" && fixture.opponent && (
+          <p className='mt-1 text-fine text-yellow'>Waiting for {fixture.opponent.name} to accept</p>
+        )}
+        {fixture.opponentStatus === "Declined" && fixture.opponent && (
+          <p className='mt-1 text-fine text-pink'>{fixture.opponent.name} declined the match</p>
+        )}
+
+        {children}
+      </div>
+    </div>
+  );
+}
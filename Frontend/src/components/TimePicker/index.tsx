@@ -1,22 +1,33 @@
-import { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useState } from "react";
+import { formatHour, useHourCycle } from "utils/datetime";
 import "./styles.css"
 
-export function TimePicker(props: any) {
-  const { setSelectedTime, outSideClickFunc, startTime } = props;
-	const [selectedHour, setSelectedHour] = useState("00")
-	const [selectedMin, setSelectedMin] = useState("00")
+interface TimePickerProps {
+  // Called with the picked time as "HH:MM"
+  setSelectedTime: (time: string) => void;
+  outSideClickFunc: (open: boolean) => void;
+  // Times before this one ("HH:MM") can't be picked
+  startTime?: string;
+  // The time picked before, "HH:MM"
+  value?: string;
+}
+export function TimePicker(props: TimePickerProps) {
+  const { setSelectedTime, outSideClickFunc, startTime, value } = props;
+	const [hourCycle] = useHourCycle()
+	const [selectedHour, setSelectedHour] = useState(value?.split(":")[0] || "00")
+	const [selectedMin, setSelectedMin] = useState(value?.split(":")[1] || "00")
 	const [lowHour, setLowHour] = useState(0)
 	const [lowMin, setLowMin] = useState(0)
 	const hourArr = Array.from({length: 24})
 	const minArr = Array.from({length: 60})
 
-	function useOutsideAlerter(ref) {
+	function useOutsideAlerter(ref: React.RefObject<HTMLDivElement>) {
     useEffect(() => {
       /**
        * Alert if clicked on outside of element
        */
-      function handleClickOutside(event) {
-        if (ref.current && !ref.current.contains(event.target)) {
+      function handleClickOutside(event: MouseEvent) {
+        if (ref.current && !ref.current.contains(event.target as Node)) {
             outSideClickFunc(false);
         }
       }
@@ -62,7 +73,7 @@ export function TimePicker(props: any) {
 		setSelectedTime(`${strHour}:${strMin}`)
 	}
 
-  const wrapperRef = useRef(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
 	useOutsideAlerter(wrapperRef);
 	
   return (
@@ -71,8 +82,8 @@ export function TimePicker(props: any) {
 				{
 					hourArr.map((_, index) =>
 						lowHour <= index
-							? <span className="time-cell cursor-default" onClick={() => setTime(index.toString(), selectedMin)}>{index < 10 ? `0${index}` : index}</span>
-							: <span className="time-cell disable-time-cell cursor-default">{index < 10 ? `0${index}` : index}</span>
+							? <span className="time-cell cursor-default" onClick={() => setTime(index.toString(), selectedMin)}>{formatHour(index, hourCycle)}</span>
+							: <span className="time-cell disable-time-cell cursor-default">{formatHour(index, hourCycle)}</span>
 					)
 				}
 			</div>
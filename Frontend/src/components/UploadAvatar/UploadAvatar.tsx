@@ -1,6 +1,10 @@
 import "./styles.css";
 
-export function UploadAvatar({profilePicPath, onClick} : any) {
+interface UploadAvatarProps {
+  profilePicPath: string;
+  onClick: () => void;
+}
+export function UploadAvatar({profilePicPath, onClick} : UploadAvatarProps) {
   return (
     <>
     {profilePicPath == "" ? (
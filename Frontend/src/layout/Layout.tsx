@@ -1,10 +1,10 @@
 import React, { Component, useEffect, useState } from "react";
 import "./styles.css";
 import { Outlet, useLocation, useNavigate } from "react-router-dom";
-import BarLoader from "react-spinners/BarLoader";
 import { Menu, Transition } from "@headlessui/react";
 import { commonTransitionProps } from "components/PanelTransition";
 import { NotificationsTarget } from "./Notifications";
+import type { AppNotification } from "./Notifications";
 import { Sidebar } from "./Sidebar";
 import profileDownArrow from "assets/profile-down-arrow.svg";
 import profileImg from "assets/profile.jpg";
@@ -12,9 +12,14 @@ import Hamburger from "assets/hamburger.svg";
 import { useMenu } from "utils";
 import * as icons from "./icons";
 import { ConnectWalletButton } from "../components/ConnectWalletButton/ConnectWalletButton";
+import { Skeleton } from "components/Skeleton";
+import { api, useQuery } from "api";
+import type { CurrentUser, EventNotice, EventSummary, Fixture, FriendRequest, PendingResult } from "api";
+import { useAuth } from "auth";
 
 function UserMenuContent() {
     const navigate = useNavigate();
+    const { logout } = useAuth();
     return (
         <>
             <Menu.Item
@@ -35,10 +40,7 @@ function UserMenuContent() {
             <Menu.Item
                 as='li'
                 className='flex cursor-pointer items-center gap-x-3.5 rounded-half px-4 py-3 hover:bg-blue-high/10'
-                onClick={() => {
-                    window.localStorage.clear();
-                    window.location.href = "../../login";
-                }}
+                onClick={logout}
             >
                 <icons.Logout />
                 Log Out
@@ -71,12 +73,21 @@ function UserMenuTarget({ children }: React.PropsWithChildren) {
     );
 }
 
-function UserProfile({userData} : any) {
+function UserProfile({userData, loading} : {userData: CurrentUser | null; loading: boolean}) {
+    if (loading) {
+        return (
+            <>
+                <Skeleton className='ml-8 h-5 w-28' />
+                <Skeleton className='ml-6 h-7 w-7 rounded-full' />
+            </>
+        );
+    }
+
     return (
         <>
             <UserMenuTarget>
                 <p className='ml-8 box-content flex cursor-pointer select-none items-center rounded-md p-2 transition-colors hover:bg-blue-high/10'>
-                    {userData.fname} {userData.lname}
+                    {userData?.fname} {userData?.lname}
                     <img className='ml-1' src={profileDownArrow} />
                 </p>
             </UserMenuTarget>
@@ -91,138 +102,76 @@ function UserProfile({userData} : any) {
     );
 }
 
+const NO_EVENTS: EventSummary[] = [];
+const NO_EVENT_NOTICES: EventNotice[] = [];
+const NO_PENDING_RESULTS: PendingResult[] = [];
+const NO_FIXTURE_REQUESTS: Fixture[] = [];
+const NO_FRIEND_REQUESTS: FriendRequest[] = [];
+
 export function Layout() {
     let [open, setOpen] = React.useState(false);
 
-    const [loaded, setLoaded] = useState(false);
-
-    const [userData, setUserData] = useState("");
-    const [events, setEvents] = useState([]);
-    const [friendRequests, setFriendRequests] = useState([]);
-
-    const [admin, setAdmin] = useState(false);
-
-    useEffect(() => {
-        fetch("http://127.0.0.1:5001/getUserData", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Accept: "application/json",
-                "Access-Control-Allow-Origin": "*",
-            },
-            body: JSON.stringify({
-                token: window.localStorage.getItem("token"),
-            }),
-        })
-            .then((res) => res.json())
-            .then((data) => {
-                if (data.data.userType == "Admin") {
-                    setAdmin(true);
-                }
-
-                setUserData(data.data);
-
-                if (data.data == "token expired") {
-                    if (window.location.pathname !== "/login") {
-                        window.localStorage.clear();
-                        window.location.href = "../../login";
-                    }
-                }
-
-            });
-
-    }, []);
-
-    useEffect(() => {
-        if(!userData) return;
-
-        fetch("http://127.0.0.1:5001/getEvents", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Accept: "application/json",
-                "Access-Control-Allow-Origin": "*",
-            },
-            body: JSON.stringify({
-                token: window.localStorage.getItem("token"),
-                status: "Pending Invite"
-            }),
-        })
-            .then((res) => res.json())
-            .then((data) => {
-                if (data.data == "token expired") {
-                    return;
-                }
-                setEvents(data.data);
-            });
-    }, [userData]);
-
-    useEffect(() => {
-        if(!events) return;
+    const { user: userData, loading } = useAuth();
 
-        fetch("http://127.0.0.1:5001/getFriendRequests", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Accept: "application/json",
-                "Access-Control-Allow-Origin": "*",
-            },
-            body: JSON.stringify({
-                token: window.localStorage.getItem("token"),
-            }),
-        })
-            .then((res) => res.json())
-            .then((data) => {
-                setLoaded(true);
+    // Only the stored token is needed for these, so they go out alongside
+    // /getUserData instead of waiting for it
+    const hasSession = loading || userData !== null;
 
-                if (data.data == "token expired") {
-                    return;
-                }
-                setFriendRequests(data.data);
-            });
-    }, [events]);
+    // Pending invites, friend requests, cancelled or moved events, match
+    // results to record or confirm and challenges from other teams end up in
+    // the notifications menu
+    const invites = useQuery(api.events.list, hasSession ? [{ status: "Pending Invite" }] : null);
+    const requests = useQuery(api.friends.requests, hasSession ? [] : null);
+    const notices = useQuery(api.events.notices, hasSession ? [] : null);
+    const results = useQuery(api.events.pendingResults, hasSession ? [] : null);
+    const fixtureRequests = useQuery(api.events.fixtureRequests, hasSession ? [] : null);
 
     return (
         <>
-            {!loaded && (
-                <BarLoader color="#5ce5e2"
-                           cssOverride={{
-                               display: "block",
-                               margin: "10vh auto",
-                               borderColor: "red",
-                           }}
-                />
-            )}
-            {loaded && (
-                <>
-                    <LayoutSidebar open={open} setOpen={setOpen} userData={userData} />
-                    <ContentPane setOpen={setOpen} userData={userData} events={events} friendRequests={friendRequests} />
-                </>
-            )}
+            <LayoutSidebar open={open} setOpen={setOpen} userData={userData} userLoading={loading} />
+            <ContentPane
+                setOpen={setOpen}
+                userData={userData}
+                userLoading={loading}
+                events={invites.data ?? NO_EVENTS}
+                friendRequests={requests.data ?? NO_FRIEND_REQUESTS}
+                eventNotices={notices.data ?? NO_EVENT_NOTICES}
+                pendingResults={results.data ?? NO_PENDING_RESULTS}
+                fixtureRequests={fixtureRequests.data ?? NO_FIXTURE_REQUESTS}
+                notificationsLoading={invites.loading || requests.loading || notices.loading || results.loading || fixtureRequests.loading}
+            />
         </>
     );
 }
 
-function ContentPane({ setOpen, userData, events, friendRequests }: any) {
+interface ContentPaneProps {
+    setOpen: (open: boolean) => void;
+    userData: CurrentUser | null;
+    userLoading: boolean;
+    events: EventSummary[];
+    friendRequests: FriendRequest[];
+    eventNotices: EventNotice[];
+    pendingResults: PendingResult[];
+    fixtureRequests: Fixture[];
+    notificationsLoading: boolean;
+}
+
+function ContentPane({ setOpen, userData, userLoading, events, friendRequests, eventNotices, pendingResults, fixtureRequests, notificationsLoading }: ContentPaneProps) {
     const [title, setTitle] = React.useState<React.ReactNode>(null);
     const [actions, setActions] = React.useState<React.ReactNode>(null);
-    const [notifications, setNotifications] = useState([]);
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
 
     useEffect(() => {
-        // Set type in events array to "eventInvite"
-        events.forEach((event: any) => {
-            event.type = "eventInvite";
-        });
-
-        // Set type in friend requests array to "friendRequest"
-        friendRequests.forEach((friendRequest: any) => {
-            friendRequest.type = "friendRequest";
-        });
-
-        // Combine events and friend requests into notifications array
-        let notificationsTemp = events.concat(friendRequests);
+        // Combine event notices, event invites and friend requests into one notifications array
+        let notificationsTemp: AppNotification[] = [
+            ...eventNotices.map((notice) => ({ ...notice, type: "eventNotice" as const })),
+            ...pendingResults.map((result) => ({ ...result, type: "eventResult" as const })),
+            ...fixtureRequests.map((fixture) => ({ ...fixture, type: "fixtureRequest" as const })),
+            ...events.map((event) => ({ ...event, type: "eventInvite" as const })),
+            ...friendRequests.map((friendRequest) => ({ ...friendRequest, type: "friendRequest" as const }))
+        ];
         setNotifications(notificationsTemp)
-    }, [events, friendRequests])
+    }, [events, friendRequests, eventNotices, pendingResults, fixtureRequests])
 
     return (
         <section className='flex max-h-full min-h-full min-w-0 max-w-full flex-1 flex-col overflow-y-auto overflow-x-hidden bg-sheet desktop:overflow-y-hidden'>
@@ -246,9 +195,13 @@ function ContentPane({ setOpen, userData, events, friendRequests }: any) {
 
                 <div className='flex flex-1 items-center justify-end'>
                     <ConnectWalletButton />
-                    <NotificationsTarget notifications={notifications} setNotifications={setNotifications} />
+                    <NotificationsTarget
+                        notifications={notifications}
+                        setNotifications={setNotifications}
+                        loading={notificationsLoading}
+                    />
                     <div className='hidden items-center desktop:flex'>
-                        <UserProfile userData={userData} />
+                        <UserProfile userData={userData} loading={userLoading} />
                     </div>
                 </div>
             </header>
@@ -260,7 +213,14 @@ function ContentPane({ setOpen, userData, events, friendRequests }: any) {
     );
 }
 
-function LayoutSidebar({ open, setOpen, userData }: any) {
+interface LayoutSidebarProps {
+    open: boolean;
+    setOpen: (open: boolean) => void;
+    userData: CurrentUser | null;
+    userLoading: boolean;
+}
+
+function LayoutSidebar({ open, setOpen, userData, userLoading }: LayoutSidebarProps) {
     const location = useLocation();
 
     React.useEffect(() => {
@@ -278,7 +238,7 @@ function LayoutSidebar({ open, setOpen, userData }: any) {
                 />
             )}
             <aside id='sidebar' className='self-stretch' data-app-open={open}>
-                <Sidebar userData={userData} />
+                <Sidebar userData={userData} loading={userLoading} />
             </aside>
         </>
     );
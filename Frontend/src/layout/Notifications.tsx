@@ -1,6 +1,7 @@
 import React, {Component, useEffect, useState} from 'react';
 import cx from "classnames";
 import { Popover } from "@headlessui/react";
+import { Link } from "react-router-dom";
 import { usePopper } from "react-popper";
 import * as icons from "./icons";
 import DialogCross from "assets/dialog-cross.svg";
@@ -10,9 +11,35 @@ import Profile4 from "assets/profile-4.png";
 import Profile5 from "assets/profile-5.png";
 import Team3 from "assets/team-3.png";
 import { UploadDialogTrigger } from "./UploadDialog";
+import { api } from "api";
+import type { BusyEvent, EventNotice, EventScore, EventSummary, EventTeam, Fixture, FriendRequest, PendingResult } from "api";
+import type { EventChangeField, EventNoticeKind, Id } from "types/domain";
+import { Skeleton, SkeletonList } from "components/Skeleton";
+import { eventStart, formatClock, formatDay, formatEventTimes, useHourCycle } from "utils/datetime";
+import { findConflicts } from "utils/conflicts";
+import type { Conflict } from "utils/conflicts";
+import { ConflictList } from "components/ConflictList";
+
+// Pending event invites, friend requests, cancelled or moved events, results
+// and challenges from other teams, shown in the same list
+export type AppNotification =
+  | (EventSummary & { type: "eventInvite" })
+  | (FriendRequest & { type: "friendRequest" })
+  | (EventNotice & { type: "eventNotice" })
+  | (PendingResult & { type: "eventResult" })
+  | (Fixture & { type: "fixtureRequest" });
+
+interface NotificationsProps {
+  notifications: AppNotification[];
+  setNotifications: (notifications: AppNotification[]) => void;
+}
 
+interface NotificationsTargetProps extends NotificationsProps {
+  // True until the invites and friend requests came back
+  loading: boolean;
+}
 
-export function NotificationsTarget({notifications, setNotifications} : any) {
+export function NotificationsTarget({notifications, setNotifications, loading} : NotificationsTargetProps) {
   let [referenceElem, setReferenceElem] = useState();
   let [floatingElement, setFloatingElement] = useState();
 
@@ -50,7 +77,7 @@ export function NotificationsTarget({notifications, setNotifications} : any) {
           "nd:top-auto nd:bottom-auto nd:left-auto"
         )}
       >
-        <NotificationsBox notifications={notifications} setNotifications={setNotifications} />
+        <NotificationsBox notifications={notifications} setNotifications={setNotifications} loading={loading} />
       </Popover.Panel>
     </Popover>
   );
@@ -91,7 +118,80 @@ function EmbeddedNotificationContent(p: React.PropsWithChildren) {
   );
 }
 
-function NotificationsBox({notifications, setNotifications} : any) {
+const eventNoticeTitles: Record<EventNoticeKind, string> = {
+    "Cancelled": "Event Cancelled: ",
+    "Updated": "Event Changed: ",
+    "Promoted": "Off the waitlist: ",
+    "Result": "Final Result: ",
+    "Fixture": "Challenge Answered: "
+};
+
+// Both teams of a match, with the score once one was recorded
+function MatchScore({ match }: { match: { team: EventTeam; opponent: EventTeam | null; result: EventScore | null } }) {
+  return (
+    <EmbeddedNotificationContent>
+      <div className='flex items-center gap-x-3'>
+        <img className='h-7.5 w-7.5 rounded-full object-cover' src={match.team.profilePic || Team3} />
+        <p className='min-w-0 flex-1 overflow-hidden text-ellipsis whitespace-nowrap text-sm font-semibold'>{match.team.name}</p>
+        <p className='shrink-0 font-semibold text-dim-white'>
+          {match.result ? `${match.result.home} - ${match.result.away}` : "vs"}
+        </p>
+        <p className='min-w-0 flex-1 overflow-hidden text-ellipsis whitespace-nowrap text-right text-sm font-semibold'>
+          {match.opponent?.name ?? "Opponent"}
+        </p>
+        <img className='h-7.5 w-7.5 rounded-full object-cover' src={match.opponent?.profilePic || Team3} />
+      </div>
+    </EmbeddedNotificationContent>
+  );
+}
+
+// When and where a cancelled or moved event takes place. Fields that moved are
+// highlighted next to their old value. Times are the ones at the venue.
+function EventNoticeDetails({ notice }: { notice: EventNotice }) {
+  const [hourCycle] = useHourCycle();
+
+  function field(name: EventChangeField, value: string) {
+    const show = (text: string) => (name === "startTime" || name === "endTime" ? formatClock(text, hourCycle) : text);
+    const change = notice.changes.find((change) => change.field === name);
+    if (!change) return show(value);
+    return (
+      <span className='text-yellow'>
+        {change.previous && <s className='mr-1 text-grey-subtle'>{show(change.previous)}</s>}
+        {show(value)}
+      </span>
+    );
+  }
+
+  return (
+    <EmbeddedNotificationContent>
+      {notice.result && (
+        <p className='mb-1 text-sm font-semibold text-dim-white'>
+          Final score {notice.result.home} - {notice.result.away}
+        </p>
+      )}
+      {notice.fixture && (
+        <p className={cx("mb-1 text-sm font-semibold", notice.fixture.status === "Declined" ? "text-pink" : "text-dim-white")}>
+          {notice.fixture.opponent.name} {notice.fixture.status === "Declined" ? "declined" : "accepted"} the match
+        </p>
+      )}
+      <p className='text-sm text-grey-grain'>
+        {field("date", notice.date)} | {field("startTime", notice.startTime)} - {field("endTime", notice.endTime)}
+      </p>
+      <p className='mt-1 text-sm text-dim-white'>{field("location", notice.location)}</p>
+    </EmbeddedNotificationContent>
+  );
+}
+
+function NotificationsBox({notifications, setNotifications, loading} : NotificationsTargetProps) {
+  if (loading) {
+    return (
+      <>
+        <Skeleton className='mb-5 h-5 w-36 d:bg-grey-high' />
+        <SkeletonList className='d:bg-grey-high' />
+      </>
+    );
+  }
+
   return (
     <>
       <h1 className='mb-5 text-lg font-bold desktop:text-base desktop:font-normal'>
@@ -104,14 +204,19 @@ function NotificationsBox({notifications, setNotifications} : any) {
   );
 }
 
-function NotificationList({notifications, setNotifications} : any) {
+function NotificationList({notifications, setNotifications} : NotificationsProps) {
+  const [hourCycle] = useHourCycle();
+  // Invites clashing with events the user is going to, by event id
+  const [clashes, setClashes] = useState<Record<Id, Conflict[]>>({});
+  // Why the last answer failed, the notification stays in the list
+  const [error, setError] = useState("");
 
-  function diffBetweenDatesInSecs(date1: any, date2: any) {
-    const diffInMs = Math.abs(date2 - date1);
+  function diffBetweenDatesInSecs(date1: Date, date2: Date) {
+    const diffInMs = Math.abs(date2.getTime() - date1.getTime());
     return diffInMs / 1000;
   }
 
-  function formatSecsToTime(secs: any) {
+  function formatSecsToTime(secs: number) {
     const days = Math.floor(secs / 86400);
     const hours = Math.floor(secs / 3600);
     const minutes = Math.floor((secs % 3600) / 60);
@@ -139,131 +244,84 @@ function NotificationList({notifications, setNotifications} : any) {
 
   }
 
-  function handleAcceptFriendRequest(id) {
-
-      fetch("http://127.0.0.1:5001/acceptFriendRequest", {
-              method: "POST",
-              crossDomain: true,
-              headers: {
-                  "Content-Type": "application/json",
-                  Accept: "application/json",
-                  "Access-Control-Allow-Origin": "*",
-              },
-              body: JSON.stringify({
-                  token: window.localStorage.getItem("token"),
-                  friendId: id,
-              }),
-          })
-          .then((res) => res.json())
-          .then((data) => {
-              if (data.data == "token expired") {
-                  window.localStorage.clear();
-                  window.location.href = "../../../login";
-              } else {
-                  // Remove the notification from the array
-                  let newNotifications = notifications.filter((notification) => {
-                      return notification.id != id;
-                  });
-                  setNotifications(newNotifications);
-              }
-          }
-      );
+  // An event can have both an invite and a notice, so the type is needed too
+  function removeNotification(id: Id, type: AppNotification["type"]) {
+      // Remove the notification from the array
+      let newNotifications = notifications.filter((notification) => {
+          return notification.id != id || notification.type != type;
+      });
+      setNotifications(newNotifications);
+  }
 
+  function handleAcceptFriendRequest(id: Id) {
+      setError("");
+      api.friends.accept(id)
+          .then(() => removeNotification(id, "friendRequest"))
+          .catch((error) => setError(error.message));
   }
 
-  function handleRejectFriendRequest(id) {
-      fetch("http://127.0.0.1:5001/rejectFriendRequest", {
-              method: "POST",
-              crossDomain: true,
-              headers: {
-                  "Content-Type": "application/json",
-                  Accept: "application/json",
-                  "Access-Control-Allow-Origin": "*",
-              },
-              body: JSON.stringify({
-                  token: window.localStorage.getItem("token"),
-                  friendId: id,
-              }),
-          })
-          .then((res) => res.json())
-          .then((data) => {
-              if (data.data == "token expired") {
-                  window.localStorage.clear();
-                  window.location.href = "../../../login";
-              } else {
-                  // Remove the notification from the array
-                  let newNotifications = notifications.filter((notification) => {
-                      return notification.id != id;
-                  });
-                  setNotifications(newNotifications);
-              }
-          }
-      );
+  function handleRejectFriendRequest(id: Id) {
+      setError("");
+      api.friends.reject(id)
+          .then(() => removeNotification(id, "friendRequest"))
+          .catch((error) => setError(error.message));
   }
 
-  function handleAcceptEventInvite(id) {
-      fetch("http://127.0.0.1:5001/acceptEventInvite", {
-              method: "POST",
-              crossDomain: true,
-              headers: {
-                  "Content-Type": "application/json",
-                  Accept: "application/json",
-                  "Access-Control-Allow-Origin": "*",
-              },
-              body: JSON.stringify({
-                  token: window.localStorage.getItem("token"),
-                  eventId: id,
-              }),
-          })
-          .then((res) => res.json())
-          .then((data) => {
-              if (data.data == "token expired") {
-                  window.localStorage.clear();
-                  window.location.href = "../../../login";
-              } else {
-                  // Remove the notification from the array
-                  let newNotifications = notifications.filter((notification) => {
-                      return notification.id != id;
-                  });
-                  setNotifications(newNotifications);
-              }
-          }
-      );
+  function acceptEventInvite(id: Id) {
+      setError("");
+      api.events.accept(id)
+          .then(() => removeNotification(id, "eventInvite"))
+          .catch((error) => setError(error.message));
   }
 
-  function handleRejectEventInvite(id) {
-      fetch("http://127.0.0.1:5001/rejectEventInvite", {
-              method: "POST",
-              crossDomain: true,
-              headers: {
-                  "Content-Type": "application/json",
-                  Accept: "application/json",
-                  "Access-Control-Allow-Origin": "*",
-              },
-              body: JSON.stringify({
-                  token: window.localStorage.getItem("token"),
-                  eventId: id,
-              }),
-          })
-          .then((res) => res.json())
-          .then((data) => {
-              if (data.data == "token expired") {
-                  window.localStorage.clear();
-                  window.location.href = "../../../login";
-              } else {
-                  // Remove the notification from the array
-                  let newNotifications = notifications.filter((notification) => {
-                      return notification.id != id;
-                  });
-                  setNotifications(newNotifications);
-              }
-          }
-      );
+  // Clashes are listed first, accepting again goes ahead anyway
+  function handleAcceptEventInvite(invite: EventSummary) {
+      if (clashes[invite.id]) {
+          acceptEventInvite(invite.id);
+          return;
+      }
+      api.events.busy({ userIds: [] })
+          // Clashes are only a warning, accepting goes ahead without the check
+          .catch((): BusyEvent[] => [])
+          .then((busy) => {
+              const found = findConflicts(invite, busy);
+              if (found.length > 0) setClashes({ ...clashes, [invite.id]: found });
+              else acceptEventInvite(invite.id);
+          });
+  }
+
+  function handleRejectEventInvite(id: Id) {
+      setError("");
+      api.events.reject(id)
+          .then(() => removeNotification(id, "eventInvite"))
+          .catch((error) => setError(error.message));
+  }
+
+  function handleAnswerResult(id: Id, confirm: boolean) {
+      setError("");
+      api.events.answerResult({ eventId: id, confirm })
+          .then(() => removeNotification(id, "eventResult"))
+          .catch((error) => setError(error.message));
+  }
+
+  function handleAnswerFixture(id: Id, accept: boolean) {
+      setError("");
+      api.events.answerFixture({ eventId: id, accept })
+          .then(() => removeNotification(id, "fixtureRequest"))
+          .catch((error) => setError(error.message));
+  }
+
+  function handleDismissEventNotice(id: Id) {
+      setError("");
+      api.events.dismissNotice(id)
+          .then(() => removeNotification(id, "eventNotice"))
+          .catch((error) => setError(error.message));
   }
 
 
   return (
     <>
+    {error && <p className='mb-2.5 text-sm text-pink'>{error}</p>}
     {notifications.length > 0 ? (
         notifications.map((notification, index) => {
             if(notification.type == "friendRequest") {
@@ -288,37 +346,121 @@ function NotificationList({notifications, setNotifications} : any) {
                   </div>
                 </Notification>
               )
-            } else if(notification.type == "eventInvite"){
+            } else if(notification.type == "eventResult") {
+              const confirming = notification.action === "confirm";
+              return(
+                <Notification
+                  key={index}
+                  title={
+                    <>
+                      {confirming ? "Confirm Result: " : notification.result?.status === "Disputed" ? "Result Disputed: " : "Event Ended: "}
+                      <Popover.Button as={Link} to={"/events/" + notification.id} className='text-blue-high hover:underline'>
+                        {notification.name}
+                      </Popover.Button>
+                    </>
+                  }
+                  profileSrc={notification.team.profilePic || Team3}
+                  time={formatEventTimes(notification, hourCycle) + " " + formatDay(eventStart(notification))}
+                >
+                  <MatchScore match={notification} />
+                  <div className='mt-3 flex gap-x-2.5'>
+                    {confirming ? (
+                      <>
+                        <button onClick={() => handleAnswerResult(notification.id, false)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-grey-high px-1.5 py-1.5 text-white hover:bg-blue-high/10 desktop:px-3'>
+                          Decline
+                        </button>
+                        <button onClick={() => handleAnswerResult(notification.id, true)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-blue-high px-1.5 py-1.5 text-sheet hover:bg-blue-high/80 desktop:px-3'>
+                          Approve Result
+                        </button>
+                      </>
+                    ) : (
+                      <UploadDialogTrigger event={notification}>
+                        <button className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-blue-high px-1.5 py-1.5 text-sheet hover:bg-blue-high/80 desktop:px-3'>
+                          Upload Result
+                        </button>
+                      </UploadDialogTrigger>
+                    )}
+                  </div>
+                </Notification>
+              )
+            } else if(notification.type == "fixtureRequest") {
+              return(
+                <Notification
+                  key={index}
+                  title={
+                    <>
+                      <span className='text-blue-high'>{notification.team.name}</span> challenged{" "}
+                      {notification.opponent?.name ?? "your team"}:{" "}
+                      <Popover.Button as={Link} to={"/events/" + notification.id} className='text-blue-high hover:underline'>
+                        {notification.name}
+                      </Popover.Button>
+                    </>
+                  }
+                  profileSrc={notification.team.profilePic || Team3}
+                  time={formatEventTimes(notification, hourCycle) + " " + formatDay(eventStart(notification))}
+                >
+                  <MatchScore match={notification} />
+                  <p className='mt-2 text-sm text-dim-white'>{notification.location}</p>
+                  <div className='mt-3 flex gap-x-2.5'>
+                    <button onClick={() => handleAnswerFixture(notification.id, false)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-grey-high px-1.5 py-1.5 text-white hover:bg-blue-high/10 desktop:px-3'>
+                      Decline
+                    </button>
+                    <button onClick={() => handleAnswerFixture(notification.id, true)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-blue-high px-1.5 py-1.5 text-sheet hover:bg-blue-high/80 desktop:px-3'>
+                      Accept
+                    </button>
+                  </div>
+                </Notification>
+              )
+            } else if(notification.type == "eventNotice") {
               return(
                 <Notification
                   key={index}
                   title={
                     <>
-                      Event Invite: <span className='text-blue-high'>{notification.name}</span>
+                      {eventNoticeTitles[notification.notice]}
+                      <Popover.Button as={Link} to={"/events/" + notification.id} className='text-blue-high hover:underline'>
+                        {notification.name}
+                      </Popover.Button>
                     </>
                   }
                   profileSrc={Profile3}
-                  time={notification.startTime + " - " + notification.endTime + " " + notification.date}
+                  time={formatSecsToTime(diffBetweenDatesInSecs(new Date(), new Date(notification.noticeAt))) + " ago"}
+                >
+                  <EventNoticeDetails notice={notification} />
+                  <div className='mt-3 flex gap-x-2.5'>
+                    <button onClick={() => handleDismissEventNotice(notification.id)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-grey-high px-1.5 py-1.5 text-white hover:bg-blue-high/10 desktop:px-3'>
+                      Dismiss
+                    </button>
+                  </div>
+                </Notification>
+              )
+            } else {
+              return(
+                <Notification
+                  key={index}
+                  title={
+                    <>
+                      Event Invite:{" "}
+                      <Popover.Button as={Link} to={"/events/" + notification.id} className='text-blue-high hover:underline'>
+                        {notification.name}
+                      </Popover.Button>
+                    </>
+                  }
+                  profileSrc={Profile3}
+                  time={formatEventTimes(notification, hourCycle) + " " + formatDay(eventStart(notification))}
                 >
                   <div className='mt-3 flex gap-x-2.5'>
                     <button onClick={() => handleRejectEventInvite(notification.id)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-grey-high px-1.5 py-1.5 text-white hover:bg-blue-high/10 desktop:px-3'>
                       Decline
                     </button>
-                    <button onClick={() => handleAcceptEventInvite(notification.id)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-blue-high px-1.5 py-1.5 text-sheet hover:bg-blue-high/80 desktop:px-3'>
-                      Accept
+                    <button onClick={() => handleAcceptEventInvite(notification)} className='flex min-w-[7.5rem] items-center justify-center rounded-half bg-blue-high px-1.5 py-1.5 text-sheet hover:bg-blue-high/80 desktop:px-3'>
+                      {clashes[notification.id] ? "Accept anyway" : "Accept"}
                     </button>
                   </div>
+                  {clashes[notification.id] && <ConflictList conflicts={clashes[notification.id]} className='mt-3' />}
                 </Notification>
               )
 
-            } else {
-                return (
-                    <div key={index} className="card bg-transparent-card w-100 border-0 ps-5 mb-3">
-                        <img src="assets/images/user.png" alt="user" className="w40 position-absolute left-0" />
-                        <h5 className="font-xsss text-grey-900 mb-1 mt-0 fw-700 d-block">{notification.fname} {notification.lname}<span className="text-grey-400 font-xsssss fw-600 float-right mt-1"> {notification.time}</span></h5>
-                        <h6 className="text-grey-500 fw-500 font-xssss lh-4">{notification.message}</h6>
-                    </div>
-                );
             }
 
         })
@@ -4,6 +4,8 @@ import { Link, Outlet, useMatch } from "react-router-dom";
 
 import { IconComponent } from "./icons";
 import * as icons from "./icons";
+import type { CurrentUser } from "api";
+import { Skeleton } from "components/Skeleton";
 
 type SidelinkProps = {
   IconComp: IconComponent;
@@ -21,18 +23,22 @@ export const Sidelink = (props: SidelinkProps) => {
   );
 };
 
-export function Sidebar({userData}: any) {
+export function Sidebar({userData, loading}: {userData: CurrentUser | null; loading: boolean}) {
   return (
     <div className='flex min-h-full flex-col'>
       <h1 className='text-2xl font-extrabold text-blue-high'>LOGO</h1>
 
       <nav className='sidelinks mt-11'>
         <Sidelink linkUrl='/' IconComp={icons.Dashboard} text='Dashboard' />
-        <Sidelink
-          linkUrl={`/playmate/index?id=${userData._id}`}
-          IconComp={icons.Playmate}
-          text='My Playmate'
-        />
+        {loading ? (
+          <Skeleton className='h-12 w-full' />
+        ) : (
+          <Sidelink
+            linkUrl={`/playmate/index?id=${userData?._id}`}
+            IconComp={icons.Playmate}
+            text='My Playmate'
+          />
+        )}
         <Sidelink linkUrl='/team' IconComp={icons.Team} text='My team' />
         <Sidelink linkUrl='/events' IconComp={icons.Events} text='Events' />
         <Sidelink
@@ -1,11 +1,23 @@
-import React, { PropsWithChildren } from "react";
+import React, { PropsWithChildren, useState } from "react";
+import cx from "classnames";
 import { Dialog, Transition } from "@headlessui/react";
 import { DialogSheet } from "components/DialogSheet";
 import { DialogCrossButton } from "components/DialogCrossButton";
 import ConfirmationTick from "assets/confirm-tick.svg";
 import Team1 from "assets/team-1.png";
+import { api } from "api";
+import type { EventScore, EventTeam } from "api";
+import type { Id } from "types/domain";
 
-export function UploadDialogTrigger({ children }: PropsWithChildren) {
+// The match a score is recorded for, `team` plays at home
+interface ResultEvent {
+  id: Id;
+  team: EventTeam | null;
+  opponent: EventTeam | null;
+  result: EventScore | null;
+}
+
+export function UploadDialogTrigger({ event, children }: PropsWithChildren<{ event: ResultEvent }>) {
   const [isOpen, setIsOpen] = React.useState(false);
 
   children = React.Children.only(children);
@@ -13,7 +25,6 @@ export function UploadDialogTrigger({ children }: PropsWithChildren) {
     children &&
     React.cloneElement(children as any, {
       onClick: e => {
-        console.log("Clicked");
         e.preventDefault();
         e.stopPropagation();
         setIsOpen(true);
@@ -22,7 +33,6 @@ export function UploadDialogTrigger({ children }: PropsWithChildren) {
 
   const onClose = () => {
     setIsOpen(false);
-    setIsOpen(false);
   };
 
   return (
@@ -51,7 +61,7 @@ export function UploadDialogTrigger({ children }: PropsWithChildren) {
             leaveTo='opacity-0 scale-95'
           >
             <DialogSheet>
-              <Content onClose={onClose} />
+              <Content event={event} onClose={onClose} />
             </DialogSheet>
           </Transition.Child>
         </Dialog>
@@ -60,57 +70,93 @@ export function UploadDialogTrigger({ children }: PropsWithChildren) {
   );
 }
 
-function Content(p: { onClose: () => void }) {
+function TeamSide({ team, fallback, className }: { team: EventTeam | null; fallback: string; className?: string }) {
+  return (
+    <div className={cx("mb-2 flex min-w-0 shrink-0 flex-col", className)}>
+      <img className='w7.5 h-7.5 rounded-full object-cover' src={team?.profilePic || Team1} />
+      <p className='mt-2.5 max-w-[8rem] overflow-hidden text-ellipsis whitespace-nowrap text-fine font-medium'>
+        {team?.name ?? fallback}
+      </p>
+    </div>
+  );
+}
+
+function ScoreInput({ value, setValue }: { value: string; setValue: (value: string) => void }) {
+  return (
+    <p className='overflow-hidden flex h-12.5 w-12.5 items-center justify-center rounded-half border border-grey-high bg-dim-black'>
+      <input
+        size={1}
+        inputMode='numeric'
+        className="bg-transparent w-full h-full text-center text-idxtitle text-grey-classic"
+        value={value}
+        onChange={(e) => setValue(e.target.value.replace(/\D/g, ""))}
+        onFocus={(e) => e.target.select()}
+      />
+    </p>
+  );
+}
+
+function Content({ event, onClose }: { event: ResultEvent; onClose: () => void }) {
+  // A disputed score starts from what was recorded
+  const [home, setHome] = useState(String(event.result?.home ?? 0));
+  const [away, setAway] = useState(String(event.result?.away ?? 0));
+  const [share, setShare] = useState(true);
+  const [error, setError] = useState("");
+
+  const onUpload = () => {
+    if (home === "" || away === "") {
+      setError("Please fill in both scores");
+      return;
+    }
+    api.events.submitResult({ eventId: event.id, home: parseInt(home), away: parseInt(away), share })
+      .then(onClose)
+      .catch((error) => setError(error.message));
+  };
+
   return (
     <>
       <Dialog.Title as='header' className='relative mb-6'>
-        <DialogCrossButton onClick={p.onClose} />
+        <DialogCrossButton onClick={onClose} />
         <div className='flex flex-col items-center'>
           <img src={ConfirmationTick} />
           <p className='mt-2 font-medium text-dim-white'>Event Ended</p>
           <h1 className='mt-5 max-w-[29rem] text-center text-title font-bold'>
             Do you want to register the score for your event on your playmate?
           </h1>
+          {event.result?.status === "Disputed" && (
+            <p className='mt-3 text-center text-fine text-yellow'>
+              {event.opponent?.name ?? "The opponent"} disputed {event.result.home} - {event.result.away}
+            </p>
+          )}
         </div>
       </Dialog.Title>
 
       <div className='flex items-end rounded-half border border-outline-2 px-5 pb-4 pt-7 gap-x-8'>
-        <div className='min-w-0 shrink-0 mb-2'>
-          <img className='w7.5 h-7.5 rounded-full' src={Team1} />
-          <p className='mt-2.5 text-fine font-medium'>Team Soccer A</p>
-        </div>
+        <TeamSide team={event.team} fallback='Home' />
         <div className='flex grow items-center justify-center gap-x-3'>
-          <p className='overflow-hidden flex h-12.5 w-12.5 items-center justify-center rounded-half border border-grey-high bg-dim-black'>
-            <input
-              size={1}
-              className="bg-transparent w-full h-full text-center text-idxtitle text-grey-classic"
-              defaultValue="0"
-            />
-          </p>
+          <ScoreInput value={home} setValue={setHome} />
           <Sep />
-          <p className='overflow-hidden flex h-12.5 w-12.5 items-center justify-center rounded-half border border-grey-high bg-dim-black'>
-            <input
-              size={1}
-              className="bg-transparent w-full h-full text-center text-idxtitle text-grey-classic"
-              defaultValue="0"
-            />
-          </p>
-        </div>
-        <div className='flex min-w-0 shrink-0 flex-col items-end mb-2'>
-          <img className='w7.5 h-7.5 rounded-full' src={Team1} />
-          <p className='mt-2.5 text-fine font-medium'>Team Soccer B</p>
+          <ScoreInput value={away} setValue={setAway} />
         </div>
+        <TeamSide team={event.opponent} fallback='Opponent' className='items-end' />
       </div>
 
+      {event.opponent && (
+        <p className='mt-3 text-fine text-grey-subtle'>
+          The score is final once an admin of {event.opponent.name} confirms it.
+        </p>
+      )}
+
       <label className='app-checkbox mt-5'>
-        <input checked type='checkbox' />
+        <input checked={share} onChange={(e) => setShare(e.target.checked)} type='checkbox' />
         Share with team members?
       </label>
 
+      {error && <p className='mt-3' style={{color: "red"}}>{error}</p>}
 
       <footer className='mt-9 flex justify-center gap-x-7'>
         <button
-          onClick={p.onClose}
+          onClick={onUpload}
           className='relative flex items-center rounded-half bg-blue-high px-14 py-3 text-dim-black hover:bg-blue-high/80'
         >
           Upload
@@ -11,29 +11,47 @@ import BalanceIcon from "./icons/balance.svg";
 import Team1 from "assets/team-1.png";
 import Team2 from "assets/team-2.png";
 import { DialogSheet } from "components/DialogSheet";
+import { Skeleton } from "components/Skeleton";
+import { api, useQuery } from "api";
+import type { EventSummary, EventTeam } from "api";
+import { eventInstants, eventStart, formatLongDay, formatTime, useHourCycle } from "utils/datetime";
+
+// Share of each player, as entered when the event was created
+function costOf(event: EventSummary) {
+  const cost = parseFloat(event.cost);
+  return isNaN(cost) ? 0 : cost;
+}
+
+function TeamName({ team, fallback, src }: { team: EventTeam | null; fallback: string; src: string }) {
+  return (
+    <>
+      <div className='flex-shrink-0 overflow-hidden rounded-full'>
+        <img className='h-7 w-7 object-cover' src={team?.profilePic || src} />
+      </div>
+      <span className='min-w-0 overflow-hidden text-ellipsis whitespace-nowrap'>
+        {team?.name ?? fallback}
+      </span>
+    </>
+  );
+}
 
 interface PaymentBlockProp {
-  pendingAmount: number;
+  event: EventSummary;
 }
-function PaymentBlock(props: PaymentBlockProp) {
+function PaymentBlock({ event }: PaymentBlockProp) {
+  const [hourCycle] = useHourCycle();
+  const start = eventStart(event);
+
   return (
     <div className='flex flex-col gap-x-12 gap-y-5 desk-dialog:min-w-[40rem] desk-dialog:flex-row desk-dialog:items-center'>
       <div className='flex-1 rounded-half border border-grey-high p-5'>
         <div className='flex items-center gap-x-2 border-b border-outline-2 pb-5'>
-          <div className='flex-shrink-0 overflow-hidden rounded-full'>
-            <img className='w-7' src={Team1} />
-          </div>
-          <span className='min-w-0 overflow-hidden text-ellipsis whitespace-nowrap'>
-            Team Soccer A
-          </span>
+          <TeamName team={event.team} fallback={event.teamName} src={Team1} />
           <p className='mx-3 flex-1 text-center text-grey-subtle sm:mx-5 md:mx-8 lg:mx-12'>
             V
           </p>
-          <span className='min-w-0 overflow-hidden text-ellipsis whitespace-nowrap'>
-            Team Soccer B
-          </span>
-          <div className='flex-shrink-0 overflow-hidden rounded-full'>
-            <img className='w-7' src={Team2} />
+          <div className='flex min-w-0 flex-row-reverse items-center gap-x-2'>
+            <TeamName team={event.opponent} fallback='To be confirmed' src={Team2} />
           </div>
         </div>
 
@@ -42,20 +60,20 @@ function PaymentBlock(props: PaymentBlockProp) {
             <PinMarkerIcon className='flex-shrink-0 text-blue-high' />
 
             <span className='min-w-0 overflow-hidden text-ellipsis font-semibold text-dim-white'>
-              Emirate stadium, England
+              {event.location}
             </span>
           </p>
           <p className='flex items-center gap-x-2.5 text-dim-white'>
             <ClockIcon className='flex-shrink-0 text-blue-high' />
 
             <span className='min-w-0 overflow-hidden text-ellipsis text-fine text-dim-white'>
-              15/10/2023 02:00 PM
+              {formatLongDay(start)} {formatTime(start, hourCycle)}
             </span>
           </p>
 
           <p className='bottom-0 right-0 mt-6 text-dim-white xs:absolute'>
             You Owe:{" "}
-            <span className='font-bold text-white'>${props.pendingAmount}</span>
+            <span className='font-bold text-white'>${costOf(event)}</span>
           </p>
         </div>
       </div>
@@ -70,6 +88,14 @@ interface DialogContentProps {
   onClose: () => void;
 }
 function DialogContent({ onClose }: DialogContentProps) {
+  const { data: events, loading } = useQuery(api.events.list, [{ status: "Accepted" }]);
+  // The team matches still to come the user is going to and has a share of
+  const now = new Date();
+  const payments = (events ?? [])
+    .filter((event) => event.team && costOf(event) > 0 && eventInstants(event).end >= now)
+    .sort((a, b) => eventStart(a).getTime() - eventStart(b).getTime());
+  const total = payments.reduce((sum, event) => sum + costOf(event), 0);
+
   return (
     <>
       <Dialog.Title as='header' className='relative'>
@@ -80,12 +106,17 @@ function DialogContent({ onClose }: DialogContentProps) {
       </Dialog.Title>
 
       <div className='mt-5 rounded-2.5xl border border-grey-high px-6 py-3 text-center text-lg desk-dialog:mx-32'>
-        You owe a total of <span className='font-bold text-blue-high'>$85</span>
+        You owe a total of <span className='font-bold text-blue-high'>${total}</span>
       </div>
 
       <section className='mt-12 flex flex-col gap-y-8 desk-dialog:gap-y-5'>
-        <PaymentBlock pendingAmount={47} />
-        <PaymentBlock pendingAmount={17} />
+        {loading && <Skeleton className='h-40 w-full rounded-half' />}
+        {!loading && payments.length === 0 && (
+          <p className='text-center text-grey-subtle'>Nothing to pay for your upcoming events</p>
+        )}
+        {payments.map((event) => (
+          <PaymentBlock key={event.id} event={event} />
+        ))}
       </section>
 
       <footer className='mt-14 flex flex-wrap gap-x-7 gap-y-4 sm:justify-center'>
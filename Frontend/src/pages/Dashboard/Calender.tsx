@@ -13,8 +13,12 @@ import {
   isMonday,
   getDay,
   getDaysInMonth,
-  isSameMonth
+  isSameMonth,
+  endOfMonth
 } from "date-fns";
+import type { EventSummary } from "api";
+import { expandOccurrences } from "utils/recurrence";
+import { formatEventDate } from "utils/datetime";
 
 import ArrowLeft from "./icons/month-arrow-left.svg";
 import ArrowRight from "./icons/month-arrow-right.svg";
@@ -57,9 +61,17 @@ function DayGrid(p: {
   monthMask: Date;
   selected: Date;
   setSelected: (_: Date) => void;
+  events: EventSummary[];
 }) {
   let { monthMask } = p;
 
+  // "dd/mm/yyyy" of the days in this month something takes place on
+  let eventDays = new Set(
+    p.events.flatMap((event) =>
+      expandOccurrences(event, monthMask, endOfMonth(monthMask)).map((occurrence) => occurrence.date)
+    )
+  );
+
   let firstDayOfMonth = setDate(monthMask, 1);
 
   // Move the 1st day of month to the nearest previous Monday.
@@ -80,11 +92,12 @@ function DayGrid(p: {
 
     let outside = !isSameMonth(current, monthMask);
     let selected = isSameDay(current, p.selected);
+    let hasEvents = !outside && eventDays.has(formatEventDate(current));
 
     cells.push(
       <button
         className={cx(
-          "cal-day-cell",
+          "cal-day-cell relative",
           outside && "disabled",
           selected && "active"
         )}
@@ -93,6 +106,9 @@ function DayGrid(p: {
         key={i}
       >
         {format(current, "dd")}
+        {hasEvents && (
+          <span className={cx("absolute bottom-1.5 h-1.5 w-1.5 rounded-full", selected ? "bg-sheet" : "bg-yellow")} />
+        )}
       </button>
     );
   }
@@ -111,7 +127,7 @@ function DayGrid(p: {
   );
 }
 
-export function Calender({setSelectedDate}: any) {
+export function Calender({setSelectedDate, events}: {setSelectedDate: (date: Date) => void; events: EventSummary[]}) {
   const [monthMask, setMonthMask] = useState(setDate(new Date(), 1));
   const [selected, setSelected] = useState(new Date());
 
@@ -130,6 +146,7 @@ export function Calender({setSelectedDate}: any) {
         selected={selected}
         setSelected={setSelected}
         monthMask={monthMask}
+        events={events}
       />
     </div>
   );
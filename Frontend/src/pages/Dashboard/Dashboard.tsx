@@ -1,6 +1,8 @@
-import React, { Component, useEffect, useState } from "react";
+import React, { Component, useState } from "react";
 
 import { PageView } from "layout/PageView";
+import { api, useQuery } from "api";
+import type { EventSummary } from "api";
 
 import { Calender } from "./Calender";
 import { EventList } from "./EventList";
@@ -64,7 +66,7 @@ function MainContent() {
   );
 }
 
-function SideView({events} : any) {
+function SideView({events, loading} : {events: EventSummary[]; loading: boolean}) {
   const [selectedDate, setSelectedDate] = useState(new Date());
   return (
     <section className=''>
@@ -81,103 +83,22 @@ function SideView({events} : any) {
         </div>
       </div>
 
-      <Calender setSelectedDate={setSelectedDate} />
-      <EventList events={events} date={selectedDate} />
+      <Calender setSelectedDate={setSelectedDate} events={events} />
+      <EventList events={events} date={selectedDate} loading={loading} />
     </section>
   );
 }
 
-export function Dashboard() {
-
-  const [loaded, setLoaded] = useState(false);
-
-  const [userData, setUserData] = useState("");
-  const [events, setEvents] = useState([]);
-  const [friendRequests, setFriendRequests] = useState([]);
-
-  const [admin, setAdmin] = useState(false);
-
-  useEffect(() => {
-      fetch("http://127.0.0.1:5001/getUserData", {
-          method: "POST",
-          crossDomain: true,
-          headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-          },
-          body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-          }),
-      })
-      .then((res) => res.json())
-      .then((data) => {
-          if (data.data.userType == "Admin") {
-              setAdmin(true);
-          }
-
-          setUserData(data.data);
-
-          if (data.data == "token expired") {
-            if (window.location.pathname !== "/login") {
-              window.localStorage.clear();
-              window.location.href = "../../login";
-            }
-          }
+const NO_EVENTS: EventSummary[] = [];
 
-      });
-
-  }, []);
-
-  useEffect(() => {
-    if(!userData) return;
-
-    fetch("http://127.0.0.1:5001/getEvents", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-          status: "Accepted"
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setEvents(data.data);
-    });
-  }, [userData]);
-
-  useEffect(() => {
-    if(!events) return;
-
-    fetch("http://127.0.0.1:5001/getFriendRequests", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setFriendRequests(data.data);
-        setLoaded(true);
-    });
-  }, [events]);
+export function Dashboard() {
+  const { data: events = NO_EVENTS, loading } = useQuery(api.events.list, [{ status: "Accepted" }]);
 
   return (
     <PageView title='Welcome Andrew'>
       <div className='flex flex-col gap-x-5 gap-y-16 desktop:flex-row desktop:items-start'>
         <MainContent />
-        <SideView events={events} />
+        <SideView events={events} loading={loading} />
       </div>
     </PageView>
   );
@@ -6,16 +6,27 @@ import EventOneIcon from "./icons/event-one.svg";
 import EventTwoIcon from "./icons/event-two.svg";
 import EventThreeIcon from "./icons/event-three.svg";
 import { useEffect, useState } from "react";
+import type { EventSummary } from "api";
+import { SkeletonList } from "components/Skeleton";
+import { eventPath, expandOccurrences } from "utils/recurrence";
+import { useSortedEvents } from "utils/eventOrder";
+import { eventStart, timeParts, useHourCycle } from "utils/datetime";
 
 interface EventProps {
+  to: string;
   iconUrl: string;
-  time: { clock: number; period: "am" | "pm" };
+  // The am/pm is stacked under the clock, empty on the 24 hour clock
+  time: { clock: string; period: string };
   accentColorClass: string;
+  name: string;
+  location: string;
 }
 function Event(props: EventProps) {
-  let clock = props.time.clock;
   return (
-    <div className='mb-3 flex items-center rounded-card bg-grey-low px-5 py-3.5 desktop:min-w-[24rem]'>
+    <Link
+      to={props.to}
+      className='mb-3 flex items-center rounded-card bg-grey-low px-5 py-3.5 transition-colors hover:bg-grey-high desktop:min-w-[24rem]'
+    >
       <img className='mr-4 h-8 w-8' src={props.iconUrl} />
 
       <div className='mr-1 flex-grow'>
@@ -31,48 +42,34 @@ function Event(props: EventProps) {
           props.accentColorClass
         )}
       >
-        {clock <= 99 ? `0${clock}`.slice(-2) : clock}
-        <br />
-        <span className='uppercase'>{props.time.period}</span>
+        {props.time.clock}
+        {props.time.period && (
+          <>
+            <br />
+            <span className='uppercase'>{props.time.period}</span>
+          </>
+        )}
       </p>
-    </div>
+    </Link>
   );
 }
 
-export function EventList({events, date} : any) {
-  const [selectedEvents, setSelectedEvents] = useState([]);
-  function convert24to12(time: number) {
-    // time in Format: HH:MM
-
-    let hour = parseInt(time.split(":")[0]);
-    let minute = parseInt(time.split(":")[1]);
-
-    let period = "am";
-
-    if (hour > 12) {
-      hour = (hour - 12).toString();
-      period = "pm";
-    }
-
-    return [hour, minute, period];
-  }
+interface EventListProps {
+  events: EventSummary[];
+  date: Date;
+  loading?: boolean;
+}
+export function EventList({events, date, loading} : EventListProps) {
+  const [selectedEvents, setSelectedEvents] = useState<EventSummary[]>([]);
+  const [hourCycle] = useHourCycle();
 
   useEffect(() => {
-    let strDate = "";
-    if (date.getDate() < 10) {
-      strDate += `0${date.getDate()}/`
-    } else {
-      strDate += `${date.getDate()}/`
-    }
-    if (date.getMonth() < 9) {
-      strDate += `0${date.getMonth() + 1}/`
-    } else {
-      strDate += `${date.getMonth() + 1}/`
-    }
-    strDate += `${date.getFullYear()}`
-    const newSelectedEvents = events.filter(event => event.date === strDate)
+    // Recurring events show up on every day they take place
+    const newSelectedEvents = events.flatMap(event => expandOccurrences(event, date, date))
     setSelectedEvents(newSelectedEvents)
   }, [date, events])
+  // One day of events, sorted like the other lists but not grouped
+  const { sorted } = useSortedEvents(selectedEvents);
 
   return (
     <section className='mt-6'>
@@ -84,14 +81,16 @@ export function EventList({events, date} : any) {
       </div>
 
 
+      {loading && <SkeletonList count={2} className='desktop:min-w-[24rem]' />}
       {
-        selectedEvents.map((event: any, index: number) => {
+        sorted.map((event, index) => {
           return (
             <Event
               key={index}
+              to={eventPath(event)}
               accentColorClass='bg-yellow'
               iconUrl={EventOneIcon}
-              time={{ clock: convert24to12(event.startTime)[0] + ":" + convert24to12(event.startTime)[1], period: convert24to12(event.startTime)[2] }}
+              time={timeParts(eventStart(event), hourCycle)}
               name={event.name}
               location={event.location}
             />
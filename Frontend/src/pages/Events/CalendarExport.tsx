@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import cx from "classnames";
+import { Popover } from "@headlessui/react";
+import copyToClipboard from "copy-to-clipboard";
+import { api } from "api";
+import type { Id } from "types/domain";
+import { localTimeZone } from "utils/datetime";
+import CopyLinkIcon from "assets/copy-link.svg";
+
+function downloadFile(fileName: string, text: string) {
+  const blob = new Blob([text], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName.endsWith(".ics") ? fileName : fileName + ".ics";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface DownloadCalendarButtonProps {
+  fileName: string;
+  // Occurrences of a series share its id, the file has the series once
+  events: { id: Id }[];
+  className?: string;
+}
+
+// The file is built by the server, the same way as the feed
+export function DownloadCalendarButton({ fileName, events, className }: DownloadCalendarButtonProps) {
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState("");
+
+  const onDownload = () => {
+    setDownloading(true);
+    setError("");
+    api.events.calendarFile({ eventIds: [...new Set(events.map((event) => event.id))], timeZone: localTimeZone() })
+      .then((text) => downloadFile(fileName, text))
+      .catch((error) => setError(error.message))
+      .finally(() => setDownloading(false));
+  };
+
+  return (
+    <>
+      <button
+        disabled={events.length === 0 || downloading}
+        onClick={onDownload}
+        className={cx(
+          "min-w-[7.5rem] rounded-half bg-grey-high px-3 py-2 text-white hover:bg-blue-high/10 disabled:opacity-50",
+          className
+        )}
+      >
+        Download .ics
+      </button>
+      {error && <p className='w-full text-sm text-pink'>{error}</p>}
+    </>
+  );
+}
+
+// The feed url, fetched when the panel opens so the token is only created for
+// users who ask for it
+function CalendarFeedPanel() {
+  const [url, setUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = (reset: boolean) => {
+    setCopied(false);
+    api.events.calendarFeed({ timeZone: localTimeZone(), reset })
+      .then((calendarToken) => setUrl(api.events.calendarFeedUrl(calendarToken)))
+      .catch(() => {});
+  };
+
+  useEffect(() => load(false), []);
+
+  const onReset = () => {
+    if (!window.confirm("Calendars subscribed to the current link will stop updating. Create a new link?")) return;
+    load(true);
+  };
+
+  return (
+    <>
+      <h2 className='font-semibold'>Subscribe in your calendar</h2>
+      <p className='mt-1 text-sm text-grey-subtle'>
+        Add this link to Google Calendar, Apple Calendar or Outlook to keep the events you are going to in sync.
+        Anyone with the link can see them.
+      </p>
+
+      <input
+        readOnly
+        value={url ?? "Loading..."}
+        onFocus={(e) => e.target.select()}
+        className='mt-4 w-full rounded-half border border-grey-high bg-transparent px-3 py-2 text-sm text-dim-white'
+      />
+
+      <div className='mt-4 flex flex-wrap items-center gap-x-5 gap-y-2'>
+        <div className='flex items-center'>
+          <img src={CopyLinkIcon} />
+          <p
+            role='button'
+            className='ml-2.5 select-none text-dim-white underline transition-colors hover:text-blue-high'
+            onClick={() => {
+              if (!url) return;
+              copyToClipboard(url);
+              setCopied(true);
+            }}
+          >
+            {copied ? "Copied" : "Copy link"}
+          </p>
+        </div>
+        {url && (
+          <a href={url.replace(/^https?:/, "webcal:")} className='text-blue-high hover:underline'>
+            Open in calendar app
+          </a>
+        )}
+        <s className='flex-1' />
+        <p role='button' onClick={onReset} className='text-sm text-grey-subtle underline hover:text-pink'>
+          Reset link
+        </p>
+      </div>
+    </>
+  );
+}
+
+export function CalendarFeedButton() {
+  return (
+    <Popover className='relative'>
+      <Popover.Button className='min-w-[7.5rem] rounded-half bg-grey-high px-3 py-2 text-white hover:bg-blue-high/10'>
+        Subscribe
+      </Popover.Button>
+      <Popover.Panel className='absolute right-0 z-20 mt-2 w-[22rem] max-w-[calc(100vw-2.5rem)] rounded-card bg-grey-low p-5 shadow-lg'>
+        <CalendarFeedPanel />
+      </Popover.Panel>
+    </Popover>
+  );
+}
@@ -2,6 +2,7 @@ import React from "react";
 import cx from "classnames";
 import { Menu } from "@headlessui/react";
 import { usePopper } from "react-popper";
+import { Link } from "react-router-dom";
 
 import { Transition } from "@headlessui/react";
 import { commonTransitionProps } from "components/PanelTransition";
@@ -10,6 +11,9 @@ import EventMoreIcon from "assets/more.svg";
 import { ClockIcon } from "components/adaptive-icons/PinMarker";
 import { PinMarkerIcon } from "components/adaptive-icons/Clock";
 import { useMenu } from "utils";
+import type { EventSummary, ExploreEvent } from "api";
+import { eventPath } from "utils/recurrence";
+import { eventStart, eventZoneNote, formatDay, formatTime, useHourCycle } from "utils/datetime";
 
 function ActionsMenu() {
   const m = useMenu();
@@ -48,36 +52,17 @@ function ActionsMenu() {
 }
 
 interface EventCardProps {
+  event: EventSummary | ExploreEvent;
   iconUrl: string;
   accentColorClass?: string;
+  // Shown next to the View link
+  actions?: React.ReactNode;
 }
 export function EventCard(props: EventCardProps) {
 
-  function convert24to12(time: string) {
-    // time in Format: HH:MM
-
-    let hour = parseInt(time.split(":")[0]);
-    let minute = parseInt(time.split(":")[1]);
-
-    let period = "am";
-
-    if (hour > 12) {
-      hour = (hour - 12).toString();
-      period = "pm";
-    }
-
-    return [hour, minute, period];
-  }
-
-  function formatDateTime(dateTime : any) {
-    const dateArr = dateTime.split("/")
-    // Format to e.g Jan 05
-    var date = new Date(`${dateArr[2]}-${dateArr[1]}-${dateArr[0]}`);
-    var month = date.toLocaleString('default', { month: 'short' });
-    var day = date.getDate();
-
-    return month + " " + day;
-  }
+  const [hourCycle] = useHourCycle();
+  const start = eventStart(props.event);
+  const zoneNote = eventZoneNote(props.event, hourCycle);
 
   return (
     <div className={cx("rounded-card bg-grey-low p-5", props.accentColorClass)}>
@@ -93,7 +78,8 @@ export function EventCard(props: EventCardProps) {
         <p className='mb-1 flex items-center gap-x-2.5 text-fine text-grey-grain'>
           <ClockIcon className='flex-shrink-0 text-[--ev-card-accent-color]' />
           <span className='min-w-0 overflow-hidden text-ellipsis'>
-          {formatDateTime(props.event.date)} | {convert24to12(props.event.startTime)[0] + ":" + convert24to12(props.event.startTime)[1] + " " + convert24to12(props.event.startTime)[2]}
+            {formatDay(start)} | {formatTime(start, hourCycle)}
+            {zoneNote && <span className='text-grey-classic'> ({zoneNote})</span>}
           </span>
         </p>
         <p className='mb-1 flex items-center gap-x-2.5 text-fine text-dim-white'>
@@ -110,13 +96,26 @@ export function EventCard(props: EventCardProps) {
           <p>Price pool</p>
         </div> */}
         <div className='stat'>
-          <h3>15/20</h3>
-          <p>Participant</p>
+          <h3>
+            {props.event.participants}
+            {props.event.capacity !== null && "/" + props.event.capacity}
+          </h3>
+          <p>{props.event.participants === 1 ? "Participant" : "Participants"}</p>
         </div>
+        {props.event.status === "Waitlisted" && props.event.waitlistPosition !== null && (
+          <div className='stat ml-6'>
+            <h3 className='text-yellow'>#{props.event.waitlistPosition}</h3>
+            <p>On waitlist</p>
+          </div>
+        )}
         <s className='min-w-0 flex-1' />
-        <button className='self-start rounded-half bg-grey-high px-4 py-2 text-sm hover:bg-blue-high/10'>
+        {props.actions}
+        <Link
+          to={eventPath(props.event)}
+          className='self-start rounded-half bg-grey-high px-4 py-2 text-sm hover:bg-blue-high/10'
+        >
           View
-        </button>
+        </Link>
       </footer>
     </div>
   );
@@ -4,6 +4,8 @@ import { Dialog, Transition } from "@headlessui/react";
 import { DialogCrossButton } from "components/DialogCrossButton";
 import type { EventType, DialogContentProps } from "./common";
 import { EventForm } from "./EventForm";
+import type { EventDetails, EventEditScope } from "api";
+import type { Id } from "types/domain";
 
 import { EvTeam } from "components/adaptive-icons/events/EvTeam.tsx";
 import { EvNetwork } from "components/adaptive-icons/events/EvNetwork.tsx";
@@ -137,39 +139,88 @@ export function EventCreator({ children }: React.PropsWithChildren) {
   return (
     <>
       {handleElement}
-      <Transition
+      <EventDialog
+        isOpen={isOpen}
         afterLeave={() => {
           setSelectedType(null);
           setAwaitingSelection(true);
         }}
-        show={isOpen}
-        as={React.Fragment}
       >
-        <Dialog onClose={() => {}}>
-          <Transition.Child
-            as={React.Fragment}
-            enter='ease-out duration-300'
-            enterFrom='opacity-0'
-            enterTo='opacity-100'
-            leave='ease-in duration-200'
-            leaveFrom='opacity-100'
-            leaveTo='opacity-0'
-          >
-            <div className='fixed inset-0 bg-black/30' aria-hidden='true' />
-          </Transition.Child>
-          <Transition.Child
-            as={React.Fragment}
-            enter='ease-out duration-300'
-            enterFrom='opacity-0 scale-95'
-            enterTo='opacity-100 scale-100'
-            leave='ease-in duration-200'
-            leaveFrom='opacity-100 scale-100'
-            leaveTo='opacity-0 scale-95'
-          >
-            <DialogSheet>{content}</DialogSheet>
-          </Transition.Child>
-        </Dialog>
-      </Transition>
+        {content}
+      </EventDialog>
     </>
   );
 }
+
+interface EventEditorProps {
+  event: EventDetails;
+  // Set when editing occurrences of a recurring event
+  scope?: EventEditScope;
+  occurrenceDate?: string;
+  onSaved?: (eventId: Id) => void;
+}
+
+// Opens the form of the event's type filled in with its current values
+export function EventEditor({ event, scope, occurrenceDate, onSaved, children }: React.PropsWithChildren<EventEditorProps>) {
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  children = React.Children.only(children);
+  const handleElement =
+    children &&
+    React.cloneElement(children as any, {
+      onClick: () => setIsOpen(true)
+    });
+
+  return (
+    <>
+      {handleElement}
+      <EventDialog isOpen={isOpen}>
+        <EventForm
+          onClose={() => setIsOpen(false)}
+          type={event.eventType}
+          event={event}
+          scope={scope}
+          occurrenceDate={occurrenceDate}
+          onAfterConfirm={() => setIsOpen(false)}
+          onSaved={onSaved}
+        />
+      </EventDialog>
+    </>
+  );
+}
+
+interface EventDialogProps {
+  isOpen: boolean;
+  afterLeave?: () => void;
+}
+
+function EventDialog({ isOpen, afterLeave, children }: React.PropsWithChildren<EventDialogProps>) {
+  return (
+    <Transition afterLeave={afterLeave} show={isOpen} as={React.Fragment}>
+      <Dialog onClose={() => {}}>
+        <Transition.Child
+          as={React.Fragment}
+          enter='ease-out duration-300'
+          enterFrom='opacity-0'
+          enterTo='opacity-100'
+          leave='ease-in duration-200'
+          leaveFrom='opacity-100'
+          leaveTo='opacity-0'
+        >
+          <div className='fixed inset-0 bg-black/30' aria-hidden='true' />
+        </Transition.Child>
+        <Transition.Child
+          as={React.Fragment}
+          enter='ease-out duration-300'
+          enterFrom='opacity-0 scale-95'
+          enterTo='opacity-100 scale-100'
+          leave='ease-in duration-200'
+          leaveFrom='opacity-100 scale-100'
+          leaveTo='opacity-0 scale-95'
+        >
+          <DialogSheet>{children}</DialogSheet>
+        </Transition.Child>
+      </Dialog>
+    </Transition>
+  );
+}
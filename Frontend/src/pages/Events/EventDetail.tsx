@@ -0,0 +1,513 @@
+import React, { useEffect, useState } from "react";
+import cx from "classnames";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+
+import { PageView } from "layout/PageView";
+import { api, invalidateQueries, useQuery } from "api";
+import type { BusyEvent, EventDetails, EventMember, EventTeam } from "api";
+import type { EventStatus, ResultStatus } from "types/domain";
+import { Skeleton } from "components/Skeleton";
+import { ClockIcon } from "components/adaptive-icons/PinMarker";
+import { PinMarkerIcon } from "components/adaptive-icons/Clock";
+import { DollarIcon } from "components/adaptive-icons/DollarIcon";
+import Pattern from "assets/ghost-pattern.svg";
+import { EventEditor } from "./EventCreator";
+import { DownloadCalendarButton } from "./CalendarExport";
+import { describeRule, occurrenceParam, ruleOf } from "utils/recurrence";
+import { eventInstants, eventZoneNote, formatLongDay, formatTime, useHourCycle } from "utils/datetime";
+import { findConflicts } from "utils/conflicts";
+import type { Conflict } from "utils/conflicts";
+import { ConflictList } from "components/ConflictList";
+import { UploadDialogTrigger } from "layout/UploadDialog";
+import { EventLineup } from "components/MembersAndLineup/EventLineup";
+
+const statusLabels: Record<EventStatus, string> = {
+  "Accepted": "Going",
+  "Pending Invite": "Invited",
+  "Rejected": "Declined",
+  "Waitlisted": "Waitlisted",
+  "Requested": "Asked to join"
+};
+
+const statusClasses: Record<EventStatus, string> = {
+  "Accepted": "bg-blue-high text-sheet",
+  "Pending Invite": "bg-grey-high text-white",
+  "Rejected": "bg-pink text-sheet",
+  "Waitlisted": "bg-yellow text-sheet",
+  "Requested": "bg-grey-high text-white"
+};
+
+const resultLabels: Record<ResultStatus, string> = {
+  "Pending": "Waiting for the opponent to confirm",
+  "Confirmed": "Final",
+  "Disputed": "Disputed by the opponent"
+};
+
+// How often the counts are fetched again while the page is open
+const REFRESH_INTERVAL = 30 * 1000;
+
+function StatusChip({ status, waitlistPosition }: { status: EventStatus; waitlistPosition: number | null }) {
+  return (
+    <span className={cx("whitespace-nowrap rounded-half px-3 py-1 text-sm", statusClasses[status])}>
+      {statusLabels[status]}
+      {status === "Waitlisted" && waitlistPosition !== null && " #" + waitlistPosition}
+    </span>
+  );
+}
+
+function TeamBadge({ team }: { team: EventTeam }) {
+  return (
+    <Link to={"/team/index?id=" + team.id} className='flex min-w-0 items-center gap-x-3 hover:text-blue-high'>
+      <div className='h-12 w-12 flex-shrink-0 overflow-hidden rounded-full'>
+        <img className='h-full w-full object-cover' src={team.profilePic} />
+      </div>
+      <span className='min-w-0 overflow-hidden text-ellipsis text-lg font-semibold'>{team.name}</span>
+    </Link>
+  );
+}
+
+function Header({ event }: { event: EventDetails }) {
+  return (
+    <header className='relative overflow-hidden rounded-card bg-grey-low px-7 py-6'>
+      <img className='absolute right-0 top-0 hidden sm:block' src={Pattern} />
+      <div className='relative'>
+        <p className='text-fine text-grey-classic'>{event.sport}</p>
+        <h1 className='flex flex-wrap items-center gap-x-3 text-[1.5625rem] font-bold'>
+          {event.name}
+          {event.cancelled && (
+            <span className='rounded-half bg-pink px-3 py-1 text-sm font-normal text-sheet'>Cancelled</span>
+          )}
+        </h1>
+
+        {event.team && (
+          <div className='mt-6 flex flex-wrap items-center gap-x-5 gap-y-3'>
+            <TeamBadge team={event.team} />
+            {event.opponent && (
+              <>
+                <span className='text-grey-subtle'>vs</span>
+                <TeamBadge team={event.opponent} />
+              </>
+            )}
+          </div>
+        )}
+        {event.opponent && event.opponentStatus === "Pending" && (
+          <p className='mt-3 text-fine text-yellow'>Waiting for {event.opponent.name} to accept the match</p>
+        )}
+        {event.opponent && event.opponentStatus === "Declined" && (
+          <p className='mt-3 text-fine text-pink'>{event.opponent.name} declined the match</p>
+        )}
+      </div>
+    </header>
+  );
+}
+
+function Information({ event, occurrenceDate }: { event: EventDetails; occurrenceDate: string | null }) {
+  const rule = ruleOf(event);
+  const [hourCycle] = useHourCycle();
+  // Shown in the viewer's zone, with the time at the venue when it differs
+  const occurrence = { ...event, date: (rule && occurrenceDate) || event.date };
+  const { start, end } = eventInstants(occurrence);
+  const zoneNote = eventZoneNote(occurrence, hourCycle);
+
+  return (
+    <section className='rounded-card bg-grey-low px-7 py-6'>
+      <h2 className='mb-4 text-lg font-medium'>Details</h2>
+      <p className='mb-2 flex items-center gap-x-2.5 text-fine text-grey-grain'>
+        <ClockIcon className='flex-shrink-0 text-yellow' />
+        {formatLongDay(start)} | {formatTime(start, hourCycle)} - {formatTime(end, hourCycle)}
+      </p>
+      {zoneNote && (
+        <p className='mb-2 pl-8 text-fine text-grey-subtle'>Starts at {zoneNote}</p>
+      )}
+      {rule && (
+        <p className='mb-2 pl-8 text-fine text-grey-subtle'>
+          {describeRule(rule, event.date)}, starting {event.date}
+        </p>
+      )}
+      <p className='mb-2 flex items-center gap-x-2.5 text-fine text-dim-white'>
+        <PinMarkerIcon className='flex-shrink-0 text-yellow' />
+        {event.location}
+      </p>
+      <p className='flex items-center gap-x-2.5 text-fine text-dim-white'>
+        <DollarIcon className='flex-shrink-0' />
+        {parseInt(event.cost) > 0 ? "$ " + event.cost : "Free"}
+      </p>
+
+      {event.description && (
+        <p className='mt-6 whitespace-pre-line text-fine text-grey-grain'>{event.description}</p>
+      )}
+
+      <Result event={event} />
+    </section>
+  );
+}
+
+// Recorded by the organiser, final once an admin of the opponent confirms it
+function Result({ event }: { event: EventDetails }) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const result = event.result;
+
+  const answer = (confirm: boolean) => {
+    setBusy(true);
+    setError("");
+    api.events.answerResult({ eventId: event.id, confirm })
+      .catch((error) => setError(error.message))
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <>
+      <h2 className='mb-2 mt-6 text-lg font-medium'>Result</h2>
+      {result ? (
+        <p className='text-fine text-grey-grain'>
+          <span className='text-dim-white'>{event.team?.name ?? "Home"} {result.home} - {result.away} {event.opponent?.name ?? "Opponent"}</span>
+          <span className={cx("ml-2.5", result.status === "Disputed" ? "text-yellow" : "text-grey-subtle")}>
+            {resultLabels[result.status]}
+          </span>
+        </p>
+      ) : (
+        <p className='text-fine text-grey-grain'>{event.results || "No result recorded yet"}</p>
+      )}
+      {(event.canRecordResult || event.canConfirmResult) && (
+        <div className='mt-4 flex flex-wrap gap-2.5'>
+          {event.canRecordResult && (
+            <UploadDialogTrigger event={event}>
+              <button className='min-w-[7.5rem] rounded-half bg-blue-high px-3 py-2 text-sheet hover:bg-blue-high/80'>
+                {result ? "Record again" : "Record result"}
+              </button>
+            </UploadDialogTrigger>
+          )}
+          {event.canConfirmResult && (
+            <>
+              <button
+                disabled={busy}
+                onClick={() => answer(false)}
+                className='min-w-[7.5rem] rounded-half bg-grey-high px-3 py-2 text-white hover:bg-blue-high/10'
+              >
+                Dispute
+              </button>
+              <button
+                disabled={busy}
+                onClick={() => answer(true)}
+                className='min-w-[7.5rem] rounded-half bg-blue-high px-3 py-2 text-sheet hover:bg-blue-high/80'
+              >
+                Confirm
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {error && <p className='mt-2.5 text-sm text-pink'>{error}</p>}
+    </>
+  );
+}
+
+function MemberRow({ member, children }: { member: EventMember; children?: React.ReactNode }) {
+  return (
+    <li className='flex items-center gap-x-3 border-b border-outline-2 py-3 last:border-0'>
+      <div className='h-10 w-10 flex-shrink-0 overflow-hidden rounded-full'>
+        <img className='h-full w-full object-cover' src={member.profilePic} />
+      </div>
+      <Link to={"/playmate/index?id=" + member.id} className='min-w-0 flex-1 overflow-hidden text-ellipsis hover:text-blue-high'>
+        {member.fname} {member.lname}
+      </Link>
+      {children ?? <StatusChip status={member.status} waitlistPosition={member.waitlistPosition} />}
+    </li>
+  );
+}
+
+// Only the organiser gets the requests of the users who asked to join
+function JoinRequestRow({ event, member }: { event: EventDetails; member: EventMember }) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const answer = (approve: boolean) => {
+    setBusy(true);
+    setError("");
+    api.events.answerJoinRequest({ eventId: event.id, userId: member.id, approve })
+      .catch((error) => setError(error.message))
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <MemberRow member={member}>
+      <div className='flex items-center gap-x-2'>
+        {error && <p className='text-sm text-pink'>{error}</p>}
+        <button
+          disabled={busy}
+          onClick={() => answer(false)}
+          className='rounded-half bg-grey-high px-3 py-1 text-sm text-white hover:bg-blue-high/10'
+        >
+          Decline
+        </button>
+        <button
+          disabled={busy}
+          onClick={() => answer(true)}
+          className='rounded-half bg-blue-high px-3 py-1 text-sm text-sheet hover:bg-blue-high/80'
+        >
+          Approve
+        </button>
+      </div>
+    </MemberRow>
+  );
+}
+
+function Members({ event }: { event: EventDetails }) {
+  const invited = event.members.filter((member) => member.status !== "Waitlisted" && member.status !== "Requested");
+  const requests = event.isOrganiser ? event.members.filter((member) => member.status === "Requested") : [];
+  const waitlist = event.members
+    .filter((member) => member.status === "Waitlisted")
+    .sort((a, b) => (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0));
+
+  return (
+    <section className='rounded-card bg-grey-low px-7 py-6 desktop:w-[24rem]'>
+      <h2 className='text-lg font-medium'>Members</h2>
+      <p className='text-fine text-grey-subtle'>
+        {event.capacity !== null
+          ? `${event.participants}/${event.capacity} places taken`
+          : `${event.participants}/${event.members.length} going`}
+      </p>
+      <ul className='mt-3'>
+        {invited.map((member) => <MemberRow key={member.id} member={member} />)}
+      </ul>
+
+      {waitlist.length > 0 && (
+        <>
+          <h3 className='mt-5 font-medium'>Waitlist</h3>
+          <ul className='mt-1'>
+            {waitlist.map((member) => <MemberRow key={member.id} member={member} />)}
+          </ul>
+        </>
+      )}
+
+      {requests.length > 0 && (
+        <>
+          <h3 className='mt-5 font-medium'>Asked to join</h3>
+          <ul className='mt-1'>
+            {requests.map((member) => <JoinRequestRow key={member.id} event={event} member={member} />)}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
+
+function Actions({ event, occurrenceDate }: { event: EventDetails; occurrenceDate: string | null }) {
+  const navigate = useNavigate();
+  const [busy, setBusy] = useState(false);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [error, setError] = useState("");
+
+  if (event.cancelled) return null;
+
+  // Occurrences of a recurring event can be changed on their own
+  const occurrence = ruleOf(event) && occurrenceDate;
+  const full = event.capacity !== null && event.participants >= event.capacity;
+
+  function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    setError("");
+    action()
+      .catch((error) => setError(error.message))
+      .finally(() => setBusy(false));
+  }
+
+  // Clashes are listed first, accepting again goes ahead anyway
+  const onAccept = () => {
+    if (conflicts.length > 0) return run(() => api.events.accept(event.id));
+    run(() =>
+      api.events.busy({ userIds: [] })
+        // Clashes are only a warning, accepting goes ahead without the check
+        .catch((): BusyEvent[] => [])
+        .then((busyEvents) => {
+          const found = findConflicts(event, busyEvents);
+          if (found.length > 0) setConflicts(found);
+          else return api.events.accept(event.id);
+        })
+    );
+  };
+
+  const onCancel = () => {
+    if (!window.confirm("Cancel " + event.name + " for everyone?")) return;
+    run(() => api.events.cancel({ eventId: event.id }));
+  };
+
+  // Edited occurrences become an event of their own
+  const openEvent = (eventId: string) => {
+    if (eventId !== event.id) navigate("/events/" + eventId, { replace: true });
+  };
+
+  const onCancelOccurrence = (date: string) => {
+    if (!window.confirm("Cancel " + event.name + " on " + date + " for everyone?")) return;
+    run(() => api.events.cancel({ eventId: event.id, occurrenceDate: date }));
+  };
+
+  return (
+    <div className='flex flex-wrap items-center gap-2.5'>
+      {event.status === "Waitlisted" && event.waitlistPosition !== null && (
+        <p className='mr-2.5 text-fine text-yellow'>
+          You are #{event.waitlistPosition} on the waitlist
+        </p>
+      )}
+      {event.status === "Requested" && (
+        <p className='mr-2.5 text-fine text-grey-subtle'>Waiting for the organiser to answer your request</p>
+      )}
+      {event.status !== null && event.status !== "Rejected" && (
+        <button
+          disabled={busy}
+          onClick={() => run(() => api.events.reject(event.id))}
+          className='min-w-[7.5rem] rounded-half bg-grey-high px-3 py-2 text-white hover:bg-blue-high/10'
+        >
+          {event.status === "Waitlisted" ? "Leave waitlist" : event.status === "Requested" ? "Withdraw request" : "Decline"}
+        </button>
+      )}
+      {event.status === null && event.eventType === "pickup" && !event.isOrganiser && (
+        <button
+          disabled={busy}
+          onClick={() => run(() => api.events.requestToJoin(event.id))}
+          className='min-w-[7.5rem] rounded-half bg-blue-high px-3 py-2 text-sheet hover:bg-blue-high/80'
+        >
+          Request to join
+        </button>
+      )}
+      {event.status !== null && event.status !== "Accepted" && event.status !== "Waitlisted" && event.status !== "Requested" && (
+        <button
+          disabled={busy}
+          onClick={onAccept}
+          className='min-w-[7.5rem] rounded-half bg-blue-high px-3 py-2 text-sheet hover:bg-blue-high/80'
+        >
+          {full ? "Join waitlist" : "Accept"}
+          {conflicts.length > 0 && " anyway"}
+        </button>
+      )}
+      {event.isOrganiser && occurrence && (
+        <>
+          <EventEditor event={event} scope='this' occurrenceDate={occurrence} onSaved={openEvent}>
+            <button
+              disabled={busy}
+              className='min-w-[7.5rem] rounded-half bg-grey-high px-3 py-2 text-white hover:bg-blue-high/10'
+            >
+              Edit this occurrence
+            </button>
+          </EventEditor>
+          <EventEditor event={event} scope='future' occurrenceDate={occurrence} onSaved={openEvent}>
+            <button
+              disabled={busy}
+              className='min-w-[7.5rem] rounded-half bg-grey-high px-3 py-2 text-white hover:bg-blue-high/10'
+            >
+              Edit all future occurrences
+            </button>
+          </EventEditor>
+          <button
+            disabled={busy}
+            onClick={() => onCancelOccurrence(occurrence)}
+            className='min-w-[7.5rem] rounded-half bg-pink px-3 py-2 text-sheet hover:bg-pink/80'
+          >
+            Cancel this occurrence
+          </button>
+        </>
+      )}
+      {event.isOrganiser && !occurrence && (
+        <EventEditor event={event}>
+          <button
+            disabled={busy}
+            className='min-w-[7.5rem] rounded-half bg-grey-high px-3 py-2 text-white hover:bg-blue-high/10'
+          >
+            Edit
+          </button>
+        </EventEditor>
+      )}
+      {event.isOrganiser && (
+        <button
+          disabled={busy}
+          onClick={onCancel}
+          className='min-w-[7.5rem] rounded-half bg-pink px-3 py-2 text-sheet hover:bg-pink/80'
+        >
+          {occurrence ? "Cancel all occurrences" : "Cancel event"}
+        </button>
+      )}
+      {error && <p className='w-full text-sm text-pink'>{error}</p>}
+      {conflicts.length > 0 && <ConflictList conflicts={conflicts} className='w-full' />}
+    </div>
+  );
+}
+
+export function EventDetail() {
+  const navigate = useNavigate();
+  const { eventId = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const occurrenceDate = occurrenceParam(searchParams);
+  const { data: event, error, loading } = useQuery(api.events.get, [eventId]);
+
+  // Keep the places taken and waitlist positions current while it's open
+  useEffect(() => {
+    const interval = setInterval(() => invalidateQueries(["events", eventId]), REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [eventId]);
+
+  let content: React.ReactNode;
+  if (loading) {
+    content = (
+      <>
+        <Skeleton className='h-40 rounded-card' />
+        <Skeleton className='mt-5 h-64 rounded-card' />
+      </>
+    );
+  } else if (!event) {
+    content = <p className='text-grey-type'>{error instanceof Error ? error.message : "Event not found"}</p>;
+  } else {
+    content = (
+      <div className='flex flex-col gap-5'>
+        <Header event={event} />
+        <div className='flex flex-wrap gap-2.5'>
+          <Actions event={event} occurrenceDate={occurrenceDate} />
+          <DownloadCalendarButton fileName={event.name.replace(/[^\w -]+/g, "").trim() || "event"} events={[event]} />
+        </div>
+        <div className='flex flex-col gap-5 desktop:flex-row desktop:items-start'>
+          <div className='min-w-0 flex-1'>
+            <Information event={event} occurrenceDate={occurrenceDate} />
+            <EventLineup event={event} className='mt-5 rounded-card bg-grey-low px-7 py-6' />
+          </div>
+          <Members event={event} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <PageView
+      title={
+        <div className='flex items-center'>
+          <button
+            className='mr-2 box-content rounded-md p-2 transition-colors hover:bg-blue-high/10'
+            onClick={() => {
+              navigate(-1);
+            }}
+          >
+            <svg
+              width='24'
+              height='24'
+              viewBox='0 0 24 24'
+              fill='none'
+              xmlns='http://www.w3.org/2000/svg'
+            >
+              <path
+                d='M10.3199 5.93001C10.3199 6.12 10.2499 6.31 10.0999 6.46L4.55994 12L10.0999 17.54C10.3899 17.83 10.3899 18.31 10.0999 18.6C9.80994 18.89 9.32994 18.89 9.03994 18.6L2.96994 12.53C2.67994 12.24 2.67994 11.76 2.96994 11.47L9.03994 5.4C9.32994 5.11 9.80994 5.11 10.0999 5.4C10.2499 5.54 10.3199 5.74001 10.3199 5.93001Z'
+                fill='#D9D9D9'
+              />
+              <path
+                d='M21.2499 12C21.2499 12.41 20.9099 12.75 20.4999 12.75L3.66992 12.75C3.25992 12.75 2.91992 12.41 2.91992 12C2.91992 11.59 3.25992 11.25 3.66992 11.25L20.4999 11.25C20.9099 11.25 21.2499 11.59 21.2499 12Z'
+                fill='#D9D9D9'
+              />
+            </svg>
+          </button>
+          <span className='font-light text-grey-type'>Events</span>&nbsp;
+          <span>/ Event</span>
+        </div>
+      }
+    >
+      {content}
+    </PageView>
+  );
+}
@@ -1,6 +1,15 @@
 import type { EventType, DialogContentProps } from "./common";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { DialogCrossButton } from "components/DialogCrossButton";
+import { api } from "api";
+import type { BusyEvent, CreateEventRequest, EventDetails, EventEditScope } from "api";
+import type { Id } from "types/domain";
+import { formatRule, ruleOf, splitRule } from "utils/recurrence";
+import { localTimeZone, timeZones } from "utils/datetime";
+import { ListBox } from "components/ListBox";
+import { ConflictList } from "components/ConflictList";
+import { findConflicts } from "utils/conflicts";
+import type { Conflict } from "utils/conflicts";
 import { FormTeam, ConfirmationView as TeamConfirmationView } from "./FormTeam";
 import { FormNetwork } from "./FormNetwork";
 import { FormPickup } from "./FormPickup";
@@ -23,17 +32,74 @@ function renderTitle(type: EventType) {
   }
 }
 
+// The form fields of an existing event. The organiser is not one of the
+// members, they were added as going when the event was created. Editing one
+// or more occurrences starts from the occurrence's date.
+function eventInfoFrom(event: EventDetails, scope: EventEditScope, occurrenceDate?: string): CreateEventRequest {
+  const rule = ruleOf(event);
+  let date = event.date;
+  let rrule = rule && formatRule(rule);
+  if (occurrenceDate && scope === "this") {
+    date = occurrenceDate;
+    rrule = null;
+  } else if (occurrenceDate && scope === "future") {
+    date = occurrenceDate;
+    rrule = splitRule(event, occurrenceDate).after;
+  }
+
+  const members = event.members
+    .filter((member) => member.id !== event.organiser)
+    .map((member) => member.id);
+
+  return {
+    name: event.name,
+    description: event.description,
+    location: event.location,
+    coordinates: event.coordinates,
+    date,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    cost: event.cost,
+    teamId: event.team?.id,
+    opponentId: event.opponent?.id,
+    sportId: event.sportsType ?? "",
+    rrule,
+    members,
+    numPlayers: event.numPlayers ?? String(members.length)
+  };
+}
+
 interface EventFormProps {
   type: EventType;
+  // Edits this event instead of creating a new one
+  event?: EventDetails;
+  // For recurring events, the occurrence opened and how much of the series
+  // the edit applies to
+  scope?: EventEditScope;
+  occurrenceDate?: string;
   onAfterConfirm: () => void;
+  // Called with the id of the event that holds the edit
+  onSaved?: (eventId: Id) => void;
 }
 export function EventForm({
   type,
+  event,
+  scope = "all",
+  occurrenceDate,
   onAfterConfirm,
+  onSaved,
   ...props
 }: DialogContentProps & EventFormProps) {
+  const [initial] = useState(() => event && eventInfoFrom(event, scope, occurrenceDate));
   const [confirmation, setConfirmation] = useState(false);
-  const [eventInfo, setEventInfo] = useState({});
+  const [createdId, setCreatedId] = useState<Id | null>(null);
+  const [eventInfo, setEventInfo] = useState<CreateEventRequest | null>(null);
+  // Times are the wall clock of the venue, away games are often in another zone
+  const [timeZone, setTimeZone] = useState(() => event?.timeZone ?? localTimeZone());
+  const [zones] = useState(timeZones);
+  // Clashes found for the fields as they are
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [error, setError] = useState("");
   const [gameTypeError, setGameTypeError] = useState(false)
   const [teamError, setTeamError] = useState(false)
   const [eventNameError, setEventNameError] = useState(false)
@@ -44,6 +110,8 @@ export function EventForm({
   const [costError, setCostError] = useState(false)
   const [numPlayersError, setNumPlayersError] = useState(false)
 
+  useEffect(() => setConflicts([]), [eventInfo, timeZone]);
+
   let Comp = FormTeam;
   let Confirm = TeamConfirmationView;
 
@@ -59,6 +127,8 @@ export function EventForm({
   }
 
   const onCreateEvent = () => {
+    if (!eventInfo) return
+
     if (!eventInfo.sportId) setGameTypeError(true)
     if (!eventInfo.teamId) setTeamError(true)
     if (!eventInfo.name) setEventNameError(true)
@@ -70,43 +140,60 @@ export function EventForm({
     if (!eventInfo.numPlayers) setNumPlayersError(true)
 
     if (!eventInfo.sportId || !eventInfo.teamId || !eventInfo.name || !eventInfo.date || !eventInfo.startTime || !eventInfo.endTime || !eventInfo.location || !eventInfo.cost || !eventInfo.numPlayers) return
-    fetch("http://127.0.0.1:5001/createEvent", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        ...eventInfo,
-        token: window.localStorage.getItem("token"),
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setConfirmation(true)
-      if (data.data == "token expired") {
-        window.localStorage.clear();
-        window.location.href = "./login";
-      }
-    });
+
+    // Asked again with the clashes listed, the organiser goes ahead anyway
+    if (conflicts.length > 0) {
+      save(eventInfo)
+      return
+    }
+
+    // The organiser and everyone invited, against what they already go to
+    const checked = { ...eventInfo, timeZone, repeat: "", rrule: eventInfo.rrule ?? undefined };
+    api.events.busy({ userIds: eventInfo.members, excludeEventId: event?.id })
+      // Clashes are only a warning, the event is saved without the check
+      .catch((): BusyEvent[] => [])
+      .then((busy) => {
+        const found = findConflicts(checked, busy);
+        if (found.length > 0) setConflicts(found);
+        else save(eventInfo);
+      });
+  }
+
+  const save = (eventInfo: CreateEventRequest) => {
+    setError("");
+    if (event) {
+      const seriesRule = scope === "future" && occurrenceDate ? splitRule(event, occurrenceDate).before : undefined;
+      api.events.update({ ...eventInfo, timeZone, eventId: event.id, eventType: type, scope, occurrenceDate, seriesRule })
+        .then((eventId) => {
+          onAfterConfirm();
+          onSaved?.(eventId);
+        })
+        .catch((error) => setError(error.message));
+      return
+    }
+    api.events.create({ ...eventInfo, eventType: type, timeZone })
+      .then((eventId) => {
+        setCreatedId(eventId);
+        setConfirmation(true);
+      })
+      .catch((error) => setError(error.message));
 
   }
 
-  if (confirmation)
-    return <Confirm eventInfo={eventInfo} onClose={onAfterConfirm} />;
+  if (confirmation && eventInfo && createdId)
+    return <Confirm eventInfo={{ ...eventInfo, timeZone }} eventId={createdId} onClose={onAfterConfirm} />;
   else
     return (
       <>
         <Dialog.Title as='header' className='relative mb-12'>
           <h2 className='text-center text-2xl font-bold desk-dialog:mx-16'>
-            Create {renderTitle(type)} Event
+            {event ? "Edit" : "Create"} {renderTitle(type)} Event
           </h2>
           <DialogCrossButton onClick={props.onClose} />
         </Dialog.Title>
         <section className='desk-dialog:w-[43.5rem]'>
           <Comp
+            initial={initial}
             setEventInfo={setEventInfo}
             gameTypeError={gameTypeError}
             teamError={teamError}
@@ -127,8 +214,22 @@ export function EventForm({
             setCostError={setCostError}
             setNumPlayersError={setNumPlayersError}
           />
+          <ListBox
+            className='mt-5 w-full'
+            label='Time zone of the venue'
+            selected={timeZone}
+            onChangeValue={setTimeZone}
+            data={zones}
+            renderFunc={(zone) => zone.replace(/_/g, " ")}
+          />
         </section>
 
+        {conflicts.length > 0 && (
+          <ConflictList conflicts={conflicts} showMembers openInNewTab className='mt-12 desk-dialog:w-[43.5rem]' />
+        )}
+
+        {error && <p className='mt-12 text-sm text-pink desk-dialog:w-[43.5rem]'>{error}</p>}
+
         <footer className='mt-20 flex gap-x-7 sm:justify-center'>
           <button
             onClick={props.onClose}
@@ -141,7 +242,7 @@ export function EventForm({
             onClick={onCreateEvent}
             className='relative flex flex-1 items-center justify-center rounded-half bg-blue-high py-3 text-dim-black hover:bg-blue-high/80 sm:flex-initial sm:px-14'
           >
-            Create Event
+            {conflicts.length > 0 ? (event ? "Save Anyway" : "Create Anyway") : event ? "Save Changes" : "Create Event"}
           </button>
         </footer>
       </>
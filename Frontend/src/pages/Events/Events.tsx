@@ -1,11 +1,16 @@
-import React, { Component, useEffect, useState } from "react";
+import React, { Component, useEffect, useMemo, useState } from "react";
 import cx from "classnames";
 
 import { PageView } from "layout/PageView";
+import { api, useQuery } from "api";
+import type { EventPayment, EventSummary, ExploreEventsRequest } from "api";
+import type { EventStatus } from "types/domain";
 
 import { Tab } from "@headlessui/react";
 import { EventCard } from "./EventCard";
 import { EventCreator } from "./EventCreator";
+import { CalendarFeedButton, DownloadCalendarButton } from "./CalendarExport";
+import { ExploreEvents } from "./ExploreEvents";
 import CalenderComponent from "components/CalendarComponent";
 
 import "./styles.css";
@@ -20,6 +25,13 @@ import EventOneIcon from "../Dashboard/icons/event-one.svg";
 import EventTwoIcon from "../Dashboard/icons/event-two.svg";
 import EventThreeIcon from "../Dashboard/icons/event-three.svg";
 import { ListBox } from "components/ListBox";
+import { Skeleton } from "components/Skeleton";
+import { addWeeks } from "date-fns";
+import { expandOccurrences, isRecurring } from "utils/recurrence";
+import { parseEventDate } from "utils/datetime";
+import { useDebouncedValue, useSearchParamsState } from "utils";
+import { groupEvents, useSortedEvents } from "utils/eventOrder";
+import { EventOrderControls } from "components/EventOrderControls";
 
 function FilterSelect(props: React.HTMLProps<HTMLButtonElement>) {
   return (
@@ -42,34 +54,53 @@ function FilterSelect(props: React.HTMLProps<HTMLButtonElement>) {
   );
 }
 
-function EventFilters(props: any) {
-  const { filtersOpen, selectedSport, setSelectedSport, selectedDate, setSelectedDate, setSearchKey, selectedPayment, setSelectedPayment, selectedLocation, setSelectedLocation } = props;
-  const [sports, setSports] = useState([])
+function DateFilter({ value, setValue, placeholder }: { value: string; setValue: (date: string) => void; placeholder: string }) {
   const [showCalendar, setShowCalendar] = useState(false)
 
-  const clearFilter = () => {
-    setSelectedSport(null)
-    setSelectedDate("")
-    setSearchKey("")
-    setSelectedLocation("")
-    setSelectedPayment(null)
-  }
+  return (
+    <div className='relative flex min-w-[theme("spacing.48")] rounded-card border border-grey-high px-3 py-2.5'>
+      <input
+        onFocus={() => setShowCalendar(true)}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className='flex-1 appearance-none bg-transparent text-white placeholder:text-grey-subtle'
+        placeholder={placeholder}
+        size={1}
+      />
+      <img
+        className='pointer-events-none absolute right-0 mx-3 w-6 self-center'
+        src={IconDate}
+      />
+      {
+          showCalendar &&
+            <div className="absolute calendar z-10">
+              <CalenderComponent value={value} setSelectedDate={setValue} outSideClickFunc={() => setShowCalendar(false)} />
+            </div>
+        }
+    </div>
+  );
+}
+
+interface EventFiltersProps {
+  // Always shown on desktop, opened with the filter button on phones
+  filtersOpen: boolean;
+  selectedSport: string | null;
+  setSelectedSport: (sport: string | null) => void;
+  dateFrom: string;
+  setDateFrom: (from: string) => void;
+  dateTo: string;
+  setDateTo: (to: string) => void;
+  selectedPayment: EventPayment | null;
+  setSelectedPayment: (payment: EventPayment | null) => void;
+  selectedLocation: string;
+  setSelectedLocation: (location: string) => void;
+  clearFilters: () => void;
+}
+
+function EventFilters(props: EventFiltersProps) {
+  const { filtersOpen, selectedSport, setSelectedSport, dateFrom, setDateFrom, dateTo, setDateTo, selectedPayment, setSelectedPayment, selectedLocation, setSelectedLocation, clearFilters } = props;
+  const { data: sports = [] } = useQuery(api.sports.list);
 
-  useEffect(() => {
-    fetch("http://127.0.0.1:5001/getSports", {
-      method: "GET",
-      crossDomain: true,
-      headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      "Access-Control-Allow-Origin": "*",
-      }
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setSports(data.data);
-    });
-  }, [])
   // <div className='mt-7 hidden flex-wrap items-center gap-x-4 gap-y-5 md:flex'>
   return (
     <div
@@ -96,26 +127,8 @@ function EventFilters(props: any) {
         onChangeValue={setSelectedPayment}
         data={["Free", "Not Free"]}
       />
-      <div className='relative flex min-w-[theme("spacing.48")] rounded-card border border-grey-high px-3 py-2.5'>
-        <input
-          onFocus={() => setShowCalendar(true)}
-          value={selectedDate}
-          onChange={(e) => setSelectedDate(e.target.value)}
-          className='flex-1 appearance-none bg-transparent text-white placeholder:text-grey-subtle'
-          placeholder='Select date'
-          size={1}
-        />
-        <img
-          className='pointer-events-none absolute right-0 mx-3 w-6 self-center'
-          src={IconDate}
-        />
-        {
-            showCalendar &&
-              <div className="absolute calendar z-10">
-                <CalenderComponent setSelectedDate={setSelectedDate} outSideClickFunc={() => setShowCalendar(false)} />
-              </div>
-          }
-      </div>
+      <DateFilter value={dateFrom} setValue={setDateFrom} placeholder='From date' />
+      <DateFilter value={dateTo} setValue={setDateTo} placeholder='To date' />
 
       <div className='relative flex min-w-[theme("spacing.96")] rounded-card border border-grey-high px-3 py-2.5'>
         <input
@@ -135,7 +148,7 @@ function EventFilters(props: any) {
       /> */}
       <s className='flex-1' />
       <p
-        onClick={clearFilter}
+        onClick={clearFilters}
         role='button'
         className='self-center text-dim-white underline transition-colors hover:text-blue-high'
       >
@@ -145,122 +158,125 @@ function EventFilters(props: any) {
   );
 }
 
-function EventGrid({events} : any) {
+function EventGrid({events, loading} : {events: EventSummary[]; loading: boolean}) {
+  const { order, sorted } = useSortedEvents(events);
+  const { groups, past } = groupEvents(sorted, order.grouping);
+  const [showPast, setShowPast] = useState(false);
+
+  const cards = (events: EventSummary[]) =>
+    events.map((event, index) => {
+      return (
+        <EventCard
+          key={index}
+          iconUrl={EventOneIcon}
+          accentColorClass='[--ev-card-accent-color:theme("colors.yellow")]'
+          event={event}
+        />
+      )
+    })
+
   return (
-    <section className='mb-12 mt-7 grid grid-cols-1 gap-x-3 gap-y-4 md:grid-cols-2 desktop:grid-cols-4'>
+    <div className='mb-12 mt-7'>
+      {loading && (
+        <section className='grid grid-cols-1 gap-x-3 gap-y-4 md:grid-cols-2 desktop:grid-cols-4'>
+          {[0, 1, 2, 3].map((index) => <Skeleton key={index} className='h-48 rounded-card' />)}
+        </section>
+      )}
       {
-        events.map((event: any, index: number) => {
-          return (
-            <EventCard
-              key={index}
-              iconUrl={EventOneIcon}
-              accentColorClass='[--ev-card-accent-color:theme("colors.yellow")]'
-              event={event}
-            />
-          )
-        }
-        )
+        groups.map((group) => (
+          <React.Fragment key={group.key}>
+            {group.label && <h2 className='mb-3 mt-6 text-lg font-medium first:mt-0'>{group.label}</h2>}
+            <section className='grid grid-cols-1 gap-x-3 gap-y-4 md:grid-cols-2 desktop:grid-cols-4'>
+              {cards(group.events)}
+            </section>
+          </React.Fragment>
+        ))
       }
-    </section>
+      {past.length > 0 && (
+        <>
+          <button
+            onClick={() => setShowPast(x => !x)}
+            className='mb-3 mt-6 text-dim-white underline transition-colors hover:text-blue-high'
+          >
+            {showPast ? "Hide" : "Show"} past events ({past.length})
+          </button>
+          {showPast && (
+            <section className='grid grid-cols-1 gap-x-3 gap-y-4 opacity-70 md:grid-cols-2 desktop:grid-cols-4'>
+              {cards(past)}
+            </section>
+          )}
+        </>
+      )}
+    </div>
   );
 }
 
-export function Events() {
-  const [searchOpen, setSearchOpen] = useState(false);
-  const [filtersOpen, setfiltersOpen] = useState(false);
-
-  const [loaded, setLoaded] = useState(false);
+const NO_EVENTS: EventSummary[] = [];
 
-  const [userData, setUserData] = useState("");
-  const [myEvents, setMyEvents] = useState([]);
-  const [allEvents, setAllEvents] = useState([]);
-  const [showEvents, setShowEvents] = useState([])
-  const [selectedSport, setSelectedSport] = useState(null)
-  const [selectedDate, setSelectedDate] = useState("");
-  const [searchKey, setSearchKey] = useState("")
-  const [selectedPayment, setSelectedPayment] = useState(null)
-  const [selectedLocation, setSelectedLocation] = useState("")
+// Kept in the url, see useSearchParamsState()
+const EVENT_FILTERS = { tab: "mine", sport: "", payment: "", from: "", to: "", location: "", q: "" };
+const EVENT_TABS = ["mine", "explore"];
 
-  const [admin, setAdmin] = useState(false);
+// Events on a waitlist are listed with the ones the user is going to
+const MY_EVENT_STATUSES: EventStatus[] = ["Accepted", "Waitlisted"];
 
-  useEffect(() => {
-      fetch("http://127.0.0.1:5001/getUserData", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
-          body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-        }),
-      })
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.data.userType == "Admin") {
-            setAdmin(true);
-        }
+// How far ahead recurring events are listed when no date is picked
+const UPCOMING_WEEKS = 8;
 
-        setUserData(data.data);
-
-        if (data.data == "token expired") {
-          if (window.location.pathname !== "/login") {
-            window.localStorage.clear();
-            window.location.href = "../../login";
-          }
-        }
-      });
+// One card per occurrence between the picked "dd/mm/yyyy" dates, either can
+// be empty. Recurring events are listed for some weeks when the range is open
+// ended.
+function occurrencesOf(events: EventSummary[], from: string, to: string) {
+  const start = from !== "" ? parseEventDate(from) : null;
+  const end = to !== "" ? parseEventDate(to) : null;
+  return events.flatMap(event => {
+    if (!isRecurring(event)) {
+      const date = parseEventDate(event.date);
+      return (!start || date >= start) && (!end || date <= end) ? [event] : [];
+    }
+    const first = start ?? new Date();
+    return expandOccurrences(event, first, end ?? addWeeks(first, UPCOMING_WEEKS));
+  })
+}
 
-  }, []);
+export function Events() {
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [filtersOpen, setfiltersOpen] = useState(false);
 
-  useEffect(() => {
-    if(!userData) return;
+  const myEventsQuery = useQuery(api.events.list, [{ status: MY_EVENT_STATUSES }]);
+  const myEvents = myEventsQuery.data ?? NO_EVENTS;
+  const [showEvents, setShowEvents] = useState<EventSummary[]>([])
+  const [filters, setFilters] = useSearchParamsState(EVENT_FILTERS)
+  const selectedSport = filters.sport || null
+  const dateFrom = filters.from
+  const dateTo = filters.to
+  const searchKey = filters.q
+  const selectedPayment = (filters.payment || null) as EventPayment | null
+  const selectedLocation = filters.location
 
-    fetch("http://127.0.0.1:5001/getEvents", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-          status: "Pending Invite"
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setAllEvents(data.data);
-        setLoaded(true);
-    });
+  const setSelectedSport = (sport: string | null) => setFilters({ sport: sport ?? "" })
+  const setDateFrom = (from: string) => setFilters({ from })
+  const setDateTo = (to: string) => setFilters({ to })
+  const setSearchKey = (q: string) => setFilters({ q }, { replace: true })
+  const setSelectedPayment = (payment: EventPayment | null) => setFilters({ payment: payment ?? "" })
+  const setSelectedLocation = (location: string) => setFilters({ location }, { replace: true })
+  const clearFilters = () => setFilters({ sport: "", payment: "", from: "", to: "", location: "", q: "" })
 
-    fetch("http://127.0.0.1:5001/getEvents", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-          status: "Accepted"
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setMyEvents(data.data);
-        setShowEvents(data.data)
-        setLoaded(true);
-    });
-  }, [userData]);
+  // Explore Events filters on the backend, text is sent once typing stops
+  const exploreSearch = useDebouncedValue(searchKey)
+  const exploreLocation = useDebouncedValue(selectedLocation)
+  const exploreFilters = useMemo<ExploreEventsRequest>(() => ({
+    sport: selectedSport ?? undefined,
+    from: dateFrom || undefined,
+    to: dateTo || undefined,
+    payment: selectedPayment ?? undefined,
+    location: exploreLocation || undefined,
+    search: exploreSearch || undefined
+  }), [selectedSport, dateFrom, dateTo, selectedPayment, exploreLocation, exploreSearch])
 
   useEffect(() => {
-    let newEvents = [...myEvents];
+    let newEvents = occurrencesOf(myEvents, dateFrom, dateTo);
     if (selectedSport !== null) newEvents = newEvents.filter(event => event.sport === selectedSport)
-    if (selectedDate !== "") newEvents = newEvents.filter(event => event.date === selectedDate)
     if (selectedPayment === "Free") newEvents = newEvents.filter(event => parseInt(event.cost) === 0)
     if (selectedPayment === "Not Free") newEvents = newEvents.filter(event => parseInt(event.cost) > 0)
     if (searchKey !== "") newEvents = newEvents.filter(event => {
@@ -271,7 +287,7 @@ export function Events() {
       if (event.location.toString().toLowerCase().indexOf(selectedLocation.toString().toLowerCase()) > -1 ) return true
     })
     setShowEvents(newEvents)
-  }, [selectedSport, selectedDate, searchKey, selectedPayment, selectedLocation])
+  }, [myEvents, selectedSport, dateFrom, dateTo, searchKey, selectedPayment, selectedLocation])
 
   return (
     <PageView
@@ -302,13 +318,19 @@ export function Events() {
         <div className='mb-6 flex overflow-hidden rounded-card border border-grey-high desktop:hidden'>
           <img className='mx-4 my-3 w-6' src={SearchIcon} />
           <input
+            value={searchKey}
+            onChange={(e) => setSearchKey(e.target.value)}
             className='flex-1 bg-transparent text-white'
             placeholder='Search for event'
             size={1}
           />
         </div>
       )}
-      <Tab.Group manual defaultIndex={0}>
+      <Tab.Group
+        manual
+        selectedIndex={Math.max(0, EVENT_TABS.indexOf(filters.tab))}
+        onChange={(index) => setFilters({ tab: EVENT_TABS[index] })}
+      >
         <Tab.List className='flex gap-x-2 desktop:items-center'>
           <Tab className='app-tab flex-1 desktop:flex-initial'>
             My Events
@@ -337,24 +359,31 @@ export function Events() {
             </EventCreator>
           </div>
         </Tab.List>
+        <EventFilters
+          filtersOpen={filtersOpen}
+          selectedSport={selectedSport}
+          setSelectedSport={setSelectedSport}
+          dateFrom={dateFrom}
+          setDateFrom={setDateFrom}
+          dateTo={dateTo}
+          setDateTo={setDateTo}
+          clearFilters={clearFilters}
+          selectedPayment={selectedPayment}
+          setSelectedPayment={setSelectedPayment}
+          selectedLocation={selectedLocation}
+          setSelectedLocation={setSelectedLocation} />
         <Tab.Panels>
           <Tab.Panel>
-            <EventFilters
-              filtersOpen={filtersOpen}
-              selectedSport={selectedSport}
-              setSelectedSport={setSelectedSport}
-              selectedDate={selectedDate}
-              setSelectedDate={setSelectedDate}
-              setSearchKey={setSearchKey}
-              selectedPayment={selectedPayment}
-              setSelectedPayment={setSelectedPayment}
-              selectedLocation={selectedLocation}
-              setSelectedLocation={setSelectedLocation} />
-            <EventGrid events={showEvents} />
+            <div className='mt-7 flex flex-wrap items-center justify-end gap-2.5'>
+              <EventOrderControls className='mr-auto' />
+              <DownloadCalendarButton fileName='playmate-events' events={myEvents.filter((event) => event.status === "Accepted")} />
+              <CalendarFeedButton />
+            </div>
+            <EventGrid events={showEvents} loading={myEventsQuery.loading} />
             <p>&nbsp;</p>
           </Tab.Panel>
           <Tab.Panel >
-            <EventGrid events={allEvents} />
+            <ExploreEvents key={JSON.stringify(exploreFilters)} filters={exploreFilters} />
           </Tab.Panel>
         </Tab.Panels>
       </Tab.Group>
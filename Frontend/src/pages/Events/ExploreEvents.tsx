@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api, useQuery } from "api";
+import type { ExploreEvent, ExploreEventsRequest } from "api";
+import { Skeleton } from "components/Skeleton";
+import { EventCard } from "./EventCard";
+import EventTwoIcon from "../Dashboard/icons/event-two.svg";
+
+function JoinButton({ event }: { event: ExploreEvent }) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const requested = event.status === "Requested";
+
+  const onClick = () => {
+    setBusy(true);
+    setError("");
+    (requested ? api.events.reject(event.id) : api.events.requestToJoin(event.id))
+      .catch((error) => setError(error.message))
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <div className='mr-2 flex flex-col items-end gap-y-1.5 self-start'>
+      <button
+        disabled={busy}
+        onClick={onClick}
+        className={
+          requested
+            ? "rounded-half bg-grey-high px-4 py-2 text-sm hover:bg-blue-high/10"
+            : "rounded-half bg-blue-high px-4 py-2 text-sm text-sheet hover:bg-blue-high/80"
+        }
+      >
+        {requested ? "Cancel request" : "Request to join"}
+      </button>
+      {error && <p className='text-sm text-pink'>{error}</p>}
+    </div>
+  );
+}
+
+interface ExplorePageProps {
+  filters: ExploreEventsRequest;
+  cursor: string | null;
+  // The last page tells where the next one starts
+  onNextCursor?: (cursor: string | null) => void;
+}
+
+function ExplorePage({ filters, cursor, onNextCursor }: ExplorePageProps) {
+  const { data, loading } = useQuery(api.events.explore, [{ ...filters, cursor }]);
+
+  useEffect(() => {
+    if (data) onNextCursor?.(data.nextCursor);
+  }, [data, onNextCursor]);
+
+  if (loading) {
+    return <>{[0, 1, 2, 3].map((index) => <Skeleton key={index} className='h-48 rounded-card' />)}</>;
+  }
+  return (
+    <>
+      {data?.events.map((event) => (
+        <EventCard
+          key={event.id}
+          iconUrl={EventTwoIcon}
+          accentColorClass='[--ev-card-accent-color:theme("colors.blue-high")]'
+          event={event}
+          actions={<JoinButton event={event} />}
+        />
+      ))}
+    </>
+  );
+}
+
+// Fetches the next page once it scrolls into view, clicking works too
+function LoadMoreButton({ onLoadMore }: { onLoadMore: () => void }) {
+  const ref = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) onLoadMore();
+    }, { rootMargin: "200px" });
+    if (ref.current) observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [onLoadMore]);
+
+  return (
+    <button
+      ref={ref}
+      onClick={onLoadMore}
+      className='mx-auto mb-12 block rounded-half bg-grey-high px-4 py-2 text-white hover:bg-blue-high/10'
+    >
+      Load more
+    </button>
+  );
+}
+
+// Public events the user can ask to join, a page at a time. Render it with a
+// `key` made from the filters so changing them starts over from the first page.
+export function ExploreEvents({ filters }: { filters: ExploreEventsRequest }) {
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null | undefined>(undefined);
+  const { data: firstPage } = useQuery(api.events.explore, [{ ...filters, cursor: null }]);
+
+  const onLoadMore = useCallback(() => {
+    if (!nextCursor) return;
+    setCursors((cursors) => (cursors.includes(nextCursor) ? cursors : [...cursors, nextCursor]));
+    setNextCursor(undefined);
+  }, [nextCursor]);
+
+  return (
+    <>
+      <section className='mb-12 mt-7 grid grid-cols-1 gap-x-3 gap-y-4 md:grid-cols-2 desktop:grid-cols-4'>
+        {cursors.map((cursor, index) => (
+          <ExplorePage
+            key={cursor ?? ""}
+            filters={filters}
+            cursor={cursor}
+            onNextCursor={index === cursors.length - 1 ? setNextCursor : undefined}
+          />
+        ))}
+      </section>
+      {firstPage?.events.length === 0 && (
+        <p className='mb-12 text-center text-grey-type'>No open events match these filters</p>
+      )}
+      {nextCursor && <LoadMoreButton onLoadMore={onLoadMore} />}
+    </>
+  );
+}
@@ -13,34 +13,44 @@ import CalenderComponent from "components/CalendarComponent";
 import { TimePicker } from "components/TimePicker";
 import usePlacesService from "react-google-autocomplete/lib/usePlacesAutocompleteService"
 import { LocationList } from "components/LocationList";
-
-export function FormNetwork(props: any) {
-  const { setEventInfo, gameTypeError, teamError, eventNameError, dateError, startTimeError, endTimeError, locationError, costError, numPlayersError,
+import type { LocationPrediction } from "components/LocationList";
+import { placeCoordinates } from "utils/geo";
+import { formatClock, useHourCycle } from "utils/datetime";
+import { api, useQuery } from "api";
+import type { TeamSummary } from "api";
+import type { Id } from "types/domain";
+import type { EventFormFieldsProps } from "./common";
+import { RecurrenceFields } from "./RecurrenceFields";
+
+export function FormNetwork(props: EventFormFieldsProps) {
+  const { initial, setEventInfo, gameTypeError, teamError, eventNameError, dateError, startTimeError, endTimeError, locationError, costError, numPlayersError,
     setGameTypeError, setTeamError, setEventNameError, setDateError, setStartTimeError, setEndTimeError, setLocationError, setCostError, setNumPlayersError } = props;
-  const [allFriends, setAllFriends] = useState([]);
-  const [sportsData, setSportsData] = useState([]);
-  const [networks, setNetworks] = useState([]);
-  const [eventName, setEventName] = useState("");
-  const [date, setDate] = useState("");
-  const [startTime, setStartTime] = useState("");
-  const [endTime, setEndTime] = useState("");
-  const [eventLocation, setEventLocation] = useState("");
-  const [recurringEvent, setRecurringEvent] = useState(false);
-  const [description, setDescription] = useState("");
+  const { data: allFriends = [] } = useQuery(api.friends.list);
+  const { data: sportsData = [] } = useQuery(api.sports.list);
+  const [networks, setNetworks] = useState<TeamSummary[]>([]);
+  const [eventName, setEventName] = useState(initial?.name ?? "");
+  const [date, setDate] = useState(initial?.date ?? "");
+  const [startTime, setStartTime] = useState(initial?.startTime ?? "");
+  const [endTime, setEndTime] = useState(initial?.endTime ?? "");
+  const [hourCycle] = useHourCycle();
+  const [eventLocation, setEventLocation] = useState(initial?.location ?? "");
+  const [coordinates, setCoordinates] = useState(initial?.coordinates);
+  const [rrule, setRrule] = useState(initial?.rrule ?? null);
+  const [description, setDescription] = useState(initial?.description ?? "");
   const [registerPlaymate, setRegisterPlaymate] = useState(false);
-  const [numPlayers, setNumPlayers] = useState("");
-  const [cost, setCost] = useState("");
-  const [members, setMembers] = useState([]);
-  const [selectedSportId, setSelectedSportId] = useState("")
-  const [selectedTeamId, setSelectedTeamId] = useState("")
+  const [numPlayers, setNumPlayers] = useState(initial?.numPlayers ?? "");
+  const [cost, setCost] = useState(initial?.cost ?? "");
+  const [members, setMembers] = useState<Id[]>(initial?.members ?? []);
+  const [selectedSportId, setSelectedSportId] = useState(initial?.sportId ?? "")
+  const [selectedTeamId, setSelectedTeamId] = useState(initial?.teamId ?? "")
   const [showCalendar, setShowCalendar] = useState(false)
   const [showStartTimePicker, setShowStartTimePicker] = useState(false)
   const [showEndTimePicker, setShowEndTimePicker] = useState(false)
-  const [locationList, setLocationList] = useState([]);
+  const [locationList, setLocationList] = useState<LocationPrediction[]>([]);
   const [showLocationList, setShowLocationList] = useState(false)
   const [searchKey, setSearchKey] = useState("")
-  const [selectedTeam, setSelectedTeam] = useState(null)
-  const [selectedGame, setSelectedGame] = useState(null)
+  const [selectedTeam, setSelectedTeam] = useState<string | null>(null)
+  const [selectedGame, setSelectedGame] = useState<string | null>(null)
 
   const {
     placesService,
@@ -54,52 +64,21 @@ export function FormNetwork(props: any) {
   const onChangeLocation = (key: string) => {
     setSearchKey(key)
     setEventLocation(key)
+    setCoordinates(undefined)
     getPlacePredictions({input: key})
   }
 
+  const onSelectLocation = (location: string, prediction: LocationPrediction) => {
+    setEventLocation(location)
+    placeCoordinates(placesService, prediction.place_id).then((found) => setCoordinates(found ?? undefined))
+  }
+
   useEffect(() => {
     setShowLocationList(true)
     setLocationList(placePredictions)
   }, [searchKey])
 
   useEffect(() => {
-    fetch("http://127.0.0.1:5001/getFriends", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "  *",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setAllFriends(data.data);
-
-      if (data.data == "token expired") {
-        window.localStorage.clear();
-        window.location.href = "./login";
-      }
-    });
-
-    fetch("http://127.0.0.1:5001/getSports", {
-      method: "GET",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      }
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setSportsData(data.data);
-      }
-    );
-
     // fetch("http://127.0.0.1:5001/getNetworks", {
     //     method: "POST",
     //     crossDomain: true,
@@ -148,7 +127,7 @@ export function FormNetwork(props: any) {
 
   const onSelectTeam = (value: string) => {
     setSelectedTeam(value)
-    teams.forEach(data => {
+    networks.forEach(data => {
       if (data.name === value) setSelectedTeamId(data.id)
     })
   }
@@ -173,17 +152,18 @@ export function FormNetwork(props: any) {
       name: eventName,
       description,
       location: eventLocation,
+      coordinates,
       date,
       startTime,
       endTime,
       teamId: selectedTeamId,
       sportId: selectedSportId,
-      repeat: recurringEvent,
+      rrule,
       members,
       numPlayers,
       cost: cost,
     })
-  }, [selectedSportId, selectedTeamId, eventName, date, startTime, endTime, eventLocation, recurringEvent, numPlayers, cost, description, registerPlaymate, members]);
+  }, [selectedSportId, selectedTeamId, eventName, date, startTime, endTime, eventLocation, coordinates, rrule, numPlayers, cost, description, registerPlaymate, members]);
 
   return (
     <>
@@ -195,7 +175,7 @@ export function FormNetwork(props: any) {
             className='min-w-[12rem]'
             label='Game Type'
             placeholder='Sports'
-            selected={selectedGame}
+            selected={selectedGame ?? sportsData.find((sport) => sport.id === selectedSportId)?.name ?? null}
             onChangeValue={() => {}}
             data={sportsData.map((sport) => {
               return sport.name;
@@ -209,10 +189,12 @@ export function FormNetwork(props: any) {
           <ListBox
             className='min-w-[12rem]'
             label='Select network'
-            selected={selectedTeam}
-            onChangeValue={() => {}}
+            selected={selectedTeam ?? networks.find((team) => team.id === selectedTeamId)?.name ?? null}
+            onChangeValue={onSelectTeam}
             placeholder='Choose community'
-            data={[1, 2, 3]}
+            data={networks.map((network) => {
+              return network.name;
+            })}
           />
           {
             teamError && <div className="mt-2" style={{color: "red"}}>Please select team</div>
@@ -222,7 +204,7 @@ export function FormNetwork(props: any) {
 
       {/* Row */}
       <div className='mt-5 flex flex-wrap gap-5'>
-      <InputComponent label='Event name' onChange={setEventName} placeholder='Name of event' type='text' style='min-w-full' showError={eventNameError} />
+      <InputComponent label='Event name' init={eventName} onChange={setEventName} placeholder='Name of event' type='text' style='min-w-full' showError={eventNameError} />
       </div>
 
       {/* Row */}
@@ -242,7 +224,7 @@ export function FormNetwork(props: any) {
           {
             showCalendar &&
               <div className="absolute calendar z-10 calendar-outline">
-                <CalenderComponent setSelectedDate={setDate} outSideClickFunc={() => setShowCalendar(false)} />
+                <CalenderComponent value={date} setSelectedDate={setDate} outSideClickFunc={() => setShowCalendar(false)} />
               </div>
           }
           {
@@ -255,7 +237,7 @@ export function FormNetwork(props: any) {
             <div className='app-textbox-area'>
               <input
                 onFocus={() => setShowStartTimePicker(true)}
-                value={startTime}
+                value={formatClock(startTime, hourCycle)}
                 size={1}
                 placeholder='00:00' />
               <img className='mr-2 w-6' src={IconTime} />
@@ -264,7 +246,7 @@ export function FormNetwork(props: any) {
           {
             showStartTimePicker &&
               <div className="absolute time-picker z-10 calendar-outline">
-                <TimePicker setSelectedTime={setStartTime} outSideClickFunc={() => setShowStartTimePicker(false)} />
+                <TimePicker value={startTime} setSelectedTime={setStartTime} outSideClickFunc={() => setShowStartTimePicker(false)} />
               </div>
           }
           {
@@ -277,7 +259,7 @@ export function FormNetwork(props: any) {
             <div className='app-textbox-area'>
               <input
                 onFocus={() => setShowEndTimePicker(true)}
-                value={endTime}
+                value={formatClock(endTime, hourCycle)}
                 size={1}
                 placeholder='00:00' />
               <img className='mr-2 w-6' src={IconTime} />
@@ -286,7 +268,7 @@ export function FormNetwork(props: any) {
           {
             showEndTimePicker &&
               <div className="absolute time-picker z-10 calendar-outline">
-                <TimePicker setSelectedTime={setEndTime} outSideClickFunc={() => setShowEndTimePicker(false)} startTime={startTime} />
+                <TimePicker value={endTime} setSelectedTime={setEndTime} outSideClickFunc={() => setShowEndTimePicker(false)} startTime={startTime} />
               </div>
           }
           {
@@ -309,20 +291,17 @@ export function FormNetwork(props: any) {
           }
         </div>
         {
-          locationList.length > 0 && showLocationList && <LocationList setEventLocation={setEventLocation} outSideClickFunc={() => setShowLocationList(false)} list={locationList} />
+          locationList.length > 0 && showLocationList && <LocationList setEventLocation={onSelectLocation} outSideClickFunc={() => setShowLocationList(false)} list={locationList} />
         }
       </div>
 
-      <label className='app-checkbox mt-5'>
-      <input onChange={(event) => setRecurringEvent(event.target.checked)} type='checkbox' />
-        Recurring event?
-      </label>
+      <RecurrenceFields rrule={rrule} setRrule={setRrule} date={date} />
 
       <div className='mt-5 flex flex-wrap gap-5'>
         <div className='app-textbox min-w-full sm:min-w-[24rem]'>
           <label>Description</label>
           <div className='app-textbox-area'>
-          <textarea onChange={(event) => setDescription(event.target.value)} placeholder='Enter any addition description here' />
+          <textarea value={description} onChange={(event) => setDescription(event.target.value)} placeholder='Enter any addition description here' />
           </div>
         </div>
       </div>
@@ -337,6 +316,7 @@ export function FormNetwork(props: any) {
       <div className='mt-5 flex flex-col'>
         <InputComponent
           label='Number of players'
+          init={numPlayers}
           onChange={setNumPlayers}
           type='text'
           style='min-w-full sm:min-w-[24rem]'
@@ -346,6 +326,7 @@ export function FormNetwork(props: any) {
       <div className='mt-5 flex flex-col'>
         <InputComponent
           label='Estimated cost of event'
+          init={cost}
           onChange={setCost}
           prefix={<span className='ml-2 text-grey-classic'>$</span>}
           type='text'
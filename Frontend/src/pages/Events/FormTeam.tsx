@@ -17,35 +17,49 @@ import CalenderComponent from "components/CalendarComponent";
 import { TimePicker } from "components/TimePicker";
 import usePlacesService from "react-google-autocomplete/lib/usePlacesAutocompleteService"
 import { LocationList } from "components/LocationList";
-
-export function FormTeam(props: any) {
-  const { setEventInfo, gameTypeError, teamError, eventNameError, dateError, startTimeError, endTimeError, locationError, costError, numPlayersError,
+import { EventLineup } from "components/MembersAndLineup/EventLineup";
+import type { LocationPrediction } from "components/LocationList";
+import { placeCoordinates } from "utils/geo";
+import { formatClock, localTimeZone, useHourCycle, zoneName } from "utils/datetime";
+import { api, useQuery } from "api";
+import type { UserProfile } from "api";
+import type { Id, User } from "types/domain";
+import type { ConfirmationViewProps, EventFormFieldsProps } from "./common";
+import { RecurrenceFields } from "./RecurrenceFields";
+import { OpponentField } from "./OpponentField";
+
+export function FormTeam(props: EventFormFieldsProps) {
+  const { initial, setEventInfo, gameTypeError, teamError, eventNameError, dateError, startTimeError, endTimeError, locationError, costError, numPlayersError,
     setGameTypeError, setTeamError, setEventNameError, setDateError, setStartTimeError, setEndTimeError, setLocationError, setCostError, setNumPlayersError } = props;
-  const [allFriends, setAllFriends] = useState([]);
-  const [showFriends, setShowFriends] = useState([]);
-  const [sportsData, setSportsData] = useState([]);
-  const [teams, setTeams] = useState([]);
-  const [eventName, setEventName] = useState("");
-  const [date, setDate] = useState("");
-  const [startTime, setStartTime] = useState("");
-  const [endTime, setEndTime] = useState("");
-  const [eventLocation, setEventLocation] = useState("");
-  const [recurringEvent, setRecurringEvent] = useState(false);
-  const [description, setDescription] = useState("");
+  const { data: friends } = useQuery(api.friends.list);
+  const allFriends = friends ?? [];
+  const [showFriends, setShowFriends] = useState<User[]>([]);
+  const { data: sportsData = [] } = useQuery(api.sports.list);
+  const { data: teams = [] } = useQuery(api.teams.list);
+  const [eventName, setEventName] = useState(initial?.name ?? "");
+  const [date, setDate] = useState(initial?.date ?? "");
+  const [startTime, setStartTime] = useState(initial?.startTime ?? "");
+  const [endTime, setEndTime] = useState(initial?.endTime ?? "");
+  const [hourCycle] = useHourCycle();
+  const [eventLocation, setEventLocation] = useState(initial?.location ?? "");
+  const [coordinates, setCoordinates] = useState(initial?.coordinates);
+  const [rrule, setRrule] = useState(initial?.rrule ?? null);
+  const [description, setDescription] = useState(initial?.description ?? "");
   const [registerPlaymate, setRegisterPlaymate] = useState(false);
-  const [numPlayers, setNumPlayers] = useState("");
-  const [cost, setCost] = useState("");
-  const [members, setMembers] = useState([]);
-  const [selectedSportId, setSelectedSportId] = useState("")
-  const [selectedTeamId, setSelectedTeamId] = useState("")
+  const [numPlayers, setNumPlayers] = useState(initial?.numPlayers ?? "");
+  const [cost, setCost] = useState(initial?.cost ?? "");
+  const [members, setMembers] = useState<Id[]>(initial?.members ?? []);
+  const [selectedSportId, setSelectedSportId] = useState(initial?.sportId ?? "")
+  const [selectedTeamId, setSelectedTeamId] = useState(initial?.teamId ?? "")
+  const [opponentId, setOpponentId] = useState(initial?.opponentId ?? "")
   const [showCalendar, setShowCalendar] = useState(false)
   const [showStartTimePicker, setShowStartTimePicker] = useState(false)
   const [showEndTimePicker, setShowEndTimePicker] = useState(false)
-  const [locationList, setLocationList] = useState([]);
+  const [locationList, setLocationList] = useState<LocationPrediction[]>([]);
   const [showLocationList, setShowLocationList] = useState(false)
   const [searchKey, setSearchKey] = useState("")
-  const [selectedTeam, setSelectedTeam] = useState(null)
-  const [selectedGame, setSelectedGame] = useState(null)
+  const [selectedTeam, setSelectedTeam] = useState<string | null>(null)
+  const [selectedGame, setSelectedGame] = useState<string | null>(null)
 
   const {
     placesService,
@@ -59,72 +73,20 @@ export function FormTeam(props: any) {
   const onChangeLocation = (key: string) => {
     setSearchKey(key)
     setEventLocation(key)
+    setCoordinates(undefined)
     getPlacePredictions({input: key})
   }
 
+  const onSelectLocation = (location: string, prediction: LocationPrediction) => {
+    setEventLocation(location)
+    placeCoordinates(placesService, prediction.place_id).then((found) => setCoordinates(found ?? undefined))
+  }
+
   useEffect(() => {
     setShowLocationList(true)
     setLocationList(placePredictions)
   }, [searchKey])
 
-  useEffect(() => {
-    fetch("http://127.0.0.1:5001/getFriends", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "  *",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setAllFriends(data.data);
-      setShowFriends(data.data)
-
-      if (data.data == "token expired") {
-        window.localStorage.clear();
-        window.location.href = "./login";
-      }
-    });
-
-    fetch("http://127.0.0.1:5001/getSports", {
-      method: "GET",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      }
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setSportsData(data.data);
-      }
-    );
-
-    fetch("http://127.0.0.1:5001/getTeams", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setTeams(data.data);
-    }
-    );
-  }, []);
-
   const onSelectMember = (selected: boolean, userId: string) => {
     let newMembers
     if (selected) {
@@ -179,17 +141,19 @@ export function FormTeam(props: any) {
       name: eventName,
       description,
       location: eventLocation,
+      coordinates,
       date,
       startTime,
       endTime,
       teamId: selectedTeamId,
+      opponentId: opponentId || undefined,
       sportId: selectedSportId,
-      repeat: recurringEvent,
+      rrule,
       members,
       numPlayers,
       cost: cost,
     })
-  }, [selectedSportId, selectedTeamId, eventName, date, startTime, endTime, eventLocation, recurringEvent, numPlayers, cost, description, registerPlaymate, members]);
+  }, [selectedSportId, selectedTeamId, opponentId, eventName, date, startTime, endTime, eventLocation, coordinates, rrule, numPlayers, cost, description, registerPlaymate, members]);
 
   useEffect(() => {
     if (searchKey) {
@@ -198,7 +162,7 @@ export function FormTeam(props: any) {
     } else {
       setShowFriends(allFriends)
     }
-  }, [searchKey])
+  }, [searchKey, friends])
 
   return (
     <>
@@ -210,7 +174,7 @@ export function FormTeam(props: any) {
             className='w-full'
             label='Game Type'
             placeholder='Sports'
-            selected={selectedGame}
+            selected={selectedGame ?? sportsData.find((sport) => sport.id === selectedSportId)?.name ?? null}
             onChangeValue={onSelectSportType}
             data={sportsData.map((sport) => {
               return sport.name;
@@ -225,7 +189,7 @@ export function FormTeam(props: any) {
             className='w-full'
             label='Select Team'
             placeholder='Choose Team'
-            selected={selectedTeam}
+            selected={selectedTeam ?? teams.find((team) => team.id === selectedTeamId)?.name ?? null}
             onChangeValue={onSelectTeam}
             data={teams.map((team) => {
               return team.name;
@@ -237,9 +201,16 @@ export function FormTeam(props: any) {
         </div>
       </div>
 
+      <OpponentField
+        opponentId={opponentId}
+        setOpponentId={setOpponentId}
+        sportId={selectedSportId}
+        teamId={selectedTeamId}
+        initialOpponentId={initial?.opponentId} />
+
       {/* Row */}
       <div className='mt-5 flex flex-wrap gap-5'>
-        <InputComponent label='Event name' onChange={setEventName} placeholder='Name of event' type='text' style='min-w-full' showError={eventNameError} />
+        <InputComponent label='Event name' init={eventName} onChange={setEventName} placeholder='Name of event' type='text' style='min-w-full' showError={eventNameError} />
       </div>
 
       {/* Row */}
@@ -259,7 +230,7 @@ export function FormTeam(props: any) {
           {
             showCalendar &&
               <div className="absolute calendar z-10 calendar-outline">
-                <CalenderComponent setSelectedDate={setDate} outSideClickFunc={() => setShowCalendar(false)} />
+                <CalenderComponent value={date} setSelectedDate={setDate} outSideClickFunc={() => setShowCalendar(false)} />
               </div>
           }
           {
@@ -272,7 +243,7 @@ export function FormTeam(props: any) {
             <div className='app-textbox-area'>
               <input
                 onFocus={() => setShowStartTimePicker(true)}
-                value={startTime}
+                value={formatClock(startTime, hourCycle)}
                 size={1}
                 placeholder='00:00' />
               <img className='mr-2 w-6' src={IconTime} />
@@ -281,7 +252,7 @@ export function FormTeam(props: any) {
           {
             showStartTimePicker &&
               <div className="absolute time-picker z-10 calendar-outline">
-                <TimePicker setSelectedTime={setStartTime} outSideClickFunc={() => setShowStartTimePicker(false)} />
+                <TimePicker value={startTime} setSelectedTime={setStartTime} outSideClickFunc={() => setShowStartTimePicker(false)} />
               </div>
           }
           {
@@ -294,7 +265,7 @@ export function FormTeam(props: any) {
             <div className='app-textbox-area'>
               <input
                 onFocus={() => setShowEndTimePicker(true)}
-                value={endTime}
+                value={formatClock(endTime, hourCycle)}
                 size={1}
                 placeholder='00:00' />
               <img className='mr-2 w-6' src={IconTime} />
@@ -303,7 +274,7 @@ export function FormTeam(props: any) {
           {
             showEndTimePicker &&
               <div className="absolute time-picker z-10 calendar-outline">
-                <TimePicker setSelectedTime={setEndTime} outSideClickFunc={() => setShowEndTimePicker(false)} startTime={startTime} />
+                <TimePicker value={endTime} setSelectedTime={setEndTime} outSideClickFunc={() => setShowEndTimePicker(false)} startTime={startTime} />
               </div>
           }
           {
@@ -326,20 +297,17 @@ export function FormTeam(props: any) {
           }
         </div>
         {
-          locationList.length > 0 && showLocationList && <LocationList setEventLocation={setEventLocation} outSideClickFunc={() => setShowLocationList(false)} list={locationList} />
+          locationList.length > 0 && showLocationList && <LocationList setEventLocation={onSelectLocation} outSideClickFunc={() => setShowLocationList(false)} list={locationList} />
         }
       </div>
 
-      <label className='app-checkbox mt-5'>
-        <input onChange={(event) => setRecurringEvent(event.target.checked)} type='checkbox' />
-        Recurring event?
-      </label>
+      <RecurrenceFields rrule={rrule} setRrule={setRrule} date={date} />
 
       <div className='mt-5 flex flex-wrap gap-5'>
         <div className='app-textbox min-w-full sm:min-w-[24rem]'>
           <label>Description</label>
           <div className='app-textbox-area'>
-            <textarea onChange={(event) => setDescription(event.target.value)} placeholder='Enter any addition description here' />
+            <textarea value={description} onChange={(event) => setDescription(event.target.value)} placeholder='Enter any addition description here' />
           </div>
         </div>
       </div>
@@ -354,6 +322,7 @@ export function FormTeam(props: any) {
       <div className='mt-5 flex flex-col'>
         <InputComponent
           label='Number of players'
+          init={numPlayers}
           onChange={setNumPlayers}
           type='text'
           style='min-w-full sm:min-w-[24rem]'
@@ -363,6 +332,7 @@ export function FormTeam(props: any) {
       <div className='mt-5 flex flex-col'>
         <InputComponent
           label='Estimated cost of event'
+          init={cost}
           onChange={setCost}
           prefix={<span className='ml-2 text-grey-classic'>$</span>}
           type='text'
@@ -396,67 +366,21 @@ export function FormTeam(props: any) {
   );
 }
 
-export function ConfirmationView(p: {onClose:() => void, eventInfo: any}) {
-  const [allSports, setAllSports] = useState([])
-  const [allTeams, setAllTeams] = useState([])
+export function ConfirmationView(p: ConfirmationViewProps) {
+  const { data: allSports = [] } = useQuery(api.sports.list);
+  const { data: allTeams = [] } = useQuery(api.teams.list);
   const [selectedSport, setSelectedSport] = useState("")
   const [selectedTeam, setSelectedTeam] = useState("")
-  const [members, setMembers] = useState([])
+  const [members, setMembers] = useState<UserProfile[]>([])
+  const [hourCycle] = useHourCycle();
+  const { timeZone, opponentId } = p.eventInfo;
+  const { data: opponent } = useQuery(api.teams.get, opponentId ? [opponentId] : null);
+  const { data: event } = useQuery(api.events.get, [p.eventId]);
 
   useEffect(() => {
-    let newMembers = []
-    for (let userId of p.eventInfo.members) {
-      fetch("http://127.0.0.1:5001/getUserData/" + userId, {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-        }
-      })
-      .then((res) => res.json())
-      .then((data) => {
-          newMembers.push(data.data)
-        }
-      );
-      if (newMembers.length > 4) break;
-    }
-
-    setMembers(newMembers)
-
-    fetch("http://127.0.0.1:5001/getSports", {
-      method: "GET",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      }
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setAllSports(data.data);
-      }
-    );
-
-    fetch("http://127.0.0.1:5001/getTeams", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setAllTeams(data.data);
-    }
-    );
+    Promise.all(p.eventInfo.members.slice(0, 5).map((userId) => api.users.get(userId)))
+      .then((users) => setMembers(users))
+      .catch(() => {});
   }, []);
 
   useEffect(() => {
@@ -491,6 +415,16 @@ export function ConfirmationView(p: {onClose:() => void, eventInfo: any}) {
         <p className='mb-4 text-grey-grain'>Team</p>
         <p className='font-medium'>{selectedTeam}</p>
         {/*  */}
+        {opponentId && (
+          <>
+            <p className='mb-4 text-grey-grain'>Opponent</p>
+            <p className='font-medium'>
+              {opponent?.name}
+              <span className='ml-2 text-fine font-normal text-grey-subtle'>waiting for their admins to accept</span>
+            </p>
+          </>
+        )}
+        {/*  */}
         <p className='mb-4 text-grey-grain'>
           <span className='flex items-start gap-x-2.5'>
             <ClockIcon className='text-yellow' />
@@ -505,7 +439,10 @@ export function ConfirmationView(p: {onClose:() => void, eventInfo: any}) {
             Time
           </span>
         </p>
-        <p className='font-medium'>{p.eventInfo.startTime} - {p.eventInfo.endTime}</p>
+        <p className='font-medium'>
+          {formatClock(p.eventInfo.startTime, hourCycle)} - {formatClock(p.eventInfo.endTime, hourCycle)}
+          {timeZone && timeZone !== localTimeZone() && ` (${zoneName(timeZone)} time)`}
+        </p>
         {/*  */}
         <p className='mb-4 text-grey-grain'>
           <span className='flex items-start gap-x-2.5'>
@@ -546,6 +483,8 @@ export function ConfirmationView(p: {onClose:() => void, eventInfo: any}) {
         <hr className='col-span-full border border-outline-2' />
       </div>
 
+      {event && <EventLineup event={event} editable={false} className='mt-6' />}
+
       <div className='mt-6 flex items-center'>
         <input
           className='mr-5 grow rounded-half border border-grey-high bg-dim-black px-2.5 py-1'
@@ -20,32 +20,41 @@ import CalenderComponent from "components/CalendarComponent";
 import { TimePicker } from "components/TimePicker";
 import usePlacesService from "react-google-autocomplete/lib/usePlacesAutocompleteService"
 import { LocationList } from "components/LocationList";
-
-export function FormTraining(props: any) {
-  const { setEventInfo, gameTypeError, teamError, eventNameError, dateError, startTimeError, endTimeError, locationError, costError, numPlayersError,
+import type { LocationPrediction } from "components/LocationList";
+import { placeCoordinates } from "utils/geo";
+import { formatClock, useHourCycle } from "utils/datetime";
+import { api, useQuery } from "api";
+import type { Id } from "types/domain";
+import type { ConfirmationViewProps, EventFormFieldsProps } from "./common";
+import { RecurrenceFields } from "./RecurrenceFields";
+
+export function FormTraining(props: EventFormFieldsProps) {
+  const { initial, setEventInfo, gameTypeError, teamError, eventNameError, dateError, startTimeError, endTimeError, locationError, costError, numPlayersError,
     setGameTypeError, setEventNameError, setDateError, setStartTimeError, setEndTimeError, setLocationError, setCostError, setNumPlayersError } = props;
-  const [allFriends, setAllFriends] = useState([]);
-  const [sportsData, setSportsData] = useState([]);
-  const [eventName, setEventName] = useState("");
-  const [date, setDate] = useState("");
-  const [startTime, setStartTime] = useState("");
-  const [endTime, setEndTime] = useState("");
-  const [eventLocation, setEventLocation] = useState("");
-  const [recurringEvent, setRecurringEvent] = useState(false);
-  const [description, setDescription] = useState("");
+  const { data: allFriends = [] } = useQuery(api.friends.list);
+  const { data: sportsData = [] } = useQuery(api.sports.list);
+  const [eventName, setEventName] = useState(initial?.name ?? "");
+  const [date, setDate] = useState(initial?.date ?? "");
+  const [startTime, setStartTime] = useState(initial?.startTime ?? "");
+  const [endTime, setEndTime] = useState(initial?.endTime ?? "");
+  const [hourCycle] = useHourCycle();
+  const [eventLocation, setEventLocation] = useState(initial?.location ?? "");
+  const [coordinates, setCoordinates] = useState(initial?.coordinates);
+  const [rrule, setRrule] = useState(initial?.rrule ?? null);
+  const [description, setDescription] = useState(initial?.description ?? "");
   const [registerPlaymate, setRegisterPlaymate] = useState(false);
-  const [numPlayers, setNumPlayers] = useState("");
-  const [cost, setCost] = useState("");
-  const [members, setMembers] = useState([]);
-  const [selectedSportId, setSelectedSportId] = useState("")
-  const [selectedTeamId, setSelectedTeamId] = useState("")
+  const [numPlayers, setNumPlayers] = useState(initial?.numPlayers ?? "");
+  const [cost, setCost] = useState(initial?.cost ?? "");
+  const [members, setMembers] = useState<Id[]>(initial?.members ?? []);
+  const [selectedSportId, setSelectedSportId] = useState(initial?.sportId ?? "")
+  const [selectedTeamId, setSelectedTeamId] = useState(initial?.teamId ?? "")
   const [showCalendar, setShowCalendar] = useState(false)
   const [showStartTimePicker, setShowStartTimePicker] = useState(false)
   const [showEndTimePicker, setShowEndTimePicker] = useState(false)
-  const [locationList, setLocationList] = useState([]);
+  const [locationList, setLocationList] = useState<LocationPrediction[]>([]);
   const [showLocationList, setShowLocationList] = useState(false)
   const [searchKey, setSearchKey] = useState("")
-  const [selectedGame, setSelectedGame] = useState(null)
+  const [selectedGame, setSelectedGame] = useState<string | null>(null)
 
   const {
     placesService,
@@ -59,53 +68,20 @@ export function FormTraining(props: any) {
   const onChangeLocation = (key: string) => {
     setSearchKey(key)
     setEventLocation(key)
+    setCoordinates(undefined)
     getPlacePredictions({input: key})
   }
 
+  const onSelectLocation = (location: string, prediction: LocationPrediction) => {
+    setEventLocation(location)
+    placeCoordinates(placesService, prediction.place_id).then((found) => setCoordinates(found ?? undefined))
+  }
+
   useEffect(() => {
     setShowLocationList(true)
     setLocationList(placePredictions)
   }, [searchKey])
 
-  useEffect(() => {
-    fetch("http://127.0.0.1:5001/getFriends", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "  *",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setAllFriends(data.data);
-
-      if (data.data == "token expired") {
-        window.localStorage.clear();
-        window.location.href = "./login";
-      }
-    });
-
-    fetch("http://127.0.0.1:5001/getSports", {
-      method: "GET",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      }
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setSportsData(data.data);
-      }
-    );
-  }, []);
-
   const onSelectMember = (selected: boolean, userId: string) => {
     let newMembers
     if (selected) {
@@ -152,16 +128,17 @@ export function FormTraining(props: any) {
       name: eventName,
       description,
       location: eventLocation,
+      coordinates,
       date,
       startTime,
       endTime,
       sportId: selectedSportId,
-      repeat: recurringEvent,
+      rrule,
       members,
       numPlayers,
       cost: cost,
     })
-  }, [selectedSportId, eventName, date, startTime, endTime, eventLocation, recurringEvent, numPlayers, cost, description, registerPlaymate, members]);
+  }, [selectedSportId, eventName, date, startTime, endTime, eventLocation, coordinates, rrule, numPlayers, cost, description, registerPlaymate, members]);
 
 
   return (
@@ -172,7 +149,7 @@ export function FormTraining(props: any) {
         className='w-full'
         label='Game Type'
         placeholder='Sports'
-        selected={selectedGame}
+        selected={selectedGame ?? sportsData.find((sport) => sport.id === selectedSportId)?.name ?? null}
         onChangeValue={onSelectSportType}
         data={sportsData.map((sport) => {
           return sport.name;
@@ -184,7 +161,7 @@ export function FormTraining(props: any) {
 
       {/* Row */}
       <div className='mt-5 flex flex-wrap gap-5'>
-        <InputComponent label='Event name' onChange={setEventName} placeholder='Name of event' type='text' style='min-w-full' showError={eventNameError} />
+        <InputComponent label='Event name' init={eventName} onChange={setEventName} placeholder='Name of event' type='text' style='min-w-full' showError={eventNameError} />
       </div>
 
       {/* Row */}
@@ -204,7 +181,7 @@ export function FormTraining(props: any) {
           {
             showCalendar &&
               <div className="absolute calendar z-10 calendar-outline">
-                <CalenderComponent setSelectedDate={setDate} outSideClickFunc={() => setShowCalendar(false)} />
+                <CalenderComponent value={date} setSelectedDate={setDate} outSideClickFunc={() => setShowCalendar(false)} />
               </div>
           }
           {
@@ -217,7 +194,7 @@ export function FormTraining(props: any) {
             <div className='app-textbox-area'>
               <input
                 onFocus={() => setShowStartTimePicker(true)}
-                value={startTime}
+                value={formatClock(startTime, hourCycle)}
                 size={1}
                 placeholder='00:00' />
               <img className='mr-2 w-6' src={IconTime} />
@@ -226,7 +203,7 @@ export function FormTraining(props: any) {
           {
             showStartTimePicker &&
               <div className="absolute time-picker z-10 calendar-outline">
-                <TimePicker setSelectedTime={setStartTime} outSideClickFunc={() => setShowStartTimePicker(false)} />
+                <TimePicker value={startTime} setSelectedTime={setStartTime} outSideClickFunc={() => setShowStartTimePicker(false)} />
               </div>
           }
           {
@@ -239,7 +216,7 @@ export function FormTraining(props: any) {
             <div className='app-textbox-area'>
               <input
                 onFocus={() => setShowEndTimePicker(true)}
-                value={endTime}
+                value={formatClock(endTime, hourCycle)}
                 size={1}
                 placeholder='00:00' />
               <img className='mr-2 w-6' src={IconTime} />
@@ -248,7 +225,7 @@ export function FormTraining(props: any) {
           {
             showEndTimePicker &&
               <div className="absolute time-picker z-10 calendar-outline">
-                <TimePicker setSelectedTime={setEndTime} outSideClickFunc={() => setShowEndTimePicker(false)} startTime={startTime} />
+                <TimePicker value={endTime} setSelectedTime={setEndTime} outSideClickFunc={() => setShowEndTimePicker(false)} startTime={startTime} />
               </div>
           }
           {
@@ -271,15 +248,17 @@ export function FormTraining(props: any) {
           }
         </div>
         {
-          locationList.length > 0 && showLocationList && <LocationList setEventLocation={setEventLocation} outSideClickFunc={() => setShowLocationList(false)} list={locationList} />
+          locationList.length > 0 && showLocationList && <LocationList setEventLocation={onSelectLocation} outSideClickFunc={() => setShowLocationList(false)} list={locationList} />
         }
       </div>
 
+      <RecurrenceFields rrule={rrule} setRrule={setRrule} date={date} />
+
       <div className='mt-5 flex flex-wrap gap-5'>
         <div className='app-textbox min-w-full sm:min-w-[24rem]'>
           <label>Description</label>
           <div className='app-textbox-area'>
-            <textarea onChange={(event) => setDescription(event.target.value)} placeholder='Enter any addition description here' />
+            <textarea value={description} onChange={(event) => setDescription(event.target.value)} placeholder='Enter any addition description here' />
           </div>
         </div>
       </div>
@@ -289,6 +268,7 @@ export function FormTraining(props: any) {
       <div className='mt-5 flex flex-col'>
         <InputComponent
           label='Number of players'
+          init={numPlayers}
           onChange={setNumPlayers}
           type='text'
           style='min-w-full sm:min-w-[24rem]'
@@ -321,7 +301,7 @@ export function FormTraining(props: any) {
 }
 
 
-export function ConfirmationView(p: {onClose:() => void}) {
+export function ConfirmationView(p: ConfirmationViewProps) {
   return (
     <>
       <Dialog.Title as='header' className='relative'>
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { api, useQuery } from "api";
+import type { Id } from "types/domain";
+import { useDebouncedValue } from "utils";
+import Team1 from "assets/team-1.png";
+
+interface OpponentFieldProps {
+  // Empty when the match has no opponent on Playmate
+  opponentId: Id;
+  setOpponentId: (opponentId: Id) => void;
+  // Only teams of the sport are offered, and never the team the match is for
+  sportId: Id;
+  teamId: Id;
+  // The opponent the event had before editing, its admins were asked already
+  initialOpponentId?: Id;
+}
+
+// Team event field to search a team and challenge it to the match
+export function OpponentField({ opponentId, setOpponentId, sportId, teamId, initialOpponentId }: OpponentFieldProps) {
+  const [search, setSearch] = useState("");
+  const [focused, setFocused] = useState(false);
+  const query = useDebouncedValue(search.trim());
+  const { data: results = [], loading } = useQuery(
+    api.teams.search,
+    query ? [{ search: query, sportId: sportId || undefined, excludeTeamId: teamId || undefined }] : null
+  );
+  const { data: opponent } = useQuery(api.teams.get, opponentId ? [opponentId] : null);
+
+  const onPick = (id: Id) => {
+    setOpponentId(id);
+    setSearch("");
+  };
+
+  if (opponentId) {
+    return (
+      <div className='mt-5 flex flex-col'>
+        <p className='mb-2 text-grey-classic'>Opponent</p>
+        <div className='flex items-center gap-x-3 rounded-half border border-outline-2 p-2.5'>
+          <img className='h-7.5 w-7.5 rounded-full object-cover' src={opponent?.profilePic || Team1} />
+          <p className='min-w-0 flex-1 overflow-hidden text-ellipsis whitespace-nowrap font-medium'>
+            {opponent?.name ?? "Loading..."}
+          </p>
+          <p role='button' onClick={() => setOpponentId("")} className='text-sm text-grey-subtle underline hover:text-pink'>
+            Remove
+          </p>
+        </div>
+        {opponentId !== initialOpponentId && (
+          <p className='mt-2 text-fine text-grey-subtle'>
+            The admins of {opponent?.name ?? "the team"} are asked to accept the match.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className='relative mt-5 flex flex-col'>
+      <div className='app-textbox min-w-full sm:min-w-[24rem]'>
+        <label>Opponent</label>
+        <div className='app-textbox-area'>
+          <input
+            size={1}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            placeholder='Search a team to challenge (optional)'
+          />
+        </div>
+      </div>
+      {focused && query && (
+        <ul className='absolute top-full z-10 mt-1 flex w-full flex-col rounded-half bg-[#1F1F21] p-2'>
+          {results.map((team) => (
+            <li
+              key={team.id}
+              // Picked before the input blurs and hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onPick(team.id);
+              }}
+              className='flex cursor-pointer items-center gap-x-3 rounded-md p-1.5 hover:bg-blue-high/10'
+            >
+              <img className='h-7.5 w-7.5 rounded-full object-cover' src={team.profilePic || Team1} />
+              <span className='min-w-0 flex-1 overflow-hidden text-ellipsis whitespace-nowrap'>{team.name}</span>
+              <span className='text-sm text-grey-subtle'>{team.membersCount} members</span>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className='p-1.5 text-grey-subtle'>{loading ? "Searching..." : "No teams found"}</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
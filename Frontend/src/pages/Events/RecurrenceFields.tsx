@@ -0,0 +1,149 @@
+import { useState } from "react";
+import cx from "classnames";
+import { ListBox } from "components/ListBox";
+import CalenderComponent from "components/CalendarComponent";
+import IconDate from "assets/input-date.svg";
+import { WEEKDAYS, defaultRule, formatRule, parseRule } from "utils/recurrence";
+import type { RecurrenceRule } from "utils/recurrence";
+
+const WEEKDAY_LETTERS = ["M", "T", "W", "T", "F", "S", "S"];
+
+type RecurrenceEnd = "Never" | "On date" | "After";
+
+function endOf(rule: RecurrenceRule): RecurrenceEnd {
+  if (rule.until) return "On date";
+  if (rule.count) return "After";
+  return "Never";
+}
+
+interface RecurrenceFieldsProps {
+  // RRULE of the event, null when it doesn't repeat
+  rrule: string | null;
+  setRrule: (rrule: string | null) => void;
+  // First date of the event, its weekday is picked when repeating is turned on
+  date: string;
+}
+
+// "Recurring event?" checkbox of the event forms, with the weekly rule below it
+export function RecurrenceFields({ rrule, setRrule, date }: RecurrenceFieldsProps) {
+  const [showCalendar, setShowCalendar] = useState(false);
+  const rule = rrule ? parseRule(rrule) : null;
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) setRrule(formatRule({ ...rule, ...changes }));
+  };
+
+  const onToggleDay = (index: number) => {
+    if (!rule) return;
+    const day = WEEKDAYS[index];
+    const byDay = rule.byDay.includes(day)
+      ? rule.byDay.filter((selected) => selected !== day)
+      : [...rule.byDay, day];
+    update({ byDay });
+  };
+
+  const onChangeEnd = (end: RecurrenceEnd) => {
+    if (end === "Never") update({ until: undefined, count: undefined });
+    if (end === "On date") update({ until: rule?.until ?? date, count: undefined });
+    if (end === "After") update({ until: undefined, count: rule?.count ?? 10 });
+  };
+
+  return (
+    <>
+      <label className='app-checkbox mt-5'>
+        <input
+          checked={rule !== null}
+          onChange={(event) => setRrule(event.target.checked ? formatRule(defaultRule(date)) : null)}
+          type='checkbox' />
+        Recurring event?
+      </label>
+
+      {
+        rule &&
+          <div className='mt-5 flex flex-col gap-y-5'>
+            <div className='flex gap-x-2'>
+              {
+                WEEKDAY_LETTERS.map((letter, index) =>
+                  <button
+                    key={index}
+                    type='button'
+                    onClick={() => onToggleDay(index)}
+                    className={cx(
+                      "h-10 w-10 rounded-half font-medium",
+                      rule.byDay.includes(WEEKDAYS[index]) ? "bg-blue-high text-sheet" : "bg-grey-high text-white hover:bg-blue-high/10"
+                    )}
+                  >
+                    {letter}
+                  </button>
+                )
+              }
+            </div>
+
+            <div className='flex flex-wrap gap-5'>
+              <div className='app-textbox min-w-[12rem] flex-1'>
+                <label>Repeat every</label>
+                <div className='app-textbox-area'>
+                  <input
+                    value={rule.interval}
+                    onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                    type='number'
+                    min={1}
+                    size={1} />
+                  <span className='mr-3 text-grey-classic'>{rule.interval > 1 ? "weeks" : "week"}</span>
+                </div>
+              </div>
+
+              <div className='min-w-[12rem] flex-1 flex flex-col'>
+                <ListBox
+                  className='w-full'
+                  label='Ends'
+                  selected={endOf(rule)}
+                  onChangeValue={onChangeEnd}
+                  data={["Never", "On date", "After"] as RecurrenceEnd[]}
+                />
+              </div>
+
+              {
+                rule.until !== undefined &&
+                  <div className='min-w-[12rem] flex-1 flex flex-col relative'>
+                    <div className="app-textbox">
+                      <label>Last date</label>
+                      <div className='app-textbox-area'>
+                        <input
+                          onFocus={() => setShowCalendar(true)}
+                          value={rule.until}
+                          readOnly
+                          size={1}
+                          placeholder='dd/mm/yyyy' />
+                        <img className='mr-2 w-6' src={IconDate} />
+                      </div>
+                    </div>
+                    {
+                      showCalendar &&
+                        <div className="absolute calendar z-10 calendar-outline">
+                          <CalenderComponent setSelectedDate={(until) => update({ until })} outSideClickFunc={() => setShowCalendar(false)} />
+                        </div>
+                    }
+                  </div>
+              }
+
+              {
+                rule.count !== undefined &&
+                  <div className='app-textbox min-w-[12rem] flex-1'>
+                    <label>Occurrences</label>
+                    <div className='app-textbox-area'>
+                      <input
+                        value={rule.count}
+                        onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                        type='number'
+                        min={1}
+                        size={1} />
+                    </div>
+                  </div>
+              }
+            </div>
+          </div>
+      }
+    </>
+  );
+}
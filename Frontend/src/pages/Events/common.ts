@@ -1,5 +1,39 @@
-export type EventType = "team" | "network" | "pickup" | "training";
+import type { CreateEventRequest } from "api";
+import type { Id } from "types/domain";
+
+export type { EventType } from "types/domain";
 
 export interface DialogContentProps {
   onClose: () => void;
 }
+
+// Props EventForm passes to each of the Form* components
+export interface EventFormFieldsProps {
+  // Values to start from when an existing event is edited
+  initial?: CreateEventRequest;
+  setEventInfo: (eventInfo: CreateEventRequest) => void;
+  gameTypeError: boolean;
+  teamError: boolean;
+  eventNameError: boolean;
+  dateError: boolean;
+  startTimeError: boolean;
+  endTimeError: boolean;
+  locationError: boolean;
+  costError: boolean;
+  numPlayersError: boolean;
+  setGameTypeError: (error: boolean) => void;
+  setTeamError: (error: boolean) => void;
+  setEventNameError: (error: boolean) => void;
+  setDateError: (error: boolean) => void;
+  setStartTimeError: (error: boolean) => void;
+  setEndTimeError: (error: boolean) => void;
+  setLocationError: (error: boolean) => void;
+  setCostError: (error: boolean) => void;
+  setNumPlayersError: (error: boolean) => void;
+}
+
+export interface ConfirmationViewProps extends DialogContentProps {
+  eventInfo: CreateEventRequest;
+  // The event just created
+  eventId: Id;
+}
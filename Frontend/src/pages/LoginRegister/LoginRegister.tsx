@@ -3,11 +3,14 @@ import "./styles.css";
 import React, { Component, useState, useEffect } from "react";
 
 import { Tab } from "@headlessui/react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 
 import { PageView } from "layout/PageView";
 import InputComponent from "components/InputComponent";
 import { UploadAvatar } from "components/UploadAvatar/UploadAvatar";
 import { Switch } from "components/Switch";
+import { api } from "api";
+import { returnToPath, useAuth } from "auth";
 
 function Login({
   onSubmit,
@@ -64,6 +67,10 @@ function Register({
 }
 
 export function LoginRegister() {
+  const { login: startSession } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [fname, setFname] = useState("");
@@ -106,7 +113,7 @@ export function LoginRegister() {
 
   useEffect(() => {
     // Get the popup message from the local storage
-    setPopupMessage(window.localStorage.getItem("message"));
+    setPopupMessage(window.localStorage.getItem("message") ?? "");
     setPopupVisible(false);
   }, []);
 
@@ -118,63 +125,27 @@ export function LoginRegister() {
     }
   }, [email, password]);
 
+  function onLoggedIn(token: string) {
+    // Back to the page that sent the user here, if any
+    return startSession(token)
+      .then(() => navigate(returnToPath(searchParams), { replace: true }));
+  }
+
+  function onAuthError(error: Error) {
+    window.localStorage.setItem("messageType", "danger");
+    setPopupMessage(error.message);
+  }
+
   function login() {
-    fetch("http://127.0.0.1:5001/login-user", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        email,
-        password,
-      }),
-    })
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.status == "ok") {
-          window.localStorage.setItem("token", data.data);
-          window.localStorage.setItem("loggedIn", true);
-
-          window.location.href = "./../..";
-        } else {
-          window.localStorage.setItem("messageType", "danger");
-          setPopupMessage(data.error);
-        }
-      });
+    api.auth.login(email, password)
+      .then(onLoggedIn)
+      .catch(onAuthError);
   }
 
   function register() {
-    fetch("http://127.0.0.1:5001/register", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        fname,
-        lname,
-        userType,
-        email,
-        password,
-      }),
-    })
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.status == "ok") {
-          window.localStorage.setItem("token", data.data);
-          window.localStorage.setItem("loggedIn", true);
-
-          window.location.href = "./../..";
-        } else {
-          window.localStorage.setItem("messageType", "danger");
-          setPopupMessage(data.error);
-        }
-      });
+    api.auth.register({ fname, lname, userType, email, password })
+      .then(onLoggedIn)
+      .catch(onAuthError);
   }
 
   return (
@@ -1,19 +1,7 @@
-import cx from "classnames";
 import { PageView } from "layout/PageView";
 
-import { MembersAndLineup } from "components/MembersAndLineup/MembersAndLineup";
-
 import ProfileIMG from "assets/network-big-1.png";
 
-import { ClockIcon } from "components/adaptive-icons/PinMarker";
-import { PinMarkerIcon } from "components/adaptive-icons/Clock";
-import RightArrow from "assets/right-arrow.svg";
-
-import Team1 from "assets/team-1.png";
-import Team2 from "assets/team-2.png";
-import Team10 from "assets/team-10.png";
-import Team11 from "assets/team-11.png";
-import CopyIcon from "assets/copy.svg";
 import { useNavigate } from "react-router-dom";
 
 function TopBlock() {
@@ -63,155 +51,6 @@ function TopBlock() {
   );
 }
 
-interface TeamFixtureBlockProps {
-  srcA: string;
-  srcB: string;
-}
-function TeamFixtureBlock(props: TeamFixtureBlockProps) {
-  return (
-    <div className='min-w-0 flex-1 overflow-hidden rounded-half bg-grey-low p-5'>
-      <div className='flex items-center gap-x-2 border-b border-outline-2 pb-5'>
-        <div className='flex-shrink-0 overflow-hidden rounded-full'>
-          <img className='w-7' src={props.srcA} />
-        </div>
-        <span className='min-w-0 overflow-hidden text-ellipsis'>
-          Team Soccer A
-        </span>
-        <p className='mx-2 flex-1 text-center text-grey-subtle'>V</p>
-        <span className='min-w-0 overflow-hidden text-ellipsis'>
-          Team Soccer B
-        </span>
-        <div className='flex-shrink-0 overflow-hidden rounded-full'>
-          <img className='w-7' src={props.srcB} />
-        </div>
-      </div>
-
-      <div className='relative mt-5'>
-        <p className='mb-1 flex items-center gap-x-2.5'>
-          <PinMarkerIcon className='flex-shrink-0 text-blue-high' />
-
-          <span className='min-w-0 overflow-hidden text-ellipsis font-semibold text-dim-white'>
-            Emirate stadium, England
-          </span>
-        </p>
-        <p className='flex items-center gap-x-2.5 text-dim-white'>
-          <ClockIcon className='flex-shrink-0 text-blue-high' />
-
-          <span className='min-w-0 overflow-hidden text-ellipsis text-fine text-dim-white'>
-            15/10/2023 02:00 PM
-          </span>
-        </p>
-
-        <button className='bottom-0 right-0 mt-6 flex gap-x-2 rounded-half bg-grey-high p-2.5 transition-colors hover:bg-blue-high/10 xs:absolute'>
-          <img src={CopyIcon} />
-          <span className='text-fine'>Copy Link</span>
-        </button>
-      </div>
-    </div>
-  );
-}
-
-function Fixtures() {
-  return (
-    <section>
-      <h3 className='mb-3 text-lg font-medium'>Next Fixtures</h3>
-
-      <div className='flex min-w-0 flex-col gap-x-5 gap-y-5 xl:flex-row'>
-        <TeamFixtureBlock srcA={Team1} srcB={Team2} />
-        <TeamFixtureBlock srcA={Team10} srcB={Team11} />
-      </div>
-    </section>
-  );
-}
-
-interface ResultStatusProps {
-  letter: string;
-  bgColorClass: string;
-}
-function ResultStatus(props: ResultStatusProps) {
-  return (
-    <div
-      className={cx(
-        "box-content flex h-6 w-6 items-center justify-center rounded-half p-0.5 text-dim-black",
-        props.bgColorClass
-      )}
-    >
-      {props.letter}
-    </div>
-  );
-}
-
-function ViewMore() {
-  return (
-    <a href='#' className='flex items-center'>
-      <span className='mr-0.5 text-fine underline'>View</span>
-      <img src={RightArrow} />
-    </a>
-  );
-}
-
-function Row(props: ResultStatusProps) {
-  let { ...rest } = props;
-  return (
-    <tr>
-      <td>
-        <p className='flex gap-x-2'>Team never lucky Vs Tzatziki Turbo</p>
-      </td>
-      <td>Civic Centre Westchester, London</td>
-      <td>06:00PM - 08:00PM</td>
-      <td>23, August 2023</td>
-      <td>
-        <ResultStatus {...rest} />
-      </td>
-      <td>
-        <ViewMore />
-      </td>
-    </tr>
-  );
-}
-
-function GameHistory() {
-  return (
-    <div className='pm-table-section'>
-      <h3 className='mb-3 mt-5 text-lg font-medium'>Game history</h3>
-      <table>
-        <thead>
-          <tr>
-            <th>Sport</th>
-            <th>Location</th>
-            <th>Time</th>
-            <th>Date</th>
-            <th className='w-1'>Result</th>
-            <th className='w-1'>See more</th>
-          </tr>
-        </thead>
-        <tbody>
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-        </tbody>
-      </table>
-    </div>
-  );
-}
-
-function Information() {
-  return (
-    <section className=''>
-      <Fixtures />
-      <GameHistory />
-    </section>
-  );
-}
-
 export function NetworkIndex() {
   const navigate = useNavigate();
   return (
@@ -246,17 +85,9 @@ export function NetworkIndex() {
         </div>
       }
     >
-      <div className='grid max-w-full grid-cols-1 gap-x-5 gap-y-10 desktop:grid-cols-[minmax(0,1fr)_auto]'>
-        <div className=''>
-          <TopBlock />
-        </div>
-        <div className='col-0 desktop:col-1 desktop:row-span-2'>
-          <MembersAndLineup />
-        </div>
-        <div className=''>
-          <Information />
-        </div>
-      </div>
+      {/* Networks aren't stored by the backend yet, so there are no members,
+          lineup or fixtures of one to show */}
+      <TopBlock />
     </PageView>
   );
 }
@@ -0,0 +1,173 @@
+import React, { useMemo } from "react";
+import cx from "classnames";
+import { format } from "date-fns";
+import type { Id } from "types/domain";
+import { ListBox } from "components/ListBox";
+import { Skeleton } from "components/Skeleton";
+import { STATS_RANGE_LABELS, formatRate, playerTimeline, rangeStart, sportBreakdown, usePlayerInvites } from "utils/stats";
+import type { StatsRange } from "utils/stats";
+
+const RANGES = Object.keys(STATS_RANGE_LABELS) as StatsRange[];
+
+interface Bar {
+  label: string;
+  value: number;
+  // Shown over the bar, defaults to the value
+  text?: string;
+}
+
+function ChartCard({ title, className, children }: React.PropsWithChildren<{ title: string; className?: string }>) {
+  return (
+    <div className={cx("min-w-0 rounded-card bg-grey-low p-5", className)}>
+      <h3 className='mb-4 font-medium'>{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+// Heights are relative to `max`, or to the highest bar
+function BarChart({ bars, max }: { bars: Bar[]; max?: number }) {
+  const top = max ?? Math.max(1, ...bars.map((bar) => bar.value));
+
+  return (
+    <div className='flex h-40 items-end gap-x-1.5 overflow-x-auto'>
+      {bars.map((bar, index) => (
+        <div key={index} className='flex h-full min-w-[1.75rem] flex-1 flex-col items-center justify-end'>
+          <span className='mb-1 text-xs text-dim-white'>{bar.text ?? bar.value}</span>
+          <div
+            className='w-full rounded-t-half bg-blue-high'
+            style={{ height: `${(bar.value / top) * 100}%`, minHeight: bar.value > 0 ? 2 : 0 }}
+          />
+          <span className='mt-1.5 whitespace-nowrap text-xs text-grey-subtle'>{bar.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Rates from 0 to 1, points without one are skipped
+function RateLine({ points }: { points: { label: string; rate: number | null }[] }) {
+  const step = 100 / Math.max(1, points.length - 1);
+  const drawn = points
+    .map((point, index) => ({ ...point, x: points.length > 1 ? index * step : 50 }))
+    .filter((point): point is { label: string; rate: number; x: number } => point.rate !== null);
+
+  return (
+    <div>
+      <div className='relative h-40 border-b border-l border-outline-2'>
+        <span className='absolute -top-2 left-1 text-xs text-grey-subtle'>100%</span>
+        <svg className='h-full w-full overflow-visible' viewBox='0 0 100 100' preserveAspectRatio='none'>
+          <polyline
+            className='fill-none stroke-blue-high'
+            strokeWidth={2}
+            vectorEffect='non-scaling-stroke'
+            points={drawn.map((point) => `${point.x},${100 - point.rate * 100}`).join(" ")}
+          />
+          {drawn.map((point, index) => (
+            <line
+              key={index}
+              className='stroke-blue-high'
+              strokeWidth={6}
+              strokeLinecap='round'
+              vectorEffect='non-scaling-stroke'
+              x1={point.x}
+              y1={100 - point.rate * 100}
+              x2={point.x}
+              y2={100 - point.rate * 100}
+            >
+              <title>{point.label}: {formatRate(point.rate)}</title>
+            </line>
+          ))}
+        </svg>
+      </div>
+      <div className='mt-1.5 flex justify-between text-xs text-grey-subtle'>
+        <span>{points[0]?.label}</span>
+        {points.length > 1 && <span>{points[points.length - 1].label}</span>}
+      </div>
+    </div>
+  );
+}
+
+interface ChartsProps {
+  userId: Id | null;
+  // The names picked in the Teams and Sports filters
+  team: string | null;
+  sport: string | null;
+  range: StatsRange;
+  setRange: (range: StatsRange) => void;
+}
+
+// Trends of the user over a range, drawn from the events they were invited to
+// and the results of their matches
+export function Charts({ userId, team, sport, range, setRange }: ChartsProps) {
+  const { data: invites, loading } = usePlayerInvites(userId);
+  const events = useMemo(
+    () => (invites ?? []).filter((event) => (!team || event.teamName === team) && (!sport || event.sport === sport)),
+    [invites, team, sport]
+  );
+  const { unit, points } = useMemo(() => playerTimeline(events, range), [events, range]);
+  const sports = useMemo(() => sportBreakdown(events, rangeStart(range)), [events, range]);
+
+  const labelOf = (start: Date) => format(start, unit === "week" ? "d MMM" : range === "all" ? "MMM yy" : "MMM");
+  const empty = points.every((point) => point.attendanceRate === null);
+
+  return (
+    <section className='mt-12'>
+      <div className='mb-5 flex flex-wrap items-center gap-x-12 gap-y-4'>
+        <h2 className='flex-1 whitespace-nowrap text-lg font-medium'>Performance</h2>
+        <ListBox
+          className='minimal min-w-[12rem]'
+          selected={range}
+          onChangeValue={setRange}
+          renderFunc={(range) => STATS_RANGE_LABELS[range]}
+          data={RANGES}
+        />
+      </div>
+
+      {loading && <Skeleton className='h-56 rounded-card' />}
+      {!loading && empty && (
+        <p className='rounded-card bg-grey-low p-5 text-center text-grey-subtle'>No past events in this range</p>
+      )}
+      {!loading && !empty && (
+        <div className='grid grid-cols-1 gap-3 lg:grid-cols-2'>
+          <ChartCard title={unit === "week" ? "Games per week" : "Games per month"}>
+            <BarChart bars={points.map((point) => ({ label: labelOf(point.start), value: point.played }))} />
+          </ChartCard>
+          <ChartCard title='Win rate over time'>
+            <RateLine points={points.map((point) => ({ label: labelOf(point.start), rate: point.winRateToDate }))} />
+          </ChartCard>
+          <ChartCard title='Attendance'>
+            <BarChart
+              max={1}
+              bars={points.map((point) => ({
+                label: labelOf(point.start),
+                value: point.attendanceRate ?? 0,
+                text: formatRate(point.attendanceRate)
+              }))}
+            />
+          </ChartCard>
+          <ChartCard title='By sport'>
+            <ul className='flex flex-col gap-y-4'>
+              {sports.map((stats) => (
+                <li key={stats.sport}>
+                  <div className='mb-1.5 flex flex-wrap justify-between gap-x-4 text-fine'>
+                    <span className='font-medium'>{stats.sport}</span>
+                    <span className='text-grey-subtle'>
+                      {stats.attended} events · {stats.played} games · {formatRate(stats.winRate)} won
+                    </span>
+                  </div>
+                  <div className='h-2 overflow-hidden rounded-half bg-grey-high'>
+                    <div
+                      className='h-full rounded-half bg-blue-high'
+                      style={{ width: `${(stats.attended / sports[0].attended) * 100}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ChartCard>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -17,61 +17,78 @@ import RowIcon2 from "assets/pm-row-2.svg";
 import RowIcon3 from "assets/pm-row-3.svg";
 import React, { Component, useEffect, useState } from "react";
 import { set } from "date-fns";
+import { api, useQuery } from "api";
+import type { CurrentUser, EventSummary, UserProfile } from "api";
+import { useCurrentUser } from "auth";
+import { Skeleton } from "components/Skeleton";
+import { useSearchParams } from "react-router-dom";
+import { useSearchParamsState } from "utils";
+import { groupEvents, useSortedEvents } from "utils/eventOrder";
+import { EventOrderControls } from "components/EventOrderControls";
+import { eventStart, formatEventTimes, formatLongDay, useHourCycle } from "utils/datetime";
+import { formatRate, STATS_RANGE_LABELS, usePlayerStats } from "utils/stats";
+import type { StatsRange } from "utils/stats";
+import { Charts } from "./Charts";
 
-function ProfileBox({userData, own, friendStatus} : any) {
-  const sendFriendRequest = (friendId: string) => {
-    fetch("http://127.0.0.1:5001/sendFriendRequest", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        friendId
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
+// The own profile comes from /getUserData with an `_id`, others from
+// /getUserData/:id with an `id`
+function profileId(user: UserProfile | CurrentUser) {
+  return "id" in user ? user.id : user._id;
+}
+
+interface ProfileBoxProps {
+  userData: UserProfile | CurrentUser | null;
+  own: boolean;
+  friendStatus: boolean;
+}
+function ProfileBox({userData, own, friendStatus} : ProfileBoxProps) {
+  const stats = usePlayerStats(userData ? profileId(userData) : null);
 
-    });
+  const sendFriendRequest = (friendId: string) => {
+    api.friends.send(friendId).catch(() => {});
   }
 
   const goToSetting = () => {
     window.location.href = "/settings"
   }
 
+  if (!userData) {
+    return <Skeleton className='h-36 rounded-card' />;
+  }
+
   return (
     <header className='relative flex flex-wrap justify-between gap-y-8 overflow-hidden rounded-card bg-grey-low px-7 py-6'>
       <img className='absolute right-0 top-0 hidden sm:block' src={Pattern} />
       <div className='relative flex items-center gap-x-4'>
         <div className='overflow-hidden rounded-full'>
-          <img className='h-25 w-25' src={userData.profilePic} />
+          <img className='h-25 w-25' src={userData?.profilePic} />
         </div>
         <div className='mr-6 min-w-0'>
-          <h1 className='text-[1.5625rem] font-bold'>{userData.fname + " " + userData.lname}</h1>
-          <p className='text-fine text-grey-classic'>{userData.description}</p>
+          <h1 className='text-[1.5625rem] font-bold'>{userData?.fname + " " + userData?.lname}</h1>
+          <p className='text-fine text-grey-classic'>{userData?.description}</p>
         </div>
       </div>
 
       <div className='relative w-full items-center sm:flex sm:w-auto'>
         <div className='mb-7 flex max-w-full gap-x-6 overflow-x-auto sm:mb-0'>
           <div className='pm-stat'>
-            <h3>80.5%</h3>
+            <h3>{formatRate(stats?.winRate ?? null)}</h3>
             <p>Win rate</p>
           </div>
           <div className='pm-stat'>
-            <h3>22</h3>
+            <h3>{stats ? stats.played : "-"}</h3>
             <p>Teams games</p>
           </div>
           <div className='pm-stat'>
-            <h3>31</h3>
+            <h3>{stats ? stats.trainings : "-"}</h3>
             <p>Training</p>
           </div>
           <div className='pm-stat'>
-            <h3>{userData.numFriends}</h3>
+            <h3>{formatRate(stats?.attendanceRate ?? null)}</h3>
+            <p>Attendance</p>
+          </div>
+          <div className='pm-stat'>
+            <h3>{userData?.numFriends}</h3>
             <p>Friends</p>
           </div>
         </div>
@@ -79,7 +96,7 @@ function ProfileBox({userData, own, friendStatus} : any) {
           !own
             ? friendStatus
               ? <></>
-              : <button onClick={() => sendFriendRequest(userData.id)} className='w-full rounded-card bg-blue-high px-4 py-2.5 text-black transition-colors hover:bg-blue-high/80 sm:ml-12 sm:w-auto'>
+              : <button onClick={() => userData && sendFriendRequest(profileId(userData))} className='w-full rounded-card bg-blue-high px-4 py-2.5 text-black transition-colors hover:bg-blue-high/80 sm:ml-12 sm:w-auto'>
                   Add Friend
                 </button>
             : <button onClick={() => goToSetting()} className='w-full rounded-card bg-blue-high px-4 py-2.5 text-black transition-colors hover:bg-blue-high/80 sm:ml-12 sm:w-auto'>
@@ -91,54 +108,27 @@ function ProfileBox({userData, own, friendStatus} : any) {
   );
 }
 
-function Filters(props: any) {
-  const { setSelectedTeam, setSelectedSport, setSelectedDate, setSearchKey, selectedTeam, selectedSport, selectedDate, searchKey } = props;
+interface FiltersProps {
+  // Names of the team and the sport, null for all of them
+  selectedTeam: string | null;
+  setSelectedTeam: (team: string | null) => void;
+  selectedSport: string | null;
+  setSelectedSport: (sport: string | null) => void;
+  selectedDate: string;
+  setSelectedDate: (date: string) => void;
+  searchKey: string;
+  setSearchKey: (q: string) => void;
+  clearFilters: () => void;
+}
+
+function Filters(props: FiltersProps) {
+  const { setSelectedTeam, setSelectedSport, setSelectedDate, setSearchKey, clearFilters, selectedTeam, selectedSport, selectedDate, searchKey } = props;
   const [searchOpen, setSearchOpen] = useState(false);
   const [filtersOpen, setfiltersOpen] = useState(false);
-  const [teams, setTeams] = useState([]);
-  const [sports, setSports] = useState([]);
+  const { data: teams = [] } = useQuery(api.teams.list);
+  const { data: sports = [] } = useQuery(api.sports.list);
   const [showCalendar, setShowCalendar] = useState(false)
 
-  const clearFilter = () => {
-    setSelectedTeam(null)
-    setSelectedSport(null)
-    setSelectedDate("")
-    setSearchKey("")
-  }
-
-  useEffect(() => {
-    fetch("http://127.0.0.1:5001/getTeams", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-      token: window.localStorage.getItem("token"),
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setTeams(data.data);
-    });
-
-    fetch("http://127.0.0.1:5001/getSports", {
-      method: "GET",
-      crossDomain: true,
-      headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      "Access-Control-Allow-Origin": "*",
-      }
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setSports(data.data);
-    });
-  }, [])
-
   return (
     <section className='mt-12 flex flex-wrap items-center gap-y-4'>
       <h2 className='mr-12 flex-1 whitespace-nowrap text-lg font-medium'>
@@ -189,7 +179,7 @@ function Filters(props: any) {
           {
             showCalendar &&
               <div className="absolute calendar">
-                <CalenderComponent setSelectedDate={setSelectedDate} outSideClickFunc={() => setShowCalendar(false)} />
+                <CalenderComponent value={selectedDate} setSelectedDate={setSelectedDate} outSideClickFunc={() => setShowCalendar(false)} />
               </div>
           }
         </div>
@@ -206,7 +196,7 @@ function Filters(props: any) {
         <p
           role='button'
           className='self-center text-dim-white underline transition-colors hover:text-blue-high'
-          onClick={clearFilter}
+          onClick={clearFilters}
         >
           Clear Filters
         </p>
@@ -230,6 +220,8 @@ function Filters(props: any) {
         <div className='flex w-full overflow-hidden rounded-card border border-grey-high'>
           <img className='mx-4 my-3 w-6' src={SearchIcon} />
           <input
+            value={searchKey}
+            onChange={(e) => setSearchKey(e.target.value)}
             className='flex-1 bg-transparent text-white'
             placeholder='Search for event'
             size={1}
@@ -266,8 +258,9 @@ function ViewMore() {
   );
 }
 
-function Row(props: ResultStatusProps & { icon: string, event: any }) {
+function Row(props: ResultStatusProps & { icon: string, event: EventSummary }) {
   let { icon, event, ...rest } = props;
+  const [hourCycle] = useHourCycle();
   return (
     <tr>
       <td>
@@ -276,8 +269,8 @@ function Row(props: ResultStatusProps & { icon: string, event: any }) {
         </p>
       </td>
       <td>{event.location}</td>
-      <td>{event.startTime} - {event.endTime}</td>
-      <td>{event.date}</td>
+      <td>{formatEventTimes(event, hourCycle)}</td>
+      <td>{formatLongDay(eventStart(event))}</td>
       <td>
         <ResultStatus {...rest} />
       </td>
@@ -288,7 +281,27 @@ function Row(props: ResultStatusProps & { icon: string, event: any }) {
   );
 }
 
-function Table({events} : any) {
+function GroupRow({ label }: { label: React.ReactNode }) {
+  return (
+    <tr>
+      <td colSpan={6} className='font-medium text-grey-classic'>{label}</td>
+    </tr>
+  );
+}
+
+function Table({events, loading} : {events: EventSummary[]; loading: boolean}) {
+  const { order, sorted } = useSortedEvents(events);
+  const { groups, past } = groupEvents(sorted, order.grouping);
+  // The activity is mostly past events, they are shown unless folded away
+  const [showPast, setShowPast] = useState(true);
+
+  const rows = (events: EventSummary[]) =>
+    events.map((event, index) => {
+      return (
+        <Row key={index} icon={RowIcon1} event={event} letter='-' bgColorClass='bg-dim-white' />
+      )
+    })
+
   return (
     <section className='pm-table-section mt-5'>
       <table>
@@ -303,113 +316,97 @@ function Table({events} : any) {
           </tr>
         </thead>
         <tbody>
+          {loading && [0, 1, 2].map((index) => (
+            <tr key={index}>
+              <td colSpan={6}>
+                <Skeleton className='h-6' />
+              </td>
+            </tr>
+          ))}
           {
-            events.map((event: any, index: number) => {
-              return (
-                <Row key={index} icon={RowIcon1} event={event} letter='-' bgColorClass='bg-dim-white' />
-              )
-            })
+            groups.map((group) => (
+              <React.Fragment key={group.key}>
+                {group.label && <GroupRow label={group.label} />}
+                {rows(group.events)}
+              </React.Fragment>
+            ))
           }
+          {past.length > 0 && (
+            <>
+              <GroupRow label={
+                <button onClick={() => setShowPast(x => !x)} className='underline transition-colors hover:text-blue-high'>
+                  Past events ({past.length}) · {showPast ? "Hide" : "Show"}
+                </button>
+              } />
+              {showPast && rows(past)}
+            </>
+          )}
         </tbody>
       </table>
     </section>
   );
 }
 
+// Kept in the url next to the `id` of the profile, see useSearchParamsState()
+const PLAYMATE_FILTERS = { team: "", sport: "", date: "", q: "", range: "season" };
+
 export function MyPlaymate() {
   const [loaded, setLoaded] = useState(false);
-  const [own, setOwn] = useState("");
+  const [own, setOwn] = useState(false);
   const [friendStatus, setFriendStatus] = useState(false)
 
-  const [userData, setUserData] = useState("");
-  const [events, setEvents] = useState([]);
-  const [showedEvents, setShowedEvents] = useState([]);
+  const [userData, setUserData] = useState<UserProfile | CurrentUser | null>(null);
+  const [events, setEvents] = useState<EventSummary[]>([]);
+  const [showedEvents, setShowedEvents] = useState<EventSummary[]>([]);
   const [friendRequests, setFriendRequests] = useState([]);
-  const [selectedTeam, setSelectedTeam] = useState(null);
-  const [selectedSport, setSelectedSport] = useState(null);
-  const [selectedDate, setSelectedDate] = useState("");
-  const [searchKey, setSearchKey] = useState("");
+  const [filters, setFilters] = useSearchParamsState(PLAYMATE_FILTERS);
+  const selectedTeam = filters.team || null;
+  const selectedSport = filters.sport || null;
+  const selectedDate = filters.date;
+  const searchKey = filters.q;
+  const range: StatsRange = filters.range in STATS_RANGE_LABELS ? filters.range as StatsRange : "season";
+
+  const setSelectedTeam = (team: string | null) => setFilters({ team: team ?? "" });
+  const setSelectedSport = (sport: string | null) => setFilters({ sport: sport ?? "" });
+  const setSelectedDate = (date: string) => setFilters({ date });
+  const setSearchKey = (q: string) => setFilters({ q }, { replace: true });
+  const setRange = (range: StatsRange) => setFilters({ range });
+  const clearFilters = () => setFilters({ team: "", sport: "", date: "", q: "" });
 
-  const [admin, setAdmin] = useState(false);
+  const currentUser = useCurrentUser();
+  // The filters share the query string with the profile being looked at
+  const [searchParams] = useSearchParams();
+  const id = searchParams.get("id");
 
   useEffect(() => {
-    const id = window.location.href.split("id=")[1]
-    let url = "http://127.0.0.1:5001/getUserData"
     if (id) {
-      url += `/${id}`
-
-      fetch("http://127.0.0.1:5001/getFriendStatus", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-          friendId: id,
-        }),
-      })
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.data === "Accepted") setFriendStatus(true)
-      });
-    }
+      api.friends.status(id)
+        .then((status) => {
+          if (status === "Accepted") setFriendStatus(true)
+        })
+        .catch(() => {});
 
-    fetch(url, {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      if (data.data.userType == "Admin") {
-        setAdmin(true);
-      }
-
-      setUserData(data.data);
-      setOwn(data.data.own)
-
-      if (data.data == "token expired") {
-        if (window.location.pathname !== "/login") {
-          window.localStorage.clear();
-          window.location.href = "../../login";
-        }
-      }
-    });
-  }, []);
+      api.users.get(id)
+        .then((user) => {
+          setUserData(user);
+          setOwn(user.own)
+        })
+        .catch(() => {});
+    } else {
+      setUserData(currentUser);
+      setOwn(true)
+    }
+  }, [id]);
 
   useEffect(() => {
     if(!userData) return;
     console.log("here", userData)
-    fetch("http://127.0.0.1:5001/getEvents", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        userId: userData.id,
-        status: "Accepted"
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setEvents(data.data);
-        setShowedEvents(data.data);
+    api.events.list({ userId: profileId(userData), status: "Accepted" })
+      .then((events) => {
+        setEvents(events);
         setLoaded(true);
-    });
+      })
+      .catch(() => {});
   }, [userData]);
 
   useEffect(() => {
@@ -422,7 +419,7 @@ export function MyPlaymate() {
       if (event.name.toString().toLowerCase().indexOf(searchKey.toString().toLowerCase()) > -1 || event.location.toString().toLowerCase().indexOf(searchKey.toString().toLowerCase()) > -1) return true
     })
     setShowedEvents(newEvents)
-  }, [selectedTeam, selectedSport, selectedDate, searchKey])
+  }, [events, selectedTeam, selectedSport, selectedDate, searchKey])
 
   return (
     <PageView title='My Playmate'>
@@ -435,8 +432,16 @@ export function MyPlaymate() {
         selectedDate={selectedDate}
         setSelectedDate={setSelectedDate}
         searchKey={searchKey}
-        setSearchKey={setSearchKey} />
-      <Table events={showedEvents} />
+        setSearchKey={setSearchKey}
+        clearFilters={clearFilters} />
+      <EventOrderControls className='mt-5 justify-end' />
+      <Table events={showedEvents} loading={!loaded} />
+      <Charts
+        userId={userData ? profileId(userData) : null}
+        team={selectedTeam}
+        sport={selectedSport}
+        range={range}
+        setRange={setRange} />
     </PageView>
   );
 }
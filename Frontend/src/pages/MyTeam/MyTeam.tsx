@@ -1,8 +1,13 @@
 import cx from "classnames";
 
 import { PageView } from "layout/PageView";
+import { api, useQuery } from "api";
+import type { TeamSummary } from "api";
+import { Skeleton } from "components/Skeleton";
 import { Tab } from "@headlessui/react";
 import { TeamCreator } from "./TeamCreator";
+import { useSearchParamsState } from "utils";
+import { formatRate, useTeamStats } from "utils/stats";
 import { Link } from "react-router-dom";
 import PlusIcon from "assets/plus.svg";
 import SearchIcon from "assets/search.svg";
@@ -20,6 +25,8 @@ interface TeamCardProps {
   avatarUrl: string;
 }
 function TeamCard(props: TeamCardProps) {
+  const stats = useTeamStats(props.id);
+
   return (
     <div className='rounded-card bg-grey-low p-5 flex flex-col'>
       <header className='flex-1 grid grid-cols-[auto_1fr] grid-rows-[auto_1fr] gap-x-3.5 border-b-2 border-outline-2 pb-3'>
@@ -50,11 +57,11 @@ function TeamCard(props: TeamCardProps) {
 
       <footer className='tm-card-footer mt-4 flex flex-wrap gap-y-4'>
         <div className='stat'>
-          <h3>281</h3>
+          <h3>{stats ? stats.played : "-"}</h3>
           <p>Games played</p>
         </div>
         <div className='stat ml-6'>
-          <h3>77.5%</h3>
+          <h3>{formatRate(stats?.winRate ?? null)}</h3>
           <p>Win rate</p>
         </div>
         <s className='min-w-0 flex-1' />
@@ -75,132 +82,63 @@ function TeamCard(props: TeamCardProps) {
   );
 }
 
-function MyTeamGrid({teams} : any) {
+interface TeamGridProps {
+  teams: TeamSummary[];
+  loading: boolean;
+}
+
+function TeamCardSkeletons() {
+  return (
+    <>
+      {[0, 1, 2, 3].map((index) => <Skeleton key={index} className='h-44 rounded-card' />)}
+    </>
+  );
+}
+
+function MyTeamGrid({teams, loading} : TeamGridProps) {
   return (
     <section className='mb-12 mt-7 grid grid-cols-1 gap-x-3 gap-y-3 md:grid-cols-2 desktop:grid-cols-4'>
-      {teams.map((team: any, index: number) => (
+      {loading && <TeamCardSkeletons />}
+      {teams.map((team, index) => (
         <TeamCard key={index} avatars={team.avatars} membersCount={team.membersCount} id={team.id} name={team.name} avatarUrl={team.profilePic} joined={true} />
       ))}
     </section>
   );
 }
 
-function ExploreTeamGrid({teams}: any) {
+function ExploreTeamGrid({teams, loading}: TeamGridProps) {
   return (
     <section className='mb-12 mt-7 grid grid-cols-1 gap-x-3 gap-y-3 md:grid-cols-2 desktop:grid-cols-4'>
-      {teams.map((team: any, index: number) => (
+      {loading && <TeamCardSkeletons />}
+      {teams.map((team, index) => (
         <TeamCard key={index} avatars={team.avatars} membersCount={team.membersCount} id={team.id} name={team.name} avatarUrl={team.profilePic} joined={true} />
       ))}
     </section>
   );
 }
 
+// Kept in the url, see useSearchParamsState()
+const TEAM_FILTERS = { tab: "mine", q: "" };
+const TEAM_TABS = ["mine", "explore"];
+
 export function MyTeam() {
   const [searchOpen, setSearchOpen] = useState(false);
 
 
-  const [loaded, setLoaded] = useState(false);
-
-  const [userData, setUserData] = useState("");
-  const [teams, setTeams] = useState([]);
-  const [showTeams, setShowTeams] = useState([])
-  const [allTeams, setAllTeams] = useState([]);
-  const [showAllTeams, setShowAllTeams] = useState([])
-  const [index, setIndex ] = useState(0)
-  const [searchKey, setSearchKey] = useState("")
-
-  const [admin, setAdmin] = useState(false);
-
-  useEffect(() => {
-      fetch("http://127.0.0.1:5001/getUserData", {
-          method: "POST",
-          crossDomain: true,
-          headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-          },
-          body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-          }),
-      })
-      .then((res) => res.json())
-      .then((data) => {
-          if (data.data.userType == "Admin") {
-              setAdmin(true);
-          }
-
-          setUserData(data.data);
-
-          if (data.data == "token expired") {
-            if (window.location.pathname !== "/login") {
-              window.localStorage.clear();
-              window.location.href = "../../login";
-            }
-          }
-
-      });
-
-  }, []);
-
-  useEffect(() => {
-    if(!userData) return;
-
-    fetch("http://127.0.0.1:5001/getTeams", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setTeams(data.data);
-        setShowTeams(data.data);
-        setLoaded(true);
-    }
-    );
-
-    fetch("http://127.0.0.1:5001/getAllTeams", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-        }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-        setAllTeams(data.data);
-        setShowAllTeams(data.data)
-        setLoaded(true);
-    }
-    );
-
-  }, [userData]);
+  const myTeamsQuery = useQuery(api.teams.list);
+  const exploreQuery = useQuery(api.teams.explore);
+  const [filters, setFilters] = useSearchParamsState(TEAM_FILTERS)
+  const index = Math.max(0, TEAM_TABS.indexOf(filters.tab))
+  const searchKey = filters.q
 
-  useEffect(() => {
-    setSearchKey('')
-  }, [index])
+  // The search only applies to the open tab
+  const byName = (teams: TeamSummary[], key: string) =>
+    teams.filter(team => team.name.toString().toLowerCase().indexOf(key.toString().toLowerCase()) > -1)
+  const showTeams = byName(myTeamsQuery.data ?? [], index === 0 ? searchKey : "")
+  const showAllTeams = byName(exploreQuery.data ?? [], index === 1 ? searchKey : "")
 
   const onSearch = (key: string) => {
-    setSearchKey(key)
-    if (!index) {
-      const newTeams = teams.filter(team => team.name.toString().toLowerCase().indexOf(key.toString().toLowerCase()) > -1)
-      setShowTeams(newTeams)
-    } else {
-      const newAllTeams = allTeams.filter(team => team.name.toString().toLowerCase().indexOf(key.toString().toLowerCase()) > -1)
-      setShowAllTeams(newAllTeams)
-    }
+    setFilters({ q: key }, { replace: true })
   }
 
   return (
@@ -234,7 +172,11 @@ export function MyTeam() {
           />
         </div>
       )}
-      <Tab.Group manual defaultIndex={0} onChange={(index) => setIndex(index)}>
+      <Tab.Group
+        manual
+        selectedIndex={index}
+        onChange={(index) => setFilters({ tab: TEAM_TABS[index], q: "" })}
+      >
         <Tab.List className='flex gap-x-2 mini-desktop:items-center'>
           <Tab className='app-tab flex-1 mini-desktop:flex-initial'>
             My Team
@@ -265,11 +207,11 @@ export function MyTeam() {
         </Tab.List>
         <Tab.Panels>
           <Tab.Panel>
-            <MyTeamGrid teams={showTeams}/>
+            <MyTeamGrid teams={showTeams} loading={myTeamsQuery.loading} />
             <p>&nbsp;</p>
           </Tab.Panel>
           <Tab.Panel>
-            <ExploreTeamGrid teams={showAllTeams} />
+            <ExploreTeamGrid teams={showAllTeams} loading={exploreQuery.loading} />
             <p>&nbsp;</p>
           </Tab.Panel>
         </Tab.Panels>
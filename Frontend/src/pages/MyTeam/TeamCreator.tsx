@@ -15,9 +15,11 @@ import Member2 from "assets/member-2.png";
 import Member3 from "assets/member-3.png";
 import { DialogSheet } from "components/DialogSheet";
 
-import axios from 'axios';
+import { api, useQuery } from "api";
+import { useCurrentUser } from "auth";
+import type { Id, User } from "types/domain";
 
-function UploadBanner({bannerPicPath, onClick }: any) {
+function UploadBanner({bannerPicPath, onClick }: { bannerPicPath: string; onClick: () => void }) {
   return (
     <div className='flex w-full flex-col items-center gap-y-4 rounded-half border border-grey-high bg-dim-black p-5'>
       {bannerPicPath == "" ? (
@@ -43,77 +45,48 @@ interface TeamFormProp {
   onCreate: () => void;
 }
 function TeamForm({ onClose, onCreate }: TeamFormProp) {
-  const [loaded, setLoaded] = useState(false);
+  const userData = useCurrentUser();
 
-  const [userData, setUserData] = useState("");
-  const [admin, setAdmin] = useState(false);
-
-  const [sportsData, setSportsData] = useState([]); // This is the list of sports that exist in the database
-  const [selectedSportId, setSelectedSportId] = useState(null); // This is the sportId of the sport that the user selected from the dropdown
+  const { data: sportsData = [] } = useQuery(api.sports.list); // This is the list of sports that exist in the database
+  const [selectedSportId, setSelectedSportId] = useState<Id | null>(null); // This is the sportId of the sport that the user selected from the dropdown
 
   const [profilePicPath, setProfilePicPath] = useState("");
   const [bannerPicPath, setBannerPicPath] = useState("");
 
   const [teamName, setTeamName] = useState("");
   const [teamDescription, setTeamDescription] = useState("");
-  const [members, setTeamMembers] = useState([]);
-  const [teamGender, setTeamGender] = useState(null);
-  const [allFriends, setAllFriends] = useState([]);
-  const [showFriends, setShowFriends] = useState([]);
+  const [members, setTeamMembers] = useState<Id[]>([]);
+  const [teamGender, setTeamGender] = useState<string | null>(null);
+  const { data: friends } = useQuery(api.friends.list);
+  const allFriends = friends ?? [];
+  const [showFriends, setShowFriends] = useState<User[]>([]);
   const [teamAvatarError, setTeamAvatarError] = useState(false);
   const [teamBannerError, setTeamBannerError] = useState(false);
   const [teamNameError, setTeamNameError] = useState(false);
   const [gameTypeError, setGameTypeError] = useState(false)
   const [genderError, setGenderError] = useState(false)
-  const [selectedGame, setSelectedGame] = useState(null)
+  const [selectedGame, setSelectedGame] = useState<string | null>(null)
   const [searchKey, setSearchKey] = useState("");
 
-  const saveProfilePic = async (e) => {
-      let file = e.target.files[0];
-      let fileName = e.target.files[0].name;
-
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("fileName", fileName);
-
-      // Add the token to the body of the request
-      formData.append("token", window.localStorage.getItem("token"));
+  const saveProfilePic = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
 
       try {
-        const res = await axios.post(
-          "http://127.0.0.1:5001/picUpload",
-          formData
-        );
-        console.log(res);
-
-          setProfilePicPath(res.data.data);
-          setTeamAvatarError(false)
+        setProfilePicPath(await api.uploads.picture(file));
+        setTeamAvatarError(false)
       } catch (ex) {
         console.log(ex);
       }
-
   };
 
-  const saveBannerPic = async (e) => {
-      let file = e.target.files[0];
-      let fileName = e.target.files[0].name;
-
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("fileName", fileName);
-
-      // Add the token to the body of the request
-      formData.append("token", window.localStorage.getItem("token"));
+  const saveBannerPic = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
 
       try {
-        const res = await axios.post(
-          "http://127.0.0.1:5001/picUpload",
-          formData
-        );
-        console.log(res);
-
-          setBannerPicPath(res.data.data);
-          setTeamBannerError(false)
+        setBannerPicPath(await api.uploads.picture(file));
+        setTeamBannerError(false)
       } catch (ex) {
         console.log(ex);
       }
@@ -128,108 +101,21 @@ function TeamForm({ onClose, onCreate }: TeamFormProp) {
     if (!teamGender) setGenderError(true)
     if (!teamName || !teamGender || !selectedSportId || !profilePicPath || !bannerPicPath) return
 
-    fetch("http://127.0.0.1:5001/createTeam", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-            token: window.localStorage.getItem("token"),
-            name: teamName,
-            description: teamDescription,
-            members: members,
-            gender: teamGender,
-            sportsTypeId: selectedSportId,
-            profilePic: profilePicPath,
-            profileBanner: bannerPicPath,
-        }),
+    api.teams.create({
+        name: teamName,
+        description: teamDescription,
+        members: members,
+        gender: teamGender,
+        sportsTypeId: selectedSportId,
+        profilePic: profilePicPath,
+        profileBanner: bannerPicPath,
     })
-    .then((res) => res.json())
-    .then((data) => {
-        if (data.data == "token expired") {
-            window.localStorage.clear();
-            window.location.href = "../../login";
-        }
-        else {
-          if (data.status == "ok") {
-            window.location.href = "../../team/index?id=" + data.data.team;
-          }
-        }
-    });
+    .then((membership) => {
+        window.location.href = "../../team/index?id=" + membership.team;
+    })
+    .catch(() => {});
   }
 
-  useEffect(() => {
-      fetch("http://127.0.0.1:5001/getUserData", {
-        method: "POST",
-        crossDomain: true,
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
-        body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-        }),
-      })
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.data.userType == "Admin") {
-          setAdmin(true);
-        }
-
-        setUserData(data.data);
-
-        if (data.data == "token expired") {
-          window.localStorage.clear();
-          window.location.href = "./login";
-        }
-      });
-
-      // Get the list of sports that exist in the database
-      fetch("http://127.0.0.1:5001/getSports", {
-          method: "GET",
-          crossDomain: true,
-          headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-          }
-      })
-      .then((res) => res.json())
-      .then((data) => {
-          setSportsData(data.data);
-
-          setLoaded(true);
-      }
-      );
-
-      fetch("http://127.0.0.1:5001/getFriends", {
-          method: "POST",
-          crossDomain: true,
-          headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-          },
-          body: JSON.stringify({
-          token: window.localStorage.getItem("token"),
-        }),
-      })
-      .then((res) => res.json())
-      .then((data) => {
-        setAllFriends(data.data);
-        setShowFriends(data.data)
-
-        if (data.data == "token expired") {
-          window.localStorage.clear();
-          window.location.href = "./login";
-        }
-      });
-  }, []);
-
   useEffect(() => {
     if (teamName) setTeamNameError(false)
     if (selectedSportId) setGameTypeError(false)
@@ -271,7 +157,7 @@ function TeamForm({ onClose, onCreate }: TeamFormProp) {
     } else {
       setShowFriends(allFriends)
     }
-  }, [searchKey])
+  }, [searchKey, friends])
 
   return (
     <>
@@ -1,23 +1,26 @@
-import cx from "classnames";
 import { PageView } from "layout/PageView";
 
 import { MembersAndLineup } from "components/MembersAndLineup/MembersAndLineup";
 
 import TeamCover from "assets/team-cover.jpg";
-import { ClockIcon } from "components/adaptive-icons/PinMarker";
-import { PinMarkerIcon } from "components/adaptive-icons/Clock";
-import RightArrow from "assets/right-arrow.svg";
 import MoreIcon from "assets/more.svg";
-import Team1 from "assets/team-1.png";
-import Team2 from "assets/team-2.png";
-import Team10 from "assets/team-10.png";
-import Team11 from "assets/team-11.png";
-import CopyIcon from "assets/copy.svg";
 import { useNavigate } from "react-router-dom";
-import React, { Component, useEffect, useState } from "react";
+import React, { Component, useEffect, useMemo, useState } from "react";
 import { useMenu } from "utils";
 import { Menu, Transition } from "@headlessui/react";
 import { commonTransitionProps } from "components/PanelTransition";
+import { api, useQuery } from "api";
+import type { SportInfo, TeamDetails, TeamMemberInfo, TeamSummary } from "api";
+import { useCurrentUser } from "auth";
+import { Skeleton } from "components/Skeleton";
+import { TeamFixtureBlock } from "components/TeamFixtureBlock";
+import type { FixtureCardEvent } from "components/TeamFixtureBlock";
+import { CopyLinkButton } from "components/CopyLinkButton";
+import { GameHistory } from "components/GameHistory";
+import { eventShareUrl } from "utils/recurrence";
+import { splitFixtures } from "utils/fixtures";
+import type { Match } from "utils/fixtures";
+import { formatRate, formatStreak, useTeamStats } from "utils/stats";
 
 function ImageActions() {
   const m = useMenu();
@@ -62,203 +65,120 @@ function ImageActions() {
   );
 }
 
-function TopBlock({teamData} : any) {
+function TopBlock({teamData} : {teamData: TeamDetails | null}) {
+  const stats = useTeamStats(teamData?.id ?? null);
 
-  function formatDateTime(dateTime : any) {
+  function formatDateTime(dateTime? : string) {
     // Format to e.g Jan 2023
-    var date = new Date(dateTime);
+    var date = new Date(dateTime ?? "");
     var month = date.toLocaleString('default', { month: 'short' });
     var year = date.getFullYear();
 
     return month + " " + year;
   }
 
+  if (!teamData) {
+    return (
+      <>
+        <Skeleton className='mb-16 h-40 w-full rounded-card' />
+        <Skeleton className='h-8 w-56' />
+        <Skeleton className='mt-3 h-5 w-40' />
+      </>
+    );
+  }
+
   return (
     <>
       <div className='relative mb-16 h-40 w-full'>
         <img
           className='h-full w-full rounded-card object-cover object-center'
-          src={teamData.profileBanner}
+          src={teamData?.profileBanner}
         />
 
         <ImageActions />
 
         <div className='absolute bottom-0 left-4 h-25 w-25 translate-y-1/2 overflow-hidden rounded-full border-4 border-sheet desktop:left-8'>
-          <img src={teamData.profilePic} />
+          <img src={teamData?.profilePic} />
         </div>
       </div>
 
       <div className='flex flex-wrap items-center gap-x-4 gap-y-5'>
         <div className='grow basis-full sm:basis-0'>
           <h1 className='text-idxtitle font-bold leading-tight sm:whitespace-nowrap'>
-            {teamData.name}
+            {teamData?.name}
           </h1>
-          <p className='text-fine text-grey-classic'>Opened: {formatDateTime(teamData.createdAt)}</p>
+          <p className='text-fine text-grey-classic'>Opened: {formatDateTime(teamData?.createdAt)}</p>
         </div>
         <div className='flex flex-wrap gap-x-6 gap-y-4 sm:order-1 sm:shrink-0 sm:flex-nowrap'>
           <div className='pm-stat'>
-            <h3>18</h3>
+            <h3>{teamData.memberCount}</h3>
             <p>Members</p>
           </div>
           <div className='pm-stat'>
-            <h3>281</h3>
+            <h3>{stats ? stats.played : "-"}</h3>
             <p>Games played</p>
           </div>
           <div className='pm-stat'>
-            <h3>77.5%</h3>
+            <h3>{formatRate(stats?.winRate ?? null)}</h3>
             <p>Win rate</p>
           </div>
+          <div className='pm-stat'>
+            <h3>{stats ? `${stats.goalsFor}:${stats.goalsAgainst}` : "-"}</h3>
+            <p>Goals</p>
+          </div>
+          <div className='pm-stat'>
+            <h3>{formatStreak(stats?.streak ?? null)}</h3>
+            <p>Streak</p>
+          </div>
+          <div className='pm-stat'>
+            <h3>{formatRate(stats?.attendanceRate ?? null)}</h3>
+            <p>Attendance</p>
+          </div>
         </div>
       </div>
     </>
   );
 }
 
-interface TeamFixtureBlockProps {
-  srcA: string;
-  srcB: string;
-}
-function TeamFixtureBlock(props: TeamFixtureBlockProps) {
-  return (
-    <div className='min-w-0 flex-1 overflow-hidden rounded-half bg-grey-low p-5'>
-      <div className='flex items-center gap-x-2 border-b border-outline-2 pb-5'>
-        <div className='flex-shrink-0 overflow-hidden rounded-full'>
-          <img className='w-7' src={props.srcA} />
-        </div>
-        <span className='min-w-0 overflow-hidden text-ellipsis'>
-          Team Soccer A
-        </span>
-        <p className='mx-2 flex-1 text-center text-grey-subtle'>V</p>
-        <span className='min-w-0 overflow-hidden text-ellipsis'>
-          Team Soccer B
-        </span>
-        <div className='flex-shrink-0 overflow-hidden rounded-full'>
-          <img className='w-7' src={props.srcB} />
-        </div>
-      </div>
+// How many of the next matches are shown until all are asked for
+const NEXT_FIXTURES = 2;
 
-      <div className='relative mt-5'>
-        <p className='mb-1 flex items-center gap-x-2.5'>
-          <PinMarkerIcon className='flex-shrink-0 text-blue-high' />
-
-          <span className='min-w-0 overflow-hidden text-ellipsis font-semibold text-dim-white'>
-            Emirate stadium, England
-          </span>
-        </p>
-        <p className='flex items-center gap-x-2.5 text-dim-white'>
-          <ClockIcon className='flex-shrink-0 text-blue-high' />
-
-          <span className='min-w-0 overflow-hidden text-ellipsis text-fine text-dim-white'>
-            15/10/2023 02:00 PM
-          </span>
-        </p>
-
-        <button className='bottom-0 right-0 mt-6 flex gap-x-2 rounded-half bg-grey-high p-2.5 transition-colors hover:bg-blue-high/10 xs:absolute'>
-          <img src={CopyIcon} />
-          <span className='text-fine'>Copy Link</span>
-        </button>
-      </div>
-    </div>
-  );
-}
+function Fixtures({ upcoming, loading }: { upcoming: (FixtureCardEvent & Match)[]; loading: boolean }) {
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? upcoming : upcoming.slice(0, NEXT_FIXTURES);
 
-function Fixtures() {
   return (
     <section>
-      <h3 className='mb-3 text-lg font-medium'>Next Fixtures</h3>
+      <div className='mb-3 flex items-center justify-between gap-x-4'>
+        <h3 className='text-lg font-medium'>Next Fixtures</h3>
+        {upcoming.length > NEXT_FIXTURES && (
+          <button onClick={() => setShowAll(x => !x)} className='text-fine underline transition-colors hover:text-blue-high'>
+            {showAll ? "Show less" : `See all (${upcoming.length})`}
+          </button>
+        )}
+      </div>
 
-      <div className='flex min-w-0 flex-col gap-x-5 gap-y-5 xl:flex-row'>
-        <TeamFixtureBlock srcA={Team1} srcB={Team2} />
-        <TeamFixtureBlock srcA={Team10} srcB={Team11} />
+      <div className='grid min-w-0 grid-cols-1 gap-5 xl:grid-cols-2'>
+        {loading && <Skeleton className='h-44 min-w-0 rounded-half' />}
+        {!loading && upcoming.length === 0 && <p className='text-fine text-grey-subtle'>No upcoming fixtures</p>}
+        {shown.map((fixture) => (
+          <TeamFixtureBlock key={fixture.id + fixture.date} fixture={fixture}>
+            <CopyLinkButton url={eventShareUrl(fixture)} className='bottom-0 right-0 mt-6 xs:absolute' />
+          </TeamFixtureBlock>
+        ))}
       </div>
     </section>
   );
 }
 
-interface ResultStatusProps {
-  letter: string;
-  bgColorClass: string;
-}
-function ResultStatus(props: ResultStatusProps) {
-  return (
-    <div
-      className={cx(
-        "box-content flex h-6 w-6 items-center justify-center rounded-half p-0.5 text-dim-black",
-        props.bgColorClass
-      )}
-    >
-      {props.letter}
-    </div>
-  );
-}
+function Information({ teamId }: { teamId: string }) {
+  const { data: fixtures, loading } = useQuery(api.events.fixtures, teamId ? [teamId] : null);
+  const { upcoming, played } = useMemo(() => splitFixtures(fixtures ?? []), [fixtures]);
 
-function ViewMore() {
-  return (
-    <a href='#' className='flex items-center'>
-      <span className='mr-0.5 text-fine underline'>View</span>
-      <img src={RightArrow} />
-    </a>
-  );
-}
-
-function Row(props: ResultStatusProps) {
-  let { ...rest } = props;
-  return (
-    <tr>
-      <td>
-        <p className='flex gap-x-2'>Team never lucky Vs Tzatziki Turbo</p>
-      </td>
-      <td>Civic Centre Westchester, London</td>
-      <td>06:00PM - 08:00PM</td>
-      <td>23, August 2023</td>
-      <td>
-        <ResultStatus {...rest} />
-      </td>
-      <td>
-        <ViewMore />
-      </td>
-    </tr>
-  );
-}
-
-function GameHistory() {
-  return (
-    <div className='pm-table-section'>
-      <h3 className='mb-3 mt-5 text-lg font-medium'>Game history</h3>
-      <table>
-        <thead>
-          <tr>
-            <th>Sport</th>
-            <th>Location</th>
-            <th>Time</th>
-            <th>Date</th>
-            <th className='w-1'>Result</th>
-            <th className='w-1'>See more</th>
-          </tr>
-        </thead>
-        <tbody>
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-          <Row letter='W' bgColorClass='bg-blue-high' />
-        </tbody>
-      </table>
-    </div>
-  );
-}
-
-function Information() {
   return (
     <section className=''>
-      <Fixtures />
-      <GameHistory />
+      <Fixtures upcoming={upcoming} loading={loading} />
+      <GameHistory key={teamId} matches={played} teamId={teamId} loading={loading} />
     </section>
   );
 }
@@ -266,24 +186,24 @@ function Information() {
 export function TeamIndex() {
   const navigate = useNavigate();
 
-  const [selectedTeamId, setSelectedTeamId] = useState(window.location.href.split("id=")[1]);
+  const id = window.location.href.split("id=")[1];
+  const [selectedTeamId, setSelectedTeamId] = useState(id);
 
   const [loaded, setLoaded] = useState(false);
 
   const [loadedTeamData, setLoadedTeamData] = useState(false);
 
-  const [teamsData, setTeamsData] = useState([]); // This is the list of teams that the user is a part of
+  const [teamsData, setTeamsData] = useState<TeamSummary[]>([]); // This is the list of teams that the user is a part of
 
-  const [teamData, setTeamData] = useState("");
+  const [teamData, setTeamData] = useState<TeamDetails | null>(null);
   const [isPublicView, setPublicView] = useState(false); // The Public View is the view that is seen by other users, not the logged in user
 
-  const [sportsData, setSportsData] = useState([]); // This is the list of sports that exist in the database
+  const [sportsData, setSportsData] = useState<SportInfo[]>([]); // This is the list of sports that exist in the database
   const [selectedSportId, setSelectedSportId] = useState(""); // This is the sport that is selected by the user
 
-  const [membersData, setMembersData] = useState([]); // This is the list of members of the team
+  const [membersData, setMembersData] = useState<TeamMemberInfo[]>([]); // This is the list of members of the team
 
-  const [userData, setUserData] = useState("");
-  const [admin, setAdmin] = useState(false);
+  const userData = useCurrentUser();
 
   const [teamAdmin, setTeamAdmin] = useState(false); // This is true if the logged in user is an admin of the team
 
@@ -303,7 +223,7 @@ export function TeamIndex() {
       // This function is called when the user selects a sport from the dropdown teamDropdown
 
       // Get the teamId of the selected team
-      var teamId = document.getElementById("teamDropdown").value;
+      var teamId = (document.getElementById("teamDropdown") as HTMLSelectElement).value;
 
       if(teamId == "new") {
           // If the user selects "Create a new team" then redirect them to the Create Team page
@@ -315,7 +235,7 @@ export function TeamIndex() {
 
   }
 
-  function setOption(selectElement, value) {
+  function setOption(selectElement: HTMLSelectElement, value: string) {
       return [...selectElement.options].some((option, index) => {
           if (option.value == value) {
               selectElement.selectedIndex = index;
@@ -324,13 +244,13 @@ export function TeamIndex() {
       });
   }
 
-  const setSelectedTeamById = function(teamId) {
+  const setSelectedTeamById = function(teamId: string) {
       // Set the selectedTeamId to the teamId passed in
       setSelectedTeamId(teamId);
 
       // Wait for the teamsData to be loaded
       if(loaded) {
-          setOption(document.getElementById("teamDropdown"), teamId);
+          setOption(document.getElementById("teamDropdown") as HTMLSelectElement, teamId);
       }
   }
 
@@ -340,7 +260,7 @@ export function TeamIndex() {
       setLoadedTeamData(false);
 
       // Get the sportId of the selected sport
-      var sportId = document.getElementById("sportsTypesDropdown").value;
+      var sportId = (document.getElementById("sportsTypesDropdown") as HTMLSelectElement).value;
 
       // Set the selectedSportId to the sportId of the selected sport
       setSelectedSportId(sportId);
@@ -365,52 +285,17 @@ export function TeamIndex() {
   }
 
   useEffect(() => {
-      fetch("http://127.0.0.1:5001/getUserData", {
-              method: "POST",
-              crossDomain: true,
-              headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-              "Access-Control-Allow-Origin": "*",
-              },
-              body: JSON.stringify({
-              token: window.localStorage.getItem("token"),
-          }),
-      })
-      .then((res) => res.json())
-      .then((data) => {
-          if (data.data.userType == "Admin") {
-              setAdmin(true);
-          }
-
-          setUserData(data.data);
-
-          if (data.data == "token expired") {
-              window.localStorage.clear();
-              window.location.href = "../../../login";
-          }
-
-      });
-
       // Get the list of sports that exist in the database
-      fetch("http://127.0.0.1:5001/getSports", {
-          method: "GET",
-          crossDomain: true,
-          headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Access-Control-Allow-Origin": "*",
-          }
-      })
-      .then((res) => res.json())
-      .then((data) => {
-          setSportsData(data.data);
+      api.sports.list()
+          .then((sports) => {
+              setSportsData(sports);
 
-          setSelectedSportId(data.data[0].id);
-      });
+              setSelectedSportId(sports[0].id);
+          })
+          .catch(() => {});
 
       // Get the popup message from the local storage
-      setPopupMessage(window.localStorage.getItem("message"));
+      setPopupMessage(window.localStorage.getItem("message") ?? "");
       setPopupVisible(false);
   }, []);
 
@@ -454,72 +339,48 @@ export function TeamIndex() {
 
   function updateTeamData() {
       if(selectedTeamId != "") {
-          fetch("http://127.0.0.1:5001/getTeamData/"+selectedTeamId, {
-              method: "POST",
-              crossDomain: true,
-              headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-              "Access-Control-Allow-Origin": "*",
-              },
-              body: JSON.stringify({
-              token: window.localStorage.getItem("token"),
-          }),
-          })
-          .then((res) => res.json())
-          .then((data) => {
-              setTeamData(data.data);
+          api.teams.get(selectedTeamId)
+              .then((team) => {
+                  setTeamData(team);
 
-              // Create the team invite link
-              // Get the current base url
-              var baseUrl = window.location.href;
+                  // Create the team invite link
+                  // Get the current base url
+                  var baseUrl = window.location.href;
 
-              // Only get the base url without any page names
-              baseUrl = baseUrl.substring(0, baseUrl.lastIndexOf("/"));
-              baseUrl = baseUrl.replace("/Teams", "");
+                  // Only get the base url without any page names
+                  baseUrl = baseUrl.substring(0, baseUrl.lastIndexOf("/"));
+                  baseUrl = baseUrl.replace("/Teams", "");
 
-              setTeamInviteLink(baseUrl + "/JoinTeam/" + data.data.id + "/" + data.data.inviteCode);
+                  setTeamInviteLink(baseUrl + "/JoinTeam/" + team.id + "/" + team.inviteCode);
 
-              setLoaded(true);
+                  setLoaded(true);
 
-              // Wait at least 500ms before setting the loadedTeamData to true
-              setTimeout(() => {
-                  setLoadedTeamData(true);
-              }, 500);
-          });
+                  // Wait at least 500ms before setting the loadedTeamData to true
+                  setTimeout(() => {
+                      setLoadedTeamData(true);
+                  }, 500);
+              })
+              .catch(() => {});
       }
   }
 
   useEffect(() => {
       // Get the list of members of the team
       if(selectedTeamId != "") {
-          fetch("http://127.0.0.1:5001/getTeamMembers/", {
-              method: "POST",
-              crossDomain: true,
-              headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-              "Access-Control-Allow-Origin": "*",
-              },
-              body: JSON.stringify({
-                  teamId: selectedTeamId,
-                  token: window.localStorage.getItem("token"),
-              }),
-          })
-          .then((res) => res.json())
-          .then((data) => {
-              setMembersData(data.data);
-
-              // Check if the user is a admin of the team
-              let isAdmin = false;
-              for(var i = 0; i < data.data.length; i++) {
-                  if(data.data[i].id == userData._id && data.data[i].role == "Admin") {
-                      isAdmin = true;
+          api.teams.members(selectedTeamId)
+              .then((members) => {
+                  setMembersData(members);
+
+                  // Check if the user is a admin of the team
+                  let isAdmin = false;
+                  for(var i = 0; i < members.length; i++) {
+                      if(members[i].id == userData?._id && members[i].role == "Admin") {
+                          isAdmin = true;
+                      }
                   }
-              }
-              setTeamAdmin(isAdmin);
-          }
-          );
+                  setTeamAdmin(isAdmin);
+              })
+              .catch(() => {});
       }
   }, [selectedTeamId]);
 
@@ -560,10 +421,14 @@ export function TeamIndex() {
           <TopBlock teamData={teamData} />
         </div>
         <div className='col-0 desktop:col-1 desktop:row-span-2'>
-          <MembersAndLineup members={membersData} />
+          <MembersAndLineup
+            members={membersData}
+            teamId={selectedTeamId || null}
+            sport={sportsData.find((sport) => sport.id === teamData?.sportsType)?.name ?? null}
+          />
         </div>
         <div>
-          <Information />
+          <Information teamId={selectedTeamId} />
         </div>
       </div>
     </PageView>
@@ -0,0 +1,158 @@
+import React from "react";
+import { Helmet } from "react-helmet";
+import { useSearchParams } from "react-router-dom";
+import { api, useQuery } from "api";
+import type { TeamMemberInfo } from "api";
+import type { Id, Substitution } from "types/domain";
+import { formationOf } from "utils/formations";
+import { emptyLineup } from "utils/lineup";
+import { eventStart, eventTimeZone, formatLongDay } from "utils/datetime";
+import type { LineupPlayer } from "components/MembersAndLineup/FieldView";
+
+// Guests invited to a match have no role in the team
+type SheetPlayer = LineupPlayer & Partial<Pick<TeamMemberInfo, "role">>;
+
+interface SheetRow {
+  key: string | number;
+  player?: SheetPlayer;
+  position: string;
+}
+
+function SheetTable({ title, rows }: { title: string; rows: SheetRow[] }) {
+  return (
+    <section className='mt-8 break-inside-avoid'>
+      <h2 className='mb-2 text-lg font-bold uppercase tracking-wide'>{title}</h2>
+      <table className='w-full border-collapse text-left'>
+        <thead>
+          <tr className='border-b-2 border-black text-sm'>
+            <th className='w-16 py-1.5 font-semibold'>No.</th>
+            <th className='py-1.5 font-semibold'>Name</th>
+            <th className='w-32 py-1.5 font-semibold'>Position</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className='border-b border-black/30'>
+              <td className='py-2 font-semibold'>{row.player?.shirtNumber ?? ""}</td>
+              <td className='py-2'>
+                {row.player ? `${row.player.fname} ${row.player.lname}` : "-"}
+                {row.player?.role === "Captain" && " (C)"}
+              </td>
+              <td className='py-2'>{row.position || "-"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+interface SubstitutionTableProps {
+  substitutions: Substitution[];
+  playerOf: (userId: Id) => SheetPlayer | undefined;
+}
+
+function SubstitutionTable({ substitutions, playerOf }: SubstitutionTableProps) {
+  const name = (userId: Id) => {
+    const player = playerOf(userId);
+    if (!player) return "-";
+    return `${player.shirtNumber != null ? `${player.shirtNumber} ` : ""}${player.fname} ${player.lname}`;
+  };
+
+  return (
+    <section className='mt-8 break-inside-avoid'>
+      <h2 className='mb-2 text-lg font-bold uppercase tracking-wide'>Substitutions</h2>
+      <table className='w-full border-collapse text-left'>
+        <thead>
+          <tr className='border-b-2 border-black text-sm'>
+            <th className='w-16 py-1.5 font-semibold'>Min.</th>
+            <th className='py-1.5 font-semibold'>Off</th>
+            <th className='py-1.5 font-semibold'>On</th>
+          </tr>
+        </thead>
+        <tbody>
+          {substitutions.map((sub, index) => (
+            <tr key={index} className='border-b border-black/30'>
+              <td className='py-2 font-semibold'>{sub.minute}'</td>
+              <td className='py-2'>{name(sub.off)}</td>
+              <td className='py-2'>{name(sub.on)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+// The saved lineup of a team, or of one of its matches with `event`, on an A4
+// page. It is shown without the rest of the app so it prints as it is shown.
+export function TeamSheet() {
+  const [searchParams] = useSearchParams();
+  const teamId = searchParams.get("team");
+  const eventId = searchParams.get("event") ?? undefined;
+  const { data: team, error } = useQuery(api.teams.get, teamId ? [teamId] : null);
+  const { data: members = [] } = useQuery(api.teams.members, teamId ? [teamId] : null);
+  const { data: event } = useQuery(api.events.get, eventId ? [eventId] : null);
+  const { data: saved, loading } = useQuery(api.lineups.get, teamId ? [teamId, eventId] : null);
+  const { data: sports = [] } = useQuery(api.sports.list);
+
+  const sport = event?.sport ?? sports.find((sport) => sport.id === team?.sportsType)?.name ?? null;
+  const lineup = saved ?? emptyLineup(sport);
+  const formation = formationOf(lineup.formation, sport);
+  const memberOf = (userId: string | undefined): SheetPlayer | undefined =>
+    members.find((member) => member.id === userId) ?? event?.members.find((guest) => guest.id === userId);
+
+  const starters: SheetRow[] = formation.slots.map((slot, index) => ({
+    key: index,
+    player: memberOf(lineup.slots.find((placed) => placed.slot === index)?.user),
+    position: slot.position
+  }));
+  const substitutes: SheetRow[] = lineup.bench.flatMap((userId) => {
+    const player = memberOf(userId);
+    return player ? [{ key: userId, player, position: player.position ?? "" }] : [];
+  });
+
+  if (!teamId || error) {
+    return <p className='p-10 text-grey-type'>{error instanceof Error ? error.message : "Team not found"}</p>;
+  }
+
+  return (
+    <div className='min-h-screen bg-white text-black'>
+      <Helmet>
+        <title>{team ? `${team.name} team sheet` : "Team sheet"}</title>
+        <style>{"@page { size: A4; margin: 15mm; }"}</style>
+      </Helmet>
+
+      <div className='mx-auto flex max-w-[210mm] justify-end px-[15mm] pt-6 print:hidden'>
+        <button
+          onClick={() => window.print()}
+          disabled={!team || loading}
+          className='rounded-half bg-blue-high px-10 py-2.5 font-medium text-dim-black hover:bg-blue-high/80 disabled:opacity-50'
+        >
+          Print
+        </button>
+      </div>
+
+      <article className='mx-auto max-w-[210mm] p-[15mm] print:max-w-none print:p-0'>
+        <header className='flex items-end justify-between gap-x-5 border-b-4 border-black pb-3'>
+          <div>
+            <h1 className='text-3xl font-bold'>{team?.name}</h1>
+            <p className='mt-1'>{[sport, formation.name].filter(Boolean).join(" · ")}</p>
+          </div>
+          <div className='text-right text-sm'>
+            {event && <p className='font-semibold'>{event.name}</p>}
+            <p className='whitespace-nowrap'>
+              {event ? formatLongDay(eventStart(event), eventTimeZone(event)) : formatLongDay(new Date())}
+            </p>
+          </div>
+        </header>
+
+        <SheetTable title={formation.slots.length === 11 ? "Starting XI" : "Starting lineup"} rows={starters} />
+        {substitutes.length > 0 && <SheetTable title='Substitutes' rows={substitutes} />}
+        {lineup.substitutions.length > 0 && (
+          <SubstitutionTable substitutions={lineup.substitutions} playerOf={memberOf} />
+        )}
+      </article>
+    </div>
+  );
+}
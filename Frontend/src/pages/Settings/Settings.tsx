@@ -3,20 +3,26 @@ import "./styles.css";
 import { Tab } from "@headlessui/react";
 
 import { PageView } from "layout/PageView";
-import axios from "axios";
+import { api } from "api";
+import { useAuth } from "auth";
 import { UploadAvatar } from "components/UploadAvatar/UploadAvatar";
 import InputComponent from "components/InputComponent";
 import { Switch } from "components/Switch";
-import { useState, useEffect } from "react";
+import { ListBox } from "components/ListBox";
+import { HOUR_CYCLE_LABELS, useHourCycle } from "utils/datetime";
+import type { HourCycle } from "utils/datetime";
+import React, { useState, useEffect } from "react";
 
-function AccountSettings({userData}: any) {
+function AccountSettings() {
+  const { user: userData, reload } = useAuth();
   const [profilePicPath, setProfilePicPath] = useState("");
-  const [firstName, setFirstName] = useState()
-  const [lastName, setLastName] = useState()
-  const [userName, setUserName] = useState()
+  const [firstName, setFirstName] = useState<string>()
+  const [lastName, setLastName] = useState<string>()
+  const [userName, setUserName] = useState<string>()
   const [firstNameError, setFirstNameError] = useState(false)
   const [lastNameError, setLastNameError] = useState(false)
   const [userNameError, setUserNameError] = useState(false)
+  const [hourCycle, setHourCycle] = useHourCycle();
 
   const updateAccountSettings = () => {
     if (!firstName) setFirstNameError(true)
@@ -25,53 +31,22 @@ function AccountSettings({userData}: any) {
     if (!firstName || !lastName || !userName) return
     console.log(firstName, lastName, userName)
 
-    fetch("http://127.0.0.1:5001/updateProfile", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        fname: firstName,
-        lname: lastName,
-        email: userName,
-        profilePic: profilePicPath
-      }),
+    api.users.updateProfile({
+      fname: firstName,
+      lname: lastName,
+      email: userName,
+      profilePic: profilePicPath
     })
-    .then((res) => res.json())
-    .then((data) => {
-      if (data.data == "token expired") {
-          window.localStorage.clear();
-          window.location.href = "../../login";
-      }
-      else {
-        if (data.status == "ok") {
-        }
-      }
-    });
+    .then(() => reload())
+    .catch(() => {});
   }
 
-  const saveProfilePic = async (e) => {
-    let file = e.target.files[0];
-    let fileName = e.target.files[0].name;
-
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("fileName", fileName);
-
-    // Add the token to the body of the request
-    formData.append("token", window.localStorage.getItem("token"));
+  const saveProfilePic = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
 
     try {
-      const res = await axios.post(
-        "http://127.0.0.1:5001/picUpload",
-        formData
-      );
-      console.log(res);
-      setProfilePicPath(res.data.data);
+      setProfilePicPath(await api.uploads.picture(file));
     } catch (ex) {
       console.log(ex);
     }
@@ -123,6 +98,18 @@ function AccountSettings({userData}: any) {
         </div> */}
       </div>
 
+      {/* Kept on this device and used straight away, it isn't part of the profile */}
+      <div className='mt-6'>
+        <ListBox
+          className='w-full md:w-80'
+          label='Time format'
+          selected={hourCycle}
+          onChangeValue={setHourCycle}
+          data={Object.keys(HOUR_CYCLE_LABELS) as HourCycle[]}
+          renderFunc={(value) => HOUR_CYCLE_LABELS[value]}
+        />
+      </div>
+
       <button onClick={updateAccountSettings} className='mt-12 flex w-full items-center justify-center rounded-half bg-blue-high px-20 py-3 text-dim-black hover:bg-blue-high/80 md:w-auto'>
         Save
       </button>
@@ -245,38 +232,10 @@ function NotificationSettings() {
 export function Settings() {
   const [newPassword, setNewPassword] = useState("");
   const [oldPassword, setOldPassword] = useState("");
-  const [userData, setUserData] = useState();
 
   const [popupMessage, setPopupMessage] = useState("");
   const [popupVisible, setPopupVisible] = useState(false);
 
-  useEffect(() => {
-    fetch("http://127.0.0.1:5001/getUserData", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-      }),
-    })
-    .then((res) => res.json())
-    .then((data) => {
-      setUserData(data.data);
-
-      if (data.data == "token expired") {
-        if (window.location.pathname !== "/login") {
-          window.localStorage.clear();
-          window.location.href = "../../login";
-        }
-      }
-    });
-
-}, []);
-
   useEffect(() => {
     if(popupMessage != "" && popupMessage != undefined && popupMessage != null){
         console.log("popupMessage: ", popupMessage);
@@ -300,29 +259,14 @@ export function Settings() {
 }, [popupMessage]);
 
   function updatePassword() {
-    fetch("http://127.0.0.1:5001/changePassword", {
-      method: "POST",
-      crossDomain: true,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-      body: JSON.stringify({
-        token: window.localStorage.getItem("token"),
-        oldPassword,
-        newPassword,
-      }),
-    })
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.status == "ok") {
-          window.localStorage.setItem("messageType", "success");
-          setPopupMessage(data.data);
-        } else {
-          window.localStorage.setItem("messageType", "danger");
-          setPopupMessage(data.error);
-        }
+    api.users.changePassword({ oldPassword, newPassword })
+      .then((message) => {
+        window.localStorage.setItem("messageType", "success");
+        setPopupMessage(message);
+      })
+      .catch((error) => {
+        window.localStorage.setItem("messageType", "danger");
+        setPopupMessage(error.message);
       });
   }
 
@@ -342,7 +286,7 @@ export function Settings() {
         </Tab.List>
         <Tab.Panels>
           <Tab.Panel>
-            <AccountSettings userData={userData} />
+            <AccountSettings />
           </Tab.Panel>
           <Tab.Panel>
             <SecuritySettings onSubmit={updatePassword} onOldPasswordChange={setOldPassword} onNewPasswordChange={setNewPassword} />
@@ -0,0 +1,214 @@
+// Client side mirrors of the mongoose schemas in Backend/*.js. Field names have
+// to match the schemas exactly, a rename on the backend should fail `tsc`.
+
+// ObjectIds are serialised to plain strings
+export type Id = string;
+
+// Dates are serialised to ISO strings
+export type Timestamp = string;
+
+// Members accepting a full event are "Waitlisted" until a place frees up.
+// "Requested" is a user who asked to join an event they found, until the
+// organiser answers.
+export type EventStatus = "Accepted" | "Pending Invite" | "Rejected" | "Waitlisted" | "Requested";
+
+export type EventType = "team" | "network" | "pickup" | "training";
+
+// What an invited member is told about after the invite went out. "Promoted"
+// members got a place off the waitlist. "Result" goes to the team when the
+// score of a match is final, it isn't stored on the invite. "Fixture" tells
+// the organiser the opponent answered the challenge.
+export type EventNoticeKind = "Cancelled" | "Updated" | "Promoted" | "Result" | "Fixture";
+
+// Answer of the admins of a team challenged to a match
+export type FixtureStatus = "Pending" | "Accepted" | "Declined";
+
+// A recorded score waits for the opponent to confirm it
+export type ResultStatus = "Pending" | "Confirmed" | "Disputed";
+
+// The event fields members are notified about when they change
+export type EventChangeField = "date" | "startTime" | "endTime" | "location";
+
+export type FriendStatus = "Pending" | "Accepted";
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// Admins manage the team and its members, admins and captains set the lineup
+export type TeamRole = "Admin" | "Captain" | "Coach" | "Player";
+
+interface Timestamps {
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// UserInfo (userDetails.js), the password hash is left out on purpose
+export interface User extends Timestamps {
+  _id: Id;
+  fname: string;
+  lname: string;
+  email: string;
+  userType: string;
+  position: string;
+  description: string;
+  profilePic: string;
+  profileBanner: string;
+  // Secret in the url of the user's calendar feed, and the zone it falls
+  // back to for events without one
+  calendarToken?: string;
+  calendarTimeZone?: string;
+}
+
+// SportsTypes (sportsDetails.js)
+export interface Sport {
+  _id: Id;
+  name: string;
+  description: string;
+  profilePic: string;
+}
+
+// TeamInfo (teamDetails.js)
+export interface Team extends Timestamps {
+  _id: Id;
+  name: string;
+  sportsType: Id;
+  gender: string;
+  members: Id[];
+  description: string;
+  profilePic: string;
+  profileBanner: string;
+  inviteCode: string;
+  private: boolean;
+}
+
+// TeamMembers (teamMembers.js), one per user and team
+export interface TeamMember {
+  _id: Id;
+  team: Id;
+  user: Id;
+  position: string;
+  description: string;
+  // Older members were saved as "Member" or without a role, they are players
+  role: TeamRole | "Member" | "";
+  shirtNumber?: number | null;
+}
+
+// EventDetails (eventDetails.js)
+export interface Event {
+  _id: Id;
+  name: string;
+  description: string;
+  profilePic: string;
+  sportsType: Id;
+  team: Id;
+  opponent?: Id;
+  // Missing on events from before challenges were answered, those count as
+  // accepted
+  opponentStatus?: FixtureStatus;
+  opponentAnsweredBy?: Id;
+  members: Id[];
+  // Missing on events created before these were stored
+  organiser?: Id;
+  eventType?: EventType;
+  numPlayers?: string;
+  location: string;
+  // Set when the location was picked from the suggestions
+  coordinates?: Coordinates;
+  date: string;
+  startTime: string;
+  endTime: string;
+  // "true" on events from before `rrule`, nothing reads it otherwise
+  repeat: string;
+  // IANA zone `date` and the times are in, e.g. "Europe/London". Missing on
+  // events from before it was stored.
+  timeZone?: string;
+  // `date` and the times in `timeZone` as instants, missing on older events.
+  // Occurrences of a series are worked out from the wall clock instead, see
+  // utils/datetime.
+  startsAt?: Timestamp;
+  endsAt?: Timestamp;
+  // RFC 5545 RRULE of a recurring event, `date` is its first occurrence
+  rrule?: string;
+  // Occurrences that were skipped or moved out of the series, "dd/mm/yyyy"
+  exdates: string[];
+  // Set on an occurrence edited on its own, the series it was taken out of
+  recurrenceOf?: Id;
+  occurrenceDate?: string;
+  results: string;
+  // Score of a team match, `home` is `team`. `results` reads "home - away"
+  // once it is confirmed.
+  result?: EventResult;
+  // Team members who haven't dismissed the notice about the final result
+  resultNoticeTo?: Id[];
+  cost: string;
+  cancelled: boolean;
+}
+
+export interface EventResult {
+  home: number;
+  away: number;
+  status: ResultStatus;
+  submittedBy: Id;
+  submittedAt: Timestamp;
+  answeredBy?: Id;
+  answeredAt?: Timestamp;
+  // Tell the team once it is final
+  share: boolean;
+}
+
+// UserEvents (userEvents.js), the invite of one user to one event
+export interface UserEvent {
+  _id: Id;
+  user: Id;
+  event: Id;
+  status: EventStatus;
+  // When the user joined the waitlist, the earliest is promoted first
+  waitlistedAt?: Timestamp;
+  requestedAt?: Timestamp;
+  notice?: EventNoticeKind;
+  // The occurrence of a recurring event the notice is about
+  occurrence?: string;
+  // Value of each changed field before the first change the user hasn't seen
+  changes: { field: EventChangeField; previous: string }[];
+  noticeAt?: Timestamp;
+}
+
+// TeamLineups (teamLineups.js), one per team and one per match with a lineup
+export interface TeamLineup extends Timestamps {
+  _id: Id;
+  team: Id;
+  // Missing on the team's own lineup
+  event?: Id;
+  // Key of the formation the slots are numbered in
+  formation: string;
+  slots: LineupSlot[];
+  bench: Id[];
+  // Planned changes during a match, empty on the team's own lineup
+  substitutions: Substitution[];
+  updatedBy: Id;
+}
+
+export interface Substitution {
+  minute: number;
+  off: Id;
+  on: Id;
+}
+
+// `slot` is the index of the place in the formation
+export interface LineupSlot {
+  slot: number;
+  user: Id;
+}
+
+// UserFriends (userFriends.js), `user` sent the request to `friend`
+export interface Friend extends Timestamps {
+  _id: Id;
+  user: Id;
+  friend: Id;
+  status: FriendStatus;
+}
+
+// Most routes send documents back with `_id` renamed to `id`
+export type WithId<T extends { _id: Id }> = Omit<T, "_id"> & { id: Id };
@@ -1,5 +1,6 @@
-import React from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { usePopper } from "react-popper";
+import { useSearchParams } from "react-router-dom";
 
 export function useMenu(offset?: number) {
   let [referenceElem, setReferenceElem] = React.useState();
@@ -23,3 +24,47 @@ export function useMenu(offset?: number) {
     setFloatingElement
   };
 }
+
+// `value` once it stopped changing for `delay` ms, e.g. to search as the user
+// types without a request per key press
+export function useDebouncedValue<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+// Page state kept in the query string, so filtered views can be bookmarked and
+// shared and back/forward brings them back. `defaults` has to be a constant,
+// values equal to their default are left out of the url. Text inputs should
+// pass `replace` to not add a history entry per key press.
+export function useSearchParamsState<T extends Record<string, string>>(defaults: T) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const values = useMemo(() => {
+    const values = { ...defaults };
+    for (const name of Object.keys(defaults) as (keyof T & string)[]) {
+      const value = searchParams.get(name);
+      if (value !== null) values[name] = value as T[typeof name];
+    }
+    return values;
+  }, [searchParams, defaults]);
+
+  // Several values can change at once, e.g. when clearing filters
+  const update = useCallback((changes: Partial<T>, options?: { replace?: boolean }) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current);
+      for (const [name, value] of Object.entries(changes)) {
+        if (value === undefined || value === defaults[name]) next.delete(name);
+        else next.set(name, value);
+      }
+      return next;
+    }, { replace: options?.replace });
+  }, [setSearchParams, defaults]);
+
+  return [values, update] as const;
+}
@@ -0,0 +1,46 @@
+import { addDays, addWeeks, isValid, startOfDay } from "date-fns";
+import type { BusyEvent } from "api";
+import { eventInstants, parseEventDate } from "./datetime";
+import type { TimedEvent } from "./datetime";
+import { expandOccurrences, isRecurring } from "./recurrence";
+import type { RecurringEvent } from "./recurrence";
+
+// Clashes between an event about to be created or accepted and the events the
+// people in it are already going to. Series are only checked this far ahead.
+const HORIZON_WEEKS = 26;
+
+export type CheckedEvent = TimedEvent & RecurringEvent;
+
+export interface Conflict {
+  // The occurrence clashing, with `date` moved to its day
+  event: BusyEvent;
+  // Day of the occurrence of the checked event it clashes with
+  date: string;
+}
+
+function windowsOf<T extends CheckedEvent>(event: T, from: Date, to: Date) {
+  return expandOccurrences(event, from, to).map((occurrence) => ({ occurrence, ...eventInstants(occurrence) }));
+}
+
+// Occurrences of `busy` overlapping one of `event`, from today on, in the
+// order they take place. Events touching end to start don't clash.
+export function findConflicts(event: CheckedEvent, busy: BusyEvent[], today = new Date()) {
+  const first = parseEventDate(event.date);
+  if (!isValid(first)) return [];
+
+  const from = startOfDay(first < today ? today : first);
+  const to = isRecurring(event) ? addWeeks(from, HORIZON_WEEKS) : from;
+  const windows = windowsOf(event, from, to);
+
+  const conflicts: (Conflict & { start: number })[] = [];
+  for (const other of busy) {
+    // A day either side, for events in other time zones
+    for (const taken of windowsOf(other, addDays(from, -1), addDays(to, 1))) {
+      const clash = windows.find((window) => window.start < taken.end && taken.start < window.end);
+      if (clash) conflicts.push({ event: taken.occurrence, date: clash.occurrence.date, start: taken.start.getTime() });
+    }
+  }
+  return conflicts
+    .sort((a, b) => a.start - b.start)
+    .map(({ event, date }): Conflict => ({ event, date }));
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { format, isValid, parse } from "date-fns";
+import type { Event } from "types/domain";
+
+// Events keep their day and times as the wall clock of the place they happen
+// in ("dd/mm/yyyy", "HH:MM") next to the IANA zone of that place. The start
+// and end are instants in that zone, shown to each viewer in their own zone
+// and locale, with the 12 or 24 hour clock they picked in Settings.
+
+export const EVENT_DATE_FORMAT = "dd/MM/yyyy";
+
+// Events store their dates as "dd/mm/yyyy"
+export function parseEventDate(date: string) {
+  return parse(date, EVENT_DATE_FORMAT, new Date());
+}
+
+export function formatEventDate(date: Date) {
+  return format(date, EVENT_DATE_FORMAT);
+}
+
+// Time zone of the browser, used for events created before theirs was stored
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// The zones the browser knows of, for picking the one of an event
+export function timeZones() {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.("timeZone");
+  const zones = supported && supported.length > 0 ? supported : ["UTC"];
+  return zones.includes(localTimeZone()) ? zones : [localTimeZone(), ...zones];
+}
+
+// e.g. "Europe/London" as "London", "America/Argentina/Buenos_Aires" as "Buenos Aires"
+export function zoneName(timeZone: string) {
+  return timeZone.split("/").pop()!.replace(/_/g, " ");
+}
+
+// Creating formatters is slow and the calendar files need a lot of lookups
+const offsetFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Offset of `timeZone` from UTC at `instant`, in minutes
+export function zoneOffset(instant: number, timeZone: string) {
+  let formatter = offsetFormats.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+    offsetFormats.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+// "dd/mm/yyyy" and "HH:MM" as a wall clock time, kept in the UTC fields of a
+// Date. An Invalid Date when either is missing or in another format.
+export function wallClockOf(date: string, time: string) {
+  if (!/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(date ?? "") || !/^\d{1,2}:\d{2}$/.test(time ?? "")) return new Date(NaN);
+  const [day, month, year] = date.split("/").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour || 0, minute || 0));
+}
+
+// The instant a wall clock time in `timeZone` falls on. Times skipped when
+// the clocks go forward land an hour later.
+export function zonedInstant(wallClock: Date, timeZone: string) {
+  // Intl throws on Invalid Dates
+  if (!isValid(wallClock)) return new Date(NaN);
+  const guess = wallClock.getTime() - zoneOffset(wallClock.getTime(), timeZone) * 60000;
+  return new Date(wallClock.getTime() - zoneOffset(guess, timeZone) * 60000);
+}
+
+export type TimedEvent = Pick<Event, "date" | "startTime" | "endTime"> & Partial<Pick<Event, "timeZone">>;
+
+export function eventTimeZone(event: TimedEvent) {
+  return event.timeZone || localTimeZone();
+}
+
+// Start and end of an event, or of an occurrence of a series since those
+// carry their own date. Events ending before they start run past midnight.
+export function eventInstants(event: TimedEvent) {
+  const timeZone = eventTimeZone(event);
+  const start = wallClockOf(event.date, event.startTime);
+  let end = wallClockOf(event.date, event.endTime || event.startTime);
+  if (end < start) end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+  return { start: zonedInstant(start, timeZone), end: zonedInstant(end, timeZone) };
+}
+
+export function eventStart(event: TimedEvent) {
+  return eventInstants(event).start;
+}
+
+export type HourCycle = "auto" | "12h" | "24h";
+
+export const HOUR_CYCLE_LABELS: Record<HourCycle, string> = {
+  "auto": "Same as my language",
+  "12h": "12 hour (1:30 pm)",
+  "24h": "24 hour (13:30)"
+};
+
+const displayFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Formats in the viewer's locale, and their zone unless one is given
+function displayFormat(options: Intl.DateTimeFormatOptions, hourCycle: HourCycle = "auto") {
+  // h23 rather than hour12: false, which shows midnight as 24 in some locales
+  if (hourCycle !== "auto") options = { ...options, hourCycle: hourCycle === "12h" ? "h12" : "h23" };
+  const key = JSON.stringify(options);
+  let formatter = displayFormats.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(undefined, options);
+    displayFormats.set(key, formatter);
+  }
+  return formatter;
+}
+
+// e.g. "6:30 pm" or "18:30". Events without a proper date or time show nothing.
+export function formatTime(instant: Date, hourCycle: HourCycle, timeZone?: string) {
+  if (!isValid(instant)) return "";
+  return displayFormat({ hour: "numeric", minute: "2-digit", timeZone }, hourCycle).format(instant);
+}
+
+// The time with the am/pm apart, for the places that stack them. `period` is
+// empty on the 24 hour clock.
+export function timeParts(instant: Date, hourCycle: HourCycle, timeZone?: string) {
+  if (!isValid(instant)) return { clock: "", period: "" };
+  const parts = displayFormat({ hour: "numeric", minute: "2-digit", timeZone }, hourCycle).formatToParts(instant);
+  const period = parts.find((part) => part.type === "dayPeriod")?.value ?? "";
+  const clock = parts.filter((part) => part.type !== "dayPeriod").map((part) => part.value).join("").trim();
+  return { clock, period };
+}
+
+// e.g. "Oct 21" or "21 Oct"
+export function formatDay(instant: Date, timeZone?: string) {
+  if (!isValid(instant)) return "";
+  return displayFormat({ month: "short", day: "numeric", timeZone }).format(instant);
+}
+
+// e.g. "Wed, Oct 21, 2026"
+export function formatLongDay(instant: Date, timeZone?: string) {
+  if (!isValid(instant)) return "";
+  return displayFormat({ weekday: "short", month: "short", day: "numeric", year: "numeric", timeZone }).format(instant);
+}
+
+// A time of the day as typed in the forms, "HH:MM", without any zone
+export function formatClock(time: string, hourCycle: HourCycle) {
+  if (!/^\d{1,2}:\d{2}$/.test(time)) return time;
+  return formatTime(wallClockOf("01/01/2000", time), hourCycle, "UTC");
+}
+
+// The hours of the time picker, e.g. "1 pm" or "13"
+export function formatHour(hour: number, hourCycle: HourCycle) {
+  return displayFormat({ hour: "numeric", timeZone: "UTC" }, hourCycle).format(Date.UTC(2000, 0, 1, hour));
+}
+
+// e.g. "6:30 pm - 8:00 pm"
+export function formatEventTimes(event: TimedEvent, hourCycle: HourCycle) {
+  const { start, end } = eventInstants(event);
+  if (!isValid(start)) return "";
+  return formatTime(start, hourCycle) + " - " + formatTime(end, hourCycle);
+}
+
+// The start in the event's own zone when the viewer's clocks differ from it,
+// e.g. "7:30 pm in London", null otherwise
+export function eventZoneNote(event: TimedEvent, hourCycle: HourCycle) {
+  const timeZone = eventTimeZone(event);
+  const start = eventStart(event);
+  if (!isValid(start)) return null;
+  if (zoneOffset(start.getTime(), timeZone) === zoneOffset(start.getTime(), localTimeZone())) return null;
+  return `${formatTime(start, hourCycle, timeZone)} in ${zoneName(timeZone)}`;
+}
+
+const STORAGE_KEY = "hourCycle";
+
+function readHourCycle(): HourCycle {
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  return stored && stored in HOUR_CYCLE_LABELS ? (stored as HourCycle) : "auto";
+}
+
+let currentHourCycle: HourCycle | null = null;
+const listeners = new Set<(hourCycle: HourCycle) => void>();
+
+// The clock picked in Settings, changing it re-renders every time shown
+export function useHourCycle() {
+  if (!currentHourCycle) currentHourCycle = readHourCycle();
+  const [hourCycle, setHourCycle] = useState(currentHourCycle);
+
+  useEffect(() => {
+    listeners.add(setHourCycle);
+    return () => {
+      listeners.delete(setHourCycle);
+    };
+  }, []);
+
+  const update = (value: HourCycle) => {
+    currentHourCycle = value;
+    window.localStorage.setItem(STORAGE_KEY, value);
+    listeners.forEach((listener) => listener(value));
+  };
+
+  return [hourCycle, update] as const;
+}
@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from "react";
+import { addWeeks, format, isSameWeek, isValid, startOfDay, startOfWeek } from "date-fns";
+import type { Coordinates, Event, Id } from "types/domain";
+import { eventStart } from "./datetime";
+import { distanceKm, useCurrentPosition } from "./geo";
+
+// How event lists are sorted and grouped. The choice is shared by every list
+// (Events, MyPlaymate, Dashboard) and remembered in localStorage.
+
+export type EventSort = "date" | "date-desc" | "cost" | "distance" | "created";
+
+export type EventGrouping = "none" | "week" | "month" | "sport";
+
+export const EVENT_SORT_LABELS: Record<EventSort, string> = {
+  "date": "Soonest first",
+  "date-desc": "Latest first",
+  "cost": "Cheapest first",
+  "distance": "Nearest first",
+  "created": "Recently created"
+};
+
+export const EVENT_GROUPING_LABELS: Record<EventGrouping, string> = {
+  "none": "No grouping",
+  "week": "Group by week",
+  "month": "Group by month",
+  "sport": "Group by sport"
+};
+
+export interface EventOrder {
+  sort: EventSort;
+  grouping: EventGrouping;
+}
+
+// The fields of a listed event the order is computed from
+export type OrderedEvent = Pick<Event, "date" | "startTime" | "endTime" | "timeZone" | "cost" | "coordinates"> & { id: Id; sport: string };
+
+export interface EventGroup<T> {
+  key: string;
+  // null when the list isn't grouped
+  label: string | null;
+  events: T[];
+}
+
+// Start of the event, as a timestamp to compare across time zones
+function startOf(event: OrderedEvent) {
+  const start = eventStart(event).getTime();
+  return isNaN(start) ? Number.MAX_SAFE_INTEGER : start;
+}
+
+// ObjectIds start with the second they were created in
+function createdAt(event: OrderedEvent) {
+  return parseInt(event.id.slice(0, 8), 16) || 0;
+}
+
+// Events that can't be placed, e.g. without coordinates, go last. Ties are
+// broken by date.
+export function sortEvents<T extends OrderedEvent>(events: T[], sort: EventSort, position: Coordinates | null = null) {
+  const byDate = (a: T, b: T) => startOf(a) - startOf(b);
+  const rank: Record<EventSort, (event: T) => number> = {
+    "date": startOf,
+    // Undated events stay last newest first too
+    "date-desc": (event) => (startOf(event) === Number.MAX_SAFE_INTEGER ? Number.MAX_SAFE_INTEGER : -startOf(event)),
+    "cost": (event) => parseInt(event.cost) || 0,
+    "distance": (event) =>
+      position && event.coordinates ? distanceKm(position, event.coordinates) : Number.MAX_SAFE_INTEGER,
+    "created": (event) => -createdAt(event)
+  };
+  return [...events].sort((a, b) => rank[sort](a) - rank[sort](b) || byDate(a, b));
+}
+
+// Weeks and months are the viewer's, an away event late in the evening can
+// fall on the next day for them
+function groupOf(event: OrderedEvent, grouping: EventGrouping, today: Date): { key: string; label: string | null } {
+  const date = eventStart(event);
+  if (grouping === "sport") return { key: event.sport, label: event.sport || "Other" };
+  if (grouping === "none" || !isValid(date)) return { key: "", label: null };
+
+  if (grouping === "month") return { key: format(date, "yyyy-MM"), label: format(date, "MMMM yyyy") };
+
+  const week = startOfWeek(date, { weekStartsOn: 1 });
+  let label = "Week of " + format(week, "d MMM");
+  if (isSameWeek(date, today, { weekStartsOn: 1 })) label = "This week";
+  else if (isSameWeek(date, addWeeks(today, 1), { weekStartsOn: 1 })) label = "Next week";
+  return { key: format(week, "yyyy-MM-dd"), label };
+}
+
+// Upcoming events in groups, in the order the sorted events first reach them,
+// and the ones before today apart so lists can fold them away
+export function groupEvents<T extends OrderedEvent>(events: T[], grouping: EventGrouping, today = new Date()) {
+  const groups: EventGroup<T>[] = [];
+  const past: T[] = [];
+  const start = startOfDay(today).getTime();
+
+  for (const event of events) {
+    if (startOf(event) < start) {
+      past.push(event);
+      continue;
+    }
+    const { key, label } = groupOf(event, grouping, today);
+    let group = groups.find((group) => group.key === key);
+    if (!group) {
+      group = { key, label, events: [] };
+      groups.push(group);
+    }
+    group.events.push(event);
+  }
+  return { groups, past };
+}
+
+const STORAGE_KEY = "eventOrder";
+const DEFAULT_ORDER: EventOrder = { sort: "date", grouping: "none" };
+
+function readOrder(): EventOrder {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      sort: stored.sort in EVENT_SORT_LABELS ? stored.sort : DEFAULT_ORDER.sort,
+      grouping: stored.grouping in EVENT_GROUPING_LABELS ? stored.grouping : DEFAULT_ORDER.grouping
+    };
+  } catch {
+    return DEFAULT_ORDER;
+  }
+}
+
+let currentOrder: EventOrder | null = null;
+const listeners = new Set<(order: EventOrder) => void>();
+
+// The shared order, changing it re-renders every list using it
+export function useEventOrder() {
+  if (!currentOrder) currentOrder = readOrder();
+  const [order, setOrder] = useState(currentOrder);
+
+  useEffect(() => {
+    listeners.add(setOrder);
+    return () => {
+      listeners.delete(setOrder);
+    };
+  }, []);
+
+  const update = (changes: Partial<EventOrder>) => {
+    currentOrder = { ...(currentOrder ?? DEFAULT_ORDER), ...changes };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(currentOrder));
+    listeners.forEach((listener) => listener(currentOrder as EventOrder));
+  };
+
+  return [order, update] as const;
+}
+
+// `events` in the shared order. The position of the user is asked for when
+// sorting by distance.
+export function useSortedEvents<T extends OrderedEvent>(events: T[]) {
+  const [order] = useEventOrder();
+  const position = useCurrentPosition(order.sort === "distance");
+  const sorted = useMemo(() => sortEvents(events, order.sort, position), [events, order.sort, position]);
+  return { order, sorted };
+}
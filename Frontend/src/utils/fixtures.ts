@@ -0,0 +1,64 @@
+import { addWeeks } from "date-fns";
+import type { EventScore, EventTeam } from "api";
+import type { Id } from "types/domain";
+import { eventInstants } from "./datetime";
+import type { TimedEvent } from "./datetime";
+import { expandOccurrences } from "./recurrence";
+import type { RecurringEvent } from "./recurrence";
+
+// The matches of a series are listed this far ahead
+const HORIZON_WEEKS = 26;
+
+export type Outcome = "W" | "D" | "L";
+
+// A match between two teams, `team` plays at home
+export type Match = TimedEvent & RecurringEvent & {
+  id: Id;
+  team: EventTeam | null;
+  opponent: EventTeam | null;
+  result: EventScore | null;
+};
+
+// Goals of `teamId` and of the other team in a match with a confirmed score,
+// null while there is none. Without a team the match is seen from the home side.
+export function goalsOf(match: Match, teamId?: Id) {
+  const result = match.result;
+  if (!result || result.status !== "Confirmed") return null;
+  const home = !teamId || match.team?.id === teamId;
+  return {
+    scored: home ? result.home : result.away,
+    conceded: home ? result.away : result.home
+  };
+}
+
+// Win, draw or loss of `teamId`, see goalsOf()
+export function outcomeOf(match: Match, teamId?: Id): Outcome | null {
+  const goals = goalsOf(match, teamId);
+  if (!goals) return null;
+  const { scored, conceded } = goals;
+  if (scored > conceded) return "W";
+  if (scored < conceded) return "L";
+  return "D";
+}
+
+// Every occurrence of the matches, split into the ones still to come, soonest
+// first, and the ones played, latest first. A match is played once it ended.
+export function splitFixtures<T extends Match>(matches: T[], now = new Date()) {
+  const until = addWeeks(now, HORIZON_WEEKS);
+  const occurrences = matches
+    .flatMap((match) => expandOccurrences(match, new Date(0), until))
+    .map((occurrence) => ({ occurrence, ...eventInstants(occurrence) }))
+    .filter(({ start }) => !isNaN(start.getTime()));
+
+  const upcoming = occurrences
+    .filter(({ end }) => end >= now)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const played = occurrences
+    .filter(({ end }) => end < now)
+    .sort((a, b) => b.start.getTime() - a.start.getTime());
+
+  return {
+    upcoming: upcoming.map(({ occurrence }) => occurrence),
+    played: played.map(({ occurrence }) => occurrence)
+  };
+}
@@ -0,0 +1,51 @@
+// Where the players of a sport line up. Slots are in percent of the width and
+// height of a portrait field, the team's own goal or basket at the bottom.
+// The registry is shared with the backend, which checks saved lineups against
+// it, so formations are added in shared/formations.json only.
+import registry from "../../../shared/formations.json";
+
+export type FieldKind = "pitch" | "small-pitch" | "futsal" | "basketball" | "volleyball";
+
+export interface FormationSlot {
+  x: number;
+  y: number;
+  position: string;
+}
+
+// `key` is stored with the lineup, it mustn't change once a formation shipped
+export interface Formation {
+  key: string;
+  name: string;
+  field: FieldKind;
+  slots: FormationSlot[];
+}
+
+interface FormationRegistry {
+  formations: Record<string, Formation[]>;
+  // Groups of formations by the lowercase name of the SportsTypes document,
+  // the ids differ between databases
+  sports: Record<string, string[]>;
+  // Sports without formations of their own get this one's
+  defaultSport: string;
+}
+
+const { formations, sports, defaultSport } = registry as FormationRegistry;
+
+const FORMATIONS: Record<string, Formation[]> = Object.fromEntries(
+  Object.entries(sports).map(([sport, groups]) => [sport, groups.flatMap((group) => formations[group])])
+);
+
+const ALL_FORMATIONS = Object.values(formations).flat();
+
+export function formationsFor(sport: string | null | undefined) {
+  return FORMATIONS[(sport ?? "").trim().toLowerCase()] ?? FORMATIONS[defaultSport];
+}
+
+// The formation a lineup was saved in, the first of the sport when it isn't
+// known anymore
+export function formationOf(key: string, sport: string | null | undefined) {
+  const formations = formationsFor(sport);
+  return formations.find((formation) => formation.key === key)
+    ?? ALL_FORMATIONS.find((formation) => formation.key === key)
+    ?? formations[0];
+}
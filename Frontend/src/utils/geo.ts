@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import type { Coordinates } from "types/domain";
+
+// The part of google.maps.places.PlacesService the event forms use, they get
+// it from usePlacesService()
+interface PlaceDetailsService {
+  getDetails(
+    request: { placeId: string; fields: string[] },
+    callback: (place: { geometry?: { location?: { lat(): number; lng(): number } } } | null) => void
+  ): void;
+}
+
+// Where a picked place prediction is, null when google can't tell
+export function placeCoordinates(placesService: PlaceDetailsService | null, placeId: string) {
+  return new Promise<Coordinates | null>((resolve) => {
+    if (!placesService) return resolve(null);
+    placesService.getDetails({ placeId, fields: ["geometry"] }, (place) => {
+      const location = place?.geometry?.location;
+      resolve(location ? { lat: location.lat(), lng: location.lng() } : null);
+    });
+  });
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Straight line distance, good enough to sort by
+export function distanceKm(a: Coordinates, b: Coordinates) {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(b.lat - a.lat);
+  const dLng = radians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.lat)) * Math.cos(radians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+// Position of the browser, only asked for once `enabled`. Stays null while
+// unknown or when the user doesn't share it.
+export function useCurrentPosition(enabled: boolean) {
+  const [position, setPosition] = useState<Coordinates | null>(null);
+
+  useEffect(() => {
+    if (!enabled || position || !navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => setPosition({ lat: coords.latitude, lng: coords.longitude }),
+      () => {}
+    );
+  }, [enabled]);
+
+  return position;
+}
@@ -0,0 +1,83 @@
+import type { LineupDetails } from "api";
+import type { Id, Substitution } from "types/domain";
+import { formationsFor } from "./formations";
+import type { Formation } from "./formations";
+
+export type LineupDraft = Pick<LineupDetails, "formation" | "slots" | "bench" | "substitutions">;
+
+export function emptyLineup(sport: string | null | undefined): LineupDraft {
+  return { formation: formationsFor(sport)[0].key, slots: [], bench: [], substitutions: [] };
+}
+
+// Where a player is in the lineup. "members" is left out of it.
+export type LineupSpot = { kind: "slot"; slot: number } | { kind: "bench" } | { kind: "members" };
+
+export function spotOf(lineup: LineupDraft, userId: Id): LineupSpot {
+  const placed = lineup.slots.find((slot) => slot.user === userId);
+  if (placed) return { kind: "slot", slot: placed.slot };
+  if (lineup.bench.includes(userId)) return { kind: "bench" };
+  return { kind: "members" };
+}
+
+// Puts the player at `to`. A player already in that slot swaps places with
+// them, they go back to the members when the moved one came from there.
+export function movePlayer(lineup: LineupDraft, userId: Id, to: LineupSpot): LineupDraft {
+  const from = spotOf(lineup, userId);
+  let slots = lineup.slots.filter((slot) => slot.user !== userId);
+  let bench = lineup.bench.filter((id) => id !== userId);
+
+  if (to.kind === "bench") bench = [...bench, userId];
+  if (to.kind === "slot") {
+    const occupant = slots.find((slot) => slot.slot === to.slot);
+    slots = [...slots.filter((slot) => slot.slot !== to.slot), { slot: to.slot, user: userId }];
+    if (occupant && from.kind === "slot") slots = [...slots, { slot: from.slot, user: occupant.user }];
+    if (occupant && from.kind === "bench") bench = [...bench, occupant.user];
+  }
+
+  return { ...lineup, slots, bench };
+}
+
+// Who is playing at `minute`, after the planned substitutions up to it. Those
+// planned for the same minute count in the order they were added.
+export function onFieldAt(lineup: LineupDraft, minute: number): Id[] {
+  return lineup.substitutions
+    .filter((sub) => sub.minute <= minute)
+    .reduce(
+      (playing, sub) => [...playing.filter((userId) => userId !== sub.off), sub.on],
+      lineup.slots.map((slot) => slot.user)
+    );
+}
+
+// The first planned substitution that can't happen, because the player coming
+// off isn't playing by then or the one coming on already is
+export function impossibleSubstitution(lineup: LineupDraft): Substitution | null {
+  let playing = lineup.slots.map((slot) => slot.user);
+  for (const sub of lineup.substitutions) {
+    if (!playing.includes(sub.off) || playing.includes(sub.on)) return sub;
+    playing = [...playing.filter((userId) => userId !== sub.off), sub.on];
+  }
+  return null;
+}
+
+// Moves the placed players to the slots of `to` nearest to where they were,
+// the closest pairs first. Those left without one go to the bench.
+export function changeFormation(lineup: LineupDraft, from: Formation, to: Formation): LineupDraft {
+  const pairs = lineup.slots
+    .filter((placed) => from.slots[placed.slot])
+    .flatMap((placed) => to.slots.map((slot, index) => {
+      const previous = from.slots[placed.slot];
+      return { user: placed.user, slot: index, distance: Math.hypot(slot.x - previous.x, slot.y - previous.y) };
+    }))
+    .sort((a, b) => a.distance - b.distance);
+
+  let slots: LineupDraft["slots"] = [];
+  for (const pair of pairs) {
+    if (slots.some((placed) => placed.user === pair.user || placed.slot === pair.slot)) continue;
+    slots = [...slots, { slot: pair.slot, user: pair.user }];
+  }
+  const benched = lineup.slots
+    .map((placed) => placed.user)
+    .filter((user) => !slots.some((placed) => placed.user === user));
+
+  return { ...lineup, formation: to.key, slots, bench: [...lineup.bench, ...benched] };
+}
@@ -0,0 +1,200 @@
+import { addDays, addWeeks, format, isValid, parse, startOfDay, startOfWeek } from "date-fns";
+import type { Event } from "types/domain";
+import { formatEventDate, parseEventDate } from "./datetime";
+
+// Recurring events keep an RFC 5545 RRULE next to their first date. Only the
+// weekly rules the event forms can build are understood, e.g.
+// "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231".
+
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+// In calendar order, the week starts on Monday like the Dashboard calendar
+export const WEEKDAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+export interface RecurrenceRule {
+  // Every `interval` weeks
+  interval: number;
+  byDay: Weekday[];
+  // Last possible date as "dd/mm/yyyy", or the number of occurrences. A rule
+  // without either repeats forever.
+  until?: string;
+  count?: number;
+}
+
+// The fields of an event that recurrence is computed from
+export type RecurringEvent = Pick<Event, "date" | "repeat"> & Partial<Pick<Event, "rrule" | "exdates">>;
+
+function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[(date.getDay() + 6) % 7];
+}
+
+export function parseRule(rrule: string): RecurrenceRule | null {
+  const parts = new Map(
+    rrule
+      .replace(/^RRULE:/, "")
+      .split(";")
+      .map((part) => part.split("=") as [string, string])
+  );
+  if (parts.get("FREQ") !== "WEEKLY") return null;
+
+  const rule: RecurrenceRule = {
+    interval: Math.max(1, parseInt(parts.get("INTERVAL") ?? "1") || 1),
+    byDay: (parts.get("BYDAY") ?? "")
+      .split(",")
+      .filter((day): day is Weekday => WEEKDAYS.includes(day as Weekday))
+  };
+
+  const until = parts.get("UNTIL");
+  if (until) {
+    const date = parse(until.slice(0, 8), "yyyyMMdd", new Date());
+    if (isValid(date)) rule.until = formatEventDate(date);
+  }
+  const count = parseInt(parts.get("COUNT") ?? "");
+  if (count > 0) rule.count = count;
+
+  return rule;
+}
+
+export function formatRule(rule: RecurrenceRule) {
+  let rrule = "FREQ=WEEKLY";
+  if (rule.interval > 1) rrule += ";INTERVAL=" + rule.interval;
+  if (rule.byDay.length > 0) {
+    const days = WEEKDAYS.filter((day) => rule.byDay.includes(day));
+    rrule += ";BYDAY=" + days.join(",");
+  }
+  if (rule.until) {
+    rrule += ";UNTIL=" + format(parseEventDate(rule.until), "yyyyMMdd");
+  } else if (rule.count) {
+    rrule += ";COUNT=" + rule.count;
+  }
+  return rrule;
+}
+
+// Every week on the weekday of `date`, the starting point of the forms
+export function defaultRule(date: string): RecurrenceRule {
+  const start = parseEventDate(date);
+  return { interval: 1, byDay: isValid(start) ? [weekdayOf(start)] : [] };
+}
+
+// The rule of an event, if it recurs. Events from before rules were stored
+// only have `repeat`, they are taken as weekly.
+export function ruleOf(event: RecurringEvent) {
+  if (event.rrule) return parseRule(event.rrule);
+  if (event.repeat == "true") return { interval: 1, byDay: [] };
+  return null;
+}
+
+export function isRecurring(event: RecurringEvent) {
+  return ruleOf(event) !== null;
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun"
+};
+
+// e.g. "Every 2 weeks on Mon, Wed until 31/12/2026"
+export function describeRule(rule: RecurrenceRule, date: string) {
+  const days = rule.byDay.length > 0 ? rule.byDay : defaultRule(date).byDay;
+  let text = rule.interval > 1 ? `Every ${rule.interval} weeks` : "Every week";
+  if (days.length > 0) {
+    text += " on " + WEEKDAYS.filter((day) => days.includes(day)).map((day) => WEEKDAY_NAMES[day]).join(", ");
+  }
+  if (rule.until) text += " until " + rule.until;
+  else if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
+
+// Walks the dates of the series in order, including skipped ones, until
+// `visit` returns false or the rule runs out.
+function walkSeries(event: RecurringEvent, rule: RecurrenceRule, visit: (date: Date) => boolean) {
+  const start = startOfDay(parseEventDate(event.date));
+  if (!isValid(start)) return;
+
+  const days = rule.byDay.length > 0 ? rule.byDay : [weekdayOf(start)];
+  const offsets = WEEKDAYS.flatMap((day, index) => (days.includes(day) ? [index] : []));
+  const until = rule.until ? parseEventDate(rule.until) : null;
+  const firstWeek = startOfWeek(start, { weekStartsOn: 1 });
+
+  let seen = 0;
+  for (let week = 0; ; week += rule.interval) {
+    for (const offset of offsets) {
+      const date = addDays(addWeeks(firstWeek, week), offset);
+      if (date < start) continue;
+      if (until && date > until) return;
+      if (rule.count && seen >= rule.count) return;
+
+      seen++;
+      if (!visit(date)) return;
+    }
+  }
+}
+
+// The occurrences of an event between `from` and `to`, both included, as
+// copies with `date` moved to the day they take place. Events that don't
+// recur come back as they are when their date is in range.
+export function expandOccurrences<T extends RecurringEvent>(event: T, from: Date, to: Date): T[] {
+  const first = startOfDay(from);
+  const rule = ruleOf(event);
+  if (!rule) {
+    const date = parseEventDate(event.date);
+    return date >= first && date <= to ? [event] : [];
+  }
+
+  const skipped = new Set(event.exdates ?? []);
+  const occurrences: T[] = [];
+  walkSeries(event, rule, (date) => {
+    if (date > to) return false;
+    const day = formatEventDate(date);
+    if (date >= first && !skipped.has(day)) occurrences.push({ ...event, date: day });
+    return true;
+  });
+  return occurrences;
+}
+
+export function occursOn(event: RecurringEvent, date: Date) {
+  return expandOccurrences(event, date, date).length > 0;
+}
+
+// The rules of a series split at `date` ("dd/mm/yyyy"). `before` ends the
+// day before, null when nothing is left of it. `after` carries on from `date`
+// with what remains of a COUNT.
+export function splitRule(event: RecurringEvent, date: string) {
+  const rule = ruleOf(event);
+  if (!rule) return { before: null, after: null };
+
+  const splitAt = parseEventDate(date);
+  let earlier = 0;
+  walkSeries(event, rule, (occurrence) => {
+    if (occurrence >= splitAt) return false;
+    earlier++;
+    return true;
+  });
+
+  const before = earlier > 0
+    ? formatRule({ ...rule, count: undefined, until: formatEventDate(addDays(splitAt, -1)) })
+    : null;
+  const after = formatRule(rule.count ? { ...rule, count: rule.count - earlier } : rule);
+  return { before, after };
+}
+
+// Links to an occurrence carry its date, e.g. /events/<id>?on=2026-10-21
+const OCCURRENCE_PARAM = "on";
+
+export function eventPath(event: RecurringEvent & { id: string }) {
+  const path = "/events/" + event.id;
+  if (!isRecurring(event)) return path;
+  return `${path}?${OCCURRENCE_PARAM}=${format(parseEventDate(event.date), "yyyy-MM-dd")}`;
+}
+
+// Full url of the page of an event or occurrence, for sharing
+export function eventShareUrl(event: RecurringEvent & { id: string }) {
+  return window.location.origin + eventPath(event);
+}
+
+// The occurrence an event page was opened for, as "dd/mm/yyyy"
+export function occurrenceParam(searchParams: URLSearchParams) {
+  const value = searchParams.get(OCCURRENCE_PARAM);
+  if (!value) return null;
+  const date = parse(value, "yyyy-MM-dd", new Date());
+  return isValid(date) ? formatEventDate(date) : null;
+}
@@ -0,0 +1,217 @@
+import { useMemo } from "react";
+import { addMonths, addWeeks, eachMonthOfInterval, eachWeekOfInterval, subDays, subYears } from "date-fns";
+import { api, useQuery } from "api";
+import type { EventSummary, Fixture } from "api";
+import type { EventStatus, Id } from "types/domain";
+import { eventInstants } from "./datetime";
+import type { TimedEvent } from "./datetime";
+import { goalsOf, outcomeOf, splitFixtures } from "./fixtures";
+import type { Match, Outcome } from "./fixtures";
+import { expandOccurrences } from "./recurrence";
+import type { RecurringEvent } from "./recurrence";
+
+// Every answer to an invite, asking to join isn't one
+const INVITE_STATUSES: EventStatus[] = ["Accepted", "Pending Invite", "Rejected", "Waitlisted"];
+
+// Seasons start in August, as most leagues do
+const SEASON_START_MONTH = 7;
+
+export type StatsRange = "30days" | "season" | "all";
+
+export const STATS_RANGE_LABELS: Record<StatsRange, string> = {
+  "30days": "Last 30 days",
+  "season": "This season",
+  "all": "All time"
+};
+
+// The same result this many matches in a row, e.g. three wins
+export interface Streak {
+  outcome: Outcome;
+  length: number;
+}
+
+// Rates go from 0 to 1 and are null until there is anything to count
+export interface Stats {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  // Of the matches with a confirmed score
+  winRate: number | null;
+  goalsFor: number;
+  goalsAgainst: number;
+  attendanceRate: number | null;
+  streak: Streak | null;
+}
+
+export type PlayerStats = Stats & {
+  // Events gone to, of any kind
+  attended: number;
+  trainings: number;
+};
+
+// A week or month of a timeline, `winRateToDate` counts the matches of the
+// range up to its end
+export type TimelinePoint = PlayerStats & {
+  start: Date;
+  winRateToDate: number | null;
+};
+
+export interface SportStats extends PlayerStats {
+  sport: string;
+}
+
+// Occurrences of the events that started from `from` and already ended,
+// latest first
+function pastOccurrences<T extends TimedEvent & RecurringEvent>(events: T[], from: Date | null, now: Date) {
+  return events
+    .flatMap((event) => expandOccurrences(event, from ?? new Date(0), now))
+    .map((occurrence) => ({ occurrence, ...eventInstants(occurrence) }))
+    .filter(({ start, end }) => end < now && (!from || start >= from))
+    .sort((a, b) => b.start.getTime() - a.start.getTime())
+    .map(({ occurrence }) => occurrence);
+}
+
+// Results of the played matches, latest first, for `teamId` or else the home team
+function resultStats(played: Match[], teamId?: Id): Omit<Stats, "attendanceRate"> {
+  let wins = 0;
+  let draws = 0;
+  let losses = 0;
+  let goalsFor = 0;
+  let goalsAgainst = 0;
+  let streak: Streak | null = null;
+  let streakEnded = false;
+
+  for (const match of played) {
+    const goals = goalsOf(match, teamId);
+    const outcome = outcomeOf(match, teamId);
+    if (!goals || !outcome) continue;
+
+    goalsFor += goals.scored;
+    goalsAgainst += goals.conceded;
+    if (outcome === "W") wins++;
+    if (outcome === "D") draws++;
+    if (outcome === "L") losses++;
+
+    // Matches without a score don't break the run
+    if (!streak) streak = { outcome, length: 1 };
+    else if (!streakEnded && streak.outcome === outcome) streak.length++;
+    else streakEnded = true;
+  }
+
+  const decided = wins + draws + losses;
+  return {
+    played: played.length,
+    wins,
+    draws,
+    losses,
+    winRate: decided ? wins / decided : null,
+    goalsFor,
+    goalsAgainst,
+    streak
+  };
+}
+
+// Attendance is the share of the invites to the played matches accepted
+export function teamStats(fixtures: Fixture[], teamId: Id, now = new Date()): Stats {
+  const { played } = splitFixtures(fixtures, now);
+  const accepted = played.reduce((sum, fixture) => sum + fixture.attendance.accepted, 0);
+  const invited = played.reduce((sum, fixture) => sum + fixture.attendance.invited, 0);
+
+  return {
+    ...resultStats(played, teamId),
+    attendanceRate: invited ? accepted / invited : null
+  };
+}
+
+// Of past occurrences of the events the player was invited to, latest first.
+// The matches they went to count for the team they played for, the home team.
+// Attendance is the share of the invites accepted, of any kind of event.
+function occurrenceStats(past: EventSummary[]): PlayerStats {
+  const accepted = past.filter((event) => event.status === "Accepted");
+  const matches = accepted.filter((event) => event.eventType === "team" && event.team);
+
+  return {
+    ...resultStats(matches),
+    attended: accepted.length,
+    trainings: accepted.filter((event) => event.eventType === "training").length,
+    attendanceRate: past.length ? accepted.length / past.length : null
+  };
+}
+
+// From the events the player was invited to, the ones since `from` if given
+export function playerStats(events: EventSummary[], from: Date | null = null, now = new Date()): PlayerStats {
+  return occurrenceStats(pastOccurrences(events, from, now));
+}
+
+// Null for all time
+export function rangeStart(range: StatsRange, now = new Date()): Date | null {
+  if (range === "30days") return subDays(now, 30);
+  if (range === "season") {
+    const start = new Date(now.getFullYear(), SEASON_START_MONTH, 1);
+    return start > now ? subYears(start, 1) : start;
+  }
+  return null;
+}
+
+// Player stats week by week over the last 30 days, month by month otherwise.
+// All time starts with the first event.
+export function playerTimeline(events: EventSummary[], range: StatsRange, now = new Date()) {
+  const past = pastOccurrences(events, rangeStart(range, now), now);
+  const unit: "week" | "month" = range === "30days" ? "week" : "month";
+  const first = rangeStart(range, now) ?? (past.length ? eventInstants(past[past.length - 1]).start : now);
+  const starts = unit === "week"
+    ? eachWeekOfInterval({ start: first, end: now }, { weekStartsOn: 1 })
+    : eachMonthOfInterval({ start: first, end: now });
+
+  let wins = 0;
+  let decided = 0;
+  const points: TimelinePoint[] = starts.map((start) => {
+    const end = unit === "week" ? addWeeks(start, 1) : addMonths(start, 1);
+    const stats = occurrenceStats(past.filter((event) => {
+      const eventStart = eventInstants(event).start;
+      return eventStart >= start && eventStart < end;
+    }));
+    wins += stats.wins;
+    decided += stats.wins + stats.draws + stats.losses;
+    return { ...stats, start, winRateToDate: decided ? wins / decided : null };
+  });
+
+  return { unit, points };
+}
+
+// Player stats per sport since `from`, the most played first
+export function sportBreakdown(events: EventSummary[], from: Date | null, now = new Date()): SportStats[] {
+  const past = pastOccurrences(events, from, now);
+  const sports = Array.from(new Set(past.map((event) => event.sport)));
+  return sports
+    .map((sport) => ({ sport, ...occurrenceStats(past.filter((event) => event.sport === sport)) }))
+    .filter((stats) => stats.attended > 0)
+    .sort((a, b) => b.attended - a.attended);
+}
+
+// Null while the fixtures load
+export function useTeamStats(teamId: Id | null) {
+  const { data: fixtures } = useQuery(api.events.fixtures, teamId ? [teamId] : null);
+  return useMemo(() => (fixtures && teamId ? teamStats(fixtures, teamId) : null), [fixtures, teamId]);
+}
+
+// Every event the user was invited to, whatever they answered
+export function usePlayerInvites(userId: Id | null) {
+  return useQuery(api.events.list, userId ? [{ userId, status: INVITE_STATUSES }] : null);
+}
+
+export function usePlayerStats(userId: Id | null) {
+  const { data: events } = usePlayerInvites(userId);
+  return useMemo(() => (events ? playerStats(events) : null), [events]);
+}
+
+// e.g. "77.5%", "-" while there is nothing to count
+export function formatRate(rate: number | null) {
+  return rate === null ? "-" : `${Math.round(rate * 1000) / 10}%`;
+}
+
+// e.g. "W3"
+export function formatStreak(streak: Streak | null) {
+  return streak ? `${streak.outcome}${streak.length}` : "-";
+}
@@ -6,7 +6,11 @@ import tsconfigPaths from "vite-tsconfig-paths";
 export default defineConfig({
   plugins: [tsconfigPaths(), react()],
   server: {
-    port: 4200
+    port: 4200,
+    // The formations in ../shared are read by the backend too
+    fs: {
+      allow: [".."]
+    }
   },
   build: {
     rollupOptions: {